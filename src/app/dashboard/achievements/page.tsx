@@ -14,8 +14,8 @@ import {
 } from 'lucide-react';
 import { adminAchievementsApi } from '@/lib/api';
 import { useAuthStore } from '@/store/auth-store';
-import { MAPS } from '@/lib/constants';
 import type { Achievement, AchievementTier } from '@/lib/types';
+import { useMapRegistry } from '@/store/map-registry-store';
 import toast from 'react-hot-toast';
 
 interface AchievementFormData {
@@ -99,6 +99,7 @@ function getIconEmoji(icon: string): string {
 }
 
 export default function AchievementsPage() {
+  const { maps } = useMapRegistry();
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchText, setSearchText] = useState('');
@@ -575,7 +576,7 @@ export default function AchievementsPage() {
                         className="w-full appearance-none cursor-pointer pr-10"
                       >
                         <option value="">Global</option>
-                        {MAPS.map((m) => (
+                        {maps.map((m) => (
                           <option key={m.name} value={m.name}>
                             {m.displayName}
                           </option>
@@ -695,9 +696,10 @@ function AchievementRow({
   deletingId: string | null;
   isAdmin: boolean;
 }) {
+  const { displayName } = useMapRegistry();
   const tierColor = TIER_COLORS[achievement.tier];
   const mapDisplay = achievement.mapName
-    ? MAPS.find((m) => m.name === achievement.mapName)?.displayName ?? achievement.mapName
+    ? displayName(achievement.mapName)
     : 'Global';
 
   return (
@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState, useMemo, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import { AnimatePresence, motion } from 'framer-motion';
 import {
   Map,
@@ -17,21 +18,44 @@ import {
   Users,
   Globe,
   Lock,
+  Edit2,
+  Flame,
+  ArrowDownWideNarrow,
+  SlidersHorizontal,
+  RotateCcw,
+  Save,
 } from 'lucide-react';
-import { collectionsApi, adminCollectionsApi } from '@/lib/api';
-import { MAPS, MAP_COLORS, GRENADE_TYPES } from '@/lib/constants';
+import { collectionsApi, adminCollectionsApi, apiErrorMessage } from '@/lib/api';
+import { GRENADE_TYPES } from '@/lib/constants';
 import type { LineupCollection, Lineup, AdminSearchedCollection } from '@/lib/types';
 import MapRadar from '@/components/ui/MapRadar';
+import HeatmapFilterBar from '@/components/ui/HeatmapFilterBar';
+import { DEFAULT_HEATMAP_FILTERS, heatmapPoints, type HeatmapFilters } from '@/lib/lineup-heatmap';
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  MAX_SCORE_WEIGHT,
+  SCORE_METRICS,
+  loadScoreWeights,
+  saveScoreWeights,
+  scoreLineups,
+  type ScoreWeights,
+} from '@/lib/lineup-scoring';
+import { useAuthStore } from '@/store/auth-store';
+import { useMapRegistry, useSelectedMap } from '@/store/map-registry-store';
 import toast from 'react-hot-toast';
 
 type GrenadeFilter = 'all' | 'smoke' | 'flash' | 'molotov' | 'he';
 type SidebarMode = 'preset' | 'search';
 type SearchType = 'all' | 'community' | 'user';
+type GrenadeType = Lineup['grenadeType'];
 
 const PAGE_LIMIT = 20;
 
 export default function BrowsePage() {
-  const [selectedMap, setSelectedMap] = useState(MAPS[0].name as string);
+  const { maps, color } = useMapRegistry();
+  const { user } = useAuthStore();
+  const isAdmin = user?.role === 'admin';
+  const [selectedMap, setSelectedMap] = useSelectedMap();
   const [sidebarMode, setSidebarMode] = useState<SidebarMode>('preset');
 
   // Preset mode state
@@ -54,6 +78,11 @@ export default function BrowsePage() {
   const [lineups, setLineups] = useState<Lineup[]>([]);
   const [selectedLineupId, setSelectedLineupId] = useState<string | null>(null);
   const [grenadeFilter, setGrenadeFilter] = useState<GrenadeFilter>('all');
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapFilters, setHeatmapFilters] = useState<HeatmapFilters>(DEFAULT_HEATMAP_FILTERS);
+  const [sortByScore, setSortByScore] = useState(false);
+  const [showWeights, setShowWeights] = useState(false);
+  const [scoreWeights, setScoreWeights] = useState(loadScoreWeights);
   const [loadingLineups, setLoadingLineups] = useState(false);
   const [addingKey, setAddingKey] = useState<string | null>(null);
   const [openAddMenuId, setOpenAddMenuId] = useState<string | null>(null);
@@ -133,7 +162,7 @@ export default function BrowsePage() {
     } finally {
       setLoadingLineups(false);
     }
-  }, [selectedCollectionId, selectedMap]);
+  }, [selectedCollectionId, selectedMap, setSelectedMap]);
 
   const selectLineup = useCallback((lineupId: string) => {
     setSelectedLineupId((prev) => (prev === lineupId ? null : lineupId));
@@ -158,8 +187,7 @@ export default function BrowsePage() {
       setAllCollections(bump);
       setPresetCollections(bump);
     } catch (err: unknown) {
-      const msg = (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
-      toast.error(msg || 'Failed to add lineup');
+      toast.error(apiErrorMessage(err, 'Failed to add lineup'));
     } finally {
       setAddingKey(null);
     }
@@ -170,6 +198,22 @@ export default function BrowsePage() {
     return lineups.filter((l) => l.grenadeType === grenadeFilter);
   }, [lineups, grenadeFilter]);
 
+  const heatmap = useMemo(
+    () => (showHeatmap ? heatmapPoints(filteredLineups, heatmapFilters) : undefined),
+    [showHeatmap, filteredLineups, heatmapFilters],
+  );
+
+  // Scores are relative to the whole collection so the grenade filter doesn't shift them
+  const scores = useMemo(
+    () => (isAdmin && sortByScore ? scoreLineups(lineups, scoreWeights) : null),
+    [isAdmin, sortByScore, lineups, scoreWeights],
+  );
+
+  const listedLineups = useMemo(() => {
+    if (!scores) return filteredLineups;
+    return [...filteredLineups].sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0));
+  }, [filteredLineups, scores]);
+
   const presetGroups = useMemo(() => ({
     defaults: presetCollections.filter((c) => c.isDefault),
     training: presetCollections.filter((c) => c.isTraining && !c.isDefault),
@@ -195,7 +239,7 @@ export default function BrowsePage() {
     return grouped;
   }, [allCollections, selectedCollectionId]);
 
-  const mapColor = MAP_COLORS[selectedMap] || '#f0a500';
+  const mapColor = color(selectedMap);
   const selectedCollection = presetCollections.find((c) => c.id === selectedCollectionId);
   const totalSearchPages = Math.ceil(searchTotal / PAGE_LIMIT);
 
@@ -217,8 +261,8 @@ export default function BrowsePage() {
 
         {/* Map tabs */}
         <div className="flex flex-wrap gap-2">
-          {MAPS.map((map) => {
-            const color = MAP_COLORS[map.name] || '#f0a500';
+          {maps.map((map) => {
+            const mapColor = color(map.name);
             const isActive = selectedMap === map.name;
             return (
               <button
@@ -229,7 +273,7 @@ export default function BrowsePage() {
                     ? 'border'
                     : 'text-[#6b6b8a] hover:text-[#e8e8e8] bg-[#12121a] border border-[#2a2a3e] hover:border-[#3a3a5e]'
                 }`}
-                style={isActive ? { backgroundColor: `${color}20`, borderColor: `${color}60`, color } : {}}
+                style={isActive ? { backgroundColor: `${mapColor}20`, borderColor: `${mapColor}60`, color: mapColor } : {}}
               >
                 {map.displayName}
               </button>
@@ -430,6 +474,18 @@ export default function BrowsePage() {
                 </button>
               );
             })}
+            <button
+              onClick={() => setShowHeatmap((prev) => !prev)}
+              className={`flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium transition-all border ${
+                showHeatmap
+                  ? 'bg-[#ef4444]/15 border-[#ef4444]/50 text-[#ef4444]'
+                  : 'text-[#6b6b8a] hover:text-[#e8e8e8] bg-[#12121a] border-[#2a2a3e]'
+              }`}
+              title="Show throw/landing density"
+            >
+              <Flame className="h-3.5 w-3.5" />
+              Heatmap
+            </button>
             {selectedCollection && (
               <span className="ml-auto text-xs text-[#6b6b8a]">
                 <span style={{ color: mapColor }}>{selectedCollection.name}</span>
@@ -438,6 +494,17 @@ export default function BrowsePage() {
             )}
           </div>
 
+          {showHeatmap && (
+            <div className="shrink-0">
+              <HeatmapFilterBar
+                filters={heatmapFilters}
+                onChange={setHeatmapFilters}
+                count={heatmap?.length}
+                hideGrenadeType
+              />
+            </div>
+          )}
+
           {/* Radar */}
           <div className="flex-1 min-h-0 relative">
             {!selectedCollectionId && (
@@ -453,6 +520,7 @@ export default function BrowsePage() {
               lineups={filteredLineups}
               selectedLineupId={selectedLineupId}
               onLineupClick={(l) => selectLineup(l.id)}
+              heatmapPoints={heatmap}
             />
           </div>
         </div>
@@ -467,13 +535,49 @@ export default function BrowsePage() {
             ) : (
               <span>Select a collection</span>
             )}
+            {isAdmin && (
+              <div className="ml-auto flex items-center gap-1">
+                <button
+                  onClick={() => setSortByScore((prev) => !prev)}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium transition-all border ${
+                    sortByScore
+                      ? 'bg-[#f0a500]/15 border-[#f0a500]/50 text-[#f0a500]'
+                      : 'text-[#6b6b8a] hover:text-[#e8e8e8] bg-[#12121a] border-[#2a2a3e]'
+                  }`}
+                  title="Rank lineups by score"
+                >
+                  <ArrowDownWideNarrow className="h-3.5 w-3.5" />
+                  Score
+                </button>
+                <button
+                  onClick={() => setShowWeights((prev) => !prev)}
+                  className={`p-1 rounded-lg transition-all border ${
+                    showWeights
+                      ? 'bg-[#f0a500]/15 border-[#f0a500]/50 text-[#f0a500]'
+                      : 'text-[#6b6b8a] hover:text-[#e8e8e8] bg-[#12121a] border-[#2a2a3e]'
+                  }`}
+                  title="Adjust score weights"
+                >
+                  <SlidersHorizontal className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            )}
           </div>
 
+          {isAdmin && showWeights && (
+            <ScoreWeightsPanel
+              weights={scoreWeights}
+              initialType={grenadeFilter === 'all' ? 'smoke' : grenadeFilter}
+              onChange={(weights) => { setScoreWeights(weights); setSortByScore(true); }}
+            />
+          )}
+
           <div ref={lineupListRef} className="flex-1 overflow-y-auto space-y-0.5">
-            {!loadingLineups && filteredLineups.map((lineup) => (
+            {!loadingLineups && listedLineups.map((lineup) => (
               <NadeListItem
                 key={lineup.id}
                 lineup={lineup}
+                score={scores?.get(lineup.id)}
                 isSelected={lineup.id === selectedLineupId}
                 onSelect={() => selectLineup(lineup.id)}
                 isMenuOpen={openAddMenuId === lineup.id}
@@ -537,8 +641,9 @@ function SearchResultItem({
   isSelected: boolean;
   onSelect: () => void;
 }) {
-  const mapColor = MAP_COLORS[collection.mapName] || '#f0a500';
-  const mapDisplay = MAPS.find((m) => m.name === collection.mapName)?.displayName ?? collection.mapName;
+  const { displayName, color } = useMapRegistry();
+  const mapColor = color(collection.mapName);
+  const mapDisplay = displayName(collection.mapName);
 
   return (
     <button
@@ -574,9 +679,10 @@ function SearchResultItem({
 }
 
 function NadeListItem({
-  lineup, isSelected, onSelect, isMenuOpen, onToggleMenu, addTargetsByMap, addingKey, onAddToCollection,
+  lineup, score, isSelected, onSelect, isMenuOpen, onToggleMenu, addTargetsByMap, addingKey, onAddToCollection,
 }: {
   lineup: Lineup;
+  score?: number;
   isSelected: boolean;
   onSelect: () => void;
   isMenuOpen: boolean;
@@ -585,6 +691,7 @@ function NadeListItem({
   addingKey: string | null;
   onAddToCollection: (lineupId: string, collectionId: string) => void;
 }) {
+  const { maps } = useMapRegistry();
   const gt = GRENADE_TYPES[lineup.grenadeType as keyof typeof GRENADE_TYPES];
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -600,7 +707,7 @@ function NadeListItem({
   }, [isMenuOpen, onToggleMenu]);
 
   // Show the lineup's own map first, others after
-  const mapsWithTargets = MAPS
+  const mapsWithTargets = maps
     .filter((m) => (addTargetsByMap[m.name]?.length ?? 0) > 0)
     .sort((a, b) => {
       if (a.name === lineup.mapName) return -1;
@@ -626,6 +733,19 @@ function NadeListItem({
         {lineup.playerName && (
           <span className="text-[10px] text-[#6b6b8a] shrink-0 truncate max-w-[56px]">{lineup.playerName}</span>
         )}
+        {score !== undefined && (
+          <span className="text-[10px] font-semibold text-[#f0a500] shrink-0 tabular-nums w-6 text-right" title="Score">
+            {score}
+          </span>
+        )}
+        <Link
+          href={`/dashboard/lineups/${lineup.id}`}
+          onClick={(e) => e.stopPropagation()}
+          className="p-1 rounded transition-all shrink-0 text-[#6b6b8a] hover:text-[#f0a500] opacity-0 group-hover:opacity-100"
+          title="Edit lineup"
+        >
+          <Edit2 className="h-3.5 w-3.5" />
+        </Link>
         <button
           onClick={(e) => { e.stopPropagation(); onToggleMenu(); }}
           className={`p-1 rounded transition-all shrink-0 ${
@@ -691,3 +811,78 @@ function NadeListItem({
     </div>
   );
 }
+
+function ScoreWeightsPanel({
+  weights, initialType, onChange,
+}: {
+  weights: Record<GrenadeType, ScoreWeights>;
+  initialType: GrenadeType;
+  onChange: (weights: Record<GrenadeType, ScoreWeights>) => void;
+}) {
+  const [grenadeType, setGrenadeType] = useState<GrenadeType>(initialType);
+  const current = weights[grenadeType];
+
+  const setWeight = (values: ScoreWeights) => onChange({ ...weights, [grenadeType]: values });
+
+  const handleSave = () => {
+    saveScoreWeights(weights);
+    toast.success('Score weights saved');
+  };
+
+  return (
+    <div className="shrink-0 mb-2 p-3 rounded-xl bg-[#12121a] border border-[#2a2a3e] space-y-2">
+      <div className="flex items-center gap-1">
+        {(Object.keys(GRENADE_TYPES) as GrenadeType[]).map((type) => {
+          const gt = GRENADE_TYPES[type];
+          const isActive = type === grenadeType;
+          return (
+            <button
+              key={type}
+              onClick={() => setGrenadeType(type)}
+              className={`flex-1 px-1.5 py-1 rounded-lg text-[10px] font-medium transition-all ${
+                isActive ? 'border' : 'text-[#6b6b8a] hover:text-[#e8e8e8] border border-transparent'
+              }`}
+              style={isActive ? { backgroundColor: `${gt.color}20`, borderColor: `${gt.color}50`, color: gt.color } : {}}
+            >
+              {gt.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {SCORE_METRICS.map((metric) => (
+        <label key={metric.key} className="flex items-center gap-2 text-xs text-[#9b9bba]">
+          <span className="w-24 shrink-0">{metric.label}</span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_SCORE_WEIGHT}
+            step={1}
+            value={current[metric.key]}
+            onChange={(e) => setWeight({ ...current, [metric.key]: Number(e.target.value) })}
+            className="flex-1 accent-[#f0a500]"
+          />
+          <span className="w-4 text-right tabular-nums text-[#e8e8e8]">{current[metric.key]}</span>
+        </label>
+      ))}
+
+      <div className="flex items-center justify-end gap-1.5 pt-1">
+        <button
+          onClick={() => setWeight({ ...DEFAULT_SCORE_WEIGHTS[grenadeType] })}
+          className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-[#6b6b8a] hover:text-[#e8e8e8] transition-colors"
+          title="Restore default weights for this grenade"
+        >
+          <RotateCcw className="h-3 w-3" />
+          Reset
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium bg-[#f0a500]/15 text-[#f0a500] hover:bg-[#f0a500]/25 transition-colors"
+        >
+          <Save className="h-3 w-3" />
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,516 @@
+'use client';
+
+import { useState, useMemo, useRef } from 'react';
+import Image from 'next/image';
+import { motion } from 'framer-motion';
+import {
+  Ruler,
+  Upload,
+  Loader2,
+  X,
+  Copy,
+  Check,
+  Download,
+  Crosshair,
+  AlertTriangle,
+  Wand2,
+  ImageIcon,
+} from 'lucide-react';
+import { lineupsApi } from '@/lib/api';
+import { GRENADE_TYPES } from '@/lib/constants';
+import type { Lineup } from '@/lib/types';
+import { worldToRadar, radarLayers } from '@/lib/map-coordinates';
+import {
+  MIN_CALIBRATION_POINTS,
+  solveCalibration,
+  suggestZSplit,
+  toMapConfig,
+  formatConfigEntry,
+  type CalibrationPoint,
+} from '@/lib/radar-calibration';
+import { downloadJson } from '@/lib/collection-transfer';
+import { useMapRegistry } from '@/store/map-registry-store';
+import toast from 'react-hot-toast';
+
+type Layer = 'upper' | 'lower';
+
+interface RadarUpload {
+  url: string;
+  // Blob URLs are revoked when replaced; paths to public images are not
+  isBlob: boolean;
+  width: number;
+  height: number;
+}
+
+let pointCounter = 0;
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-[#12121a] border border-[#2a2a3e] text-sm text-[#e8e8e8] placeholder-[#6b6b8a] focus:outline-none focus:border-[#f0a500]/50 transition-all';
+
+export default function CalibrationPage() {
+  const { allMaps, calibration } = useMapRegistry();
+  const [mapName, setMapName] = useState('');
+  const [images, setImages] = useState<Record<Layer, RadarUpload | null>>({ upper: null, lower: null });
+  const [layer, setLayer] = useState<Layer>('upper');
+  const [points, setPoints] = useState<CalibrationPoint[]>([]);
+  const [selectedPointId, setSelectedPointId] = useState<string | null>(null);
+  // Typed world coordinates by point id; a point gets its world position once both parse
+  const [worldInputs, setWorldInputs] = useState<Record<string, { x: string; y: string }>>({});
+  const [zSplit, setZSplit] = useState('');
+  const [previewLineups, setPreviewLineups] = useState<Lineup[] | null>(null);
+  const [loadingLineups, setLoadingLineups] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const fileInputRefs = { upper: useRef<HTMLInputElement>(null), lower: useRef<HTMLInputElement>(null) };
+
+  const trimmedName = mapName.trim();
+  const existing = calibration(trimmedName);
+  const solution = useMemo(() => solveCalibration(points), [points]);
+  const activeImage = images[layer] ?? images.upper;
+  const isLayered = !!images.lower;
+  const splitValue = zSplit.trim() === '' ? undefined : Number(zSplit);
+
+  const config = solution && trimmedName
+    ? toMapConfig(solution, {
+        radarImage: `/maps/radar/${trimmedName}.png`,
+        lowerRadarImage: isLayered ? `/maps/radar/${trimmedName}_lower.png` : undefined,
+        zSplitThreshold: Number.isFinite(splitValue) ? splitValue : undefined,
+        // Levels past the first two are not calibrated here; they carry into the entry unchanged
+        existingLayers: existing ? radarLayers(existing) : undefined,
+      })
+    : null;
+
+  const setImage = (target: Layer, upload: RadarUpload | null) => {
+    setImages((prev) => {
+      if (prev[target]?.isBlob) URL.revokeObjectURL(prev[target]!.url);
+      return { ...prev, [target]: upload };
+    });
+    if (!upload && target === 'lower') setLayer('upper');
+  };
+
+  const loadImage = (target: Layer, url: string, isBlob: boolean) => {
+    const img = new window.Image();
+    img.onload = () => {
+      setImage(target, { url, isBlob, width: img.naturalWidth, height: img.naturalHeight });
+      setLayer(target);
+    };
+    img.onerror = () => {
+      if (isBlob) URL.revokeObjectURL(url);
+      toast.error('Could not read that image');
+    };
+    img.src = url;
+  };
+
+  const handleFile = (target: Layer, file: File | undefined) => {
+    if (!file) return;
+    loadImage(target, URL.createObjectURL(file), true);
+  };
+
+  const loadExistingImages = () => {
+    if (!existing) return;
+    // The page calibrates up to two levels; further layers are copied into the entry as they are
+    const [upper, lower] = radarLayers(existing);
+    loadImage('upper', upper.radarImage, false);
+    if (lower) loadImage('lower', lower.radarImage, false);
+    const split = upper.minZ ?? lower?.maxZ;
+    if (split !== undefined) setZSplit(String(split));
+  };
+
+  const handleRadarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const radar = {
+      x: ((e.clientX - rect.left) / rect.width) * 100,
+      y: ((e.clientY - rect.top) / rect.height) * 100,
+    };
+    const selected = points.find((p) => p.id === selectedPointId);
+    // Clicking with a point selected moves it; otherwise a new point is added
+    if (selected) {
+      setPoints((prev) => prev.map((p) => (p.id === selected.id ? { ...p, radar } : p)));
+      setSelectedPointId(null);
+      return;
+    }
+    const id = `pt-${++pointCounter}`;
+    setPoints((prev) => [...prev, { id, radar, world: null }]);
+  };
+
+  const setWorld = (id: string, axis: 'x' | 'y', raw: string) => {
+    const input = { ...(worldInputs[id] ?? { x: '', y: '' }), [axis]: raw };
+    setWorldInputs((prev) => ({ ...prev, [id]: input }));
+    const x = input.x.trim() === '' ? NaN : Number(input.x);
+    const y = input.y.trim() === '' ? NaN : Number(input.y);
+    const world = Number.isFinite(x) && Number.isFinite(y) ? { x, y } : null;
+    setPoints((prev) => prev.map((p) => (p.id === id ? { ...p, world } : p)));
+  };
+
+  const loadPreviewLineups = async () => {
+    if (!trimmedName) return;
+    setLoadingLineups(true);
+    try {
+      const data = await lineupsApi.getPresets(trimmedName);
+      setPreviewLineups(Array.isArray(data) ? data : []);
+      if (!Array.isArray(data) || data.length === 0) toast('No preset lineups for this map');
+    } catch {
+      toast.error('Failed to load lineups');
+    } finally {
+      setLoadingLineups(false);
+    }
+  };
+
+  const suggestSplit = () => {
+    if (!previewLineups?.length) {
+      toast.error('Load lineups first');
+      return;
+    }
+    const split = suggestZSplit(previewLineups.map((l) => l.throwPosition.z));
+    if (split === null) {
+      toast.error('Not enough height variation to suggest a split');
+      return;
+    }
+    setZSplit(String(split));
+  };
+
+  const previewMarkers = useMemo(() => {
+    if (!solution || !previewLineups) return [];
+    const preview = { posX: solution.posX, posY: solution.posY, scale: solution.scale, radarImage: '' };
+    return previewLineups
+      .filter((l) => {
+        if (!isLayered || splitValue === undefined || !Number.isFinite(splitValue)) return true;
+        return layer === 'lower' ? l.throwPosition.z < splitValue : l.throwPosition.z >= splitValue;
+      })
+      .map((l) => ({ lineup: l, pos: worldToRadar(l.throwPosition.x, l.throwPosition.y, preview) }));
+  }, [solution, previewLineups, isLayered, splitValue, layer]);
+
+  const copyConfig = () => {
+    if (!config) return;
+    navigator.clipboard.writeText(formatConfigEntry(trimmedName, config));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const errorById = new Map(solution?.errors.map((e) => [e.id, e.error]) ?? []);
+  const notSquare = activeImage && activeImage.width !== activeImage.height;
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-xl bg-[#06b6d4]/10 border border-[#06b6d4]/20">
+            <Ruler className="w-6 h-6 text-[#06b6d4]" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient-gold">Radar Calibration</h1>
+          </div>
+        </div>
+        <p className="text-[#6b6b8a] text-lg ml-[52px] mt-2">
+          Work out a map&apos;s radar position and scale from known reference points
+        </p>
+      </div>
+
+      <div className="flex gap-6">
+        {/* Radar */}
+        <div className="flex-1 min-w-0 max-w-[640px]">
+          {isLayered && (
+            <div className="flex gap-1 mb-2">
+              {(['upper', 'lower'] as const).map((l) => (
+                <button
+                  key={l}
+                  onClick={() => setLayer(l)}
+                  className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors capitalize ${
+                    layer === l ? 'bg-[#f0a500]/15 text-[#f0a500]' : 'text-[#6b6b8a] hover:text-[#e8e8e8]'
+                  }`}
+                >
+                  {l}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {activeImage ? (
+            <div
+              onClick={handleRadarClick}
+              className="relative aspect-square w-full overflow-hidden rounded-xl bg-[#0a0a0f] border border-[#2a2a3e] cursor-crosshair"
+            >
+              <Image
+                src={activeImage.url}
+                alt="Radar being calibrated"
+                fill
+                className="object-fill"
+                unoptimized
+                draggable={false}
+              />
+
+              {previewMarkers.map(({ lineup, pos }) => (
+                <div
+                  key={lineup.id}
+                  className="absolute -translate-x-1/2 -translate-y-1/2 w-2 h-2 rounded-full pointer-events-none"
+                  style={{
+                    left: `${pos.x}%`,
+                    top: `${pos.y}%`,
+                    backgroundColor: GRENADE_TYPES[lineup.grenadeType].color,
+                    boxShadow: `0 0 4px ${GRENADE_TYPES[lineup.grenadeType].color}80`,
+                  }}
+                />
+              ))}
+
+              {points.map((point, i) => (
+                <div
+                  key={point.id}
+                  className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+                  style={{ left: `${point.radar.x}%`, top: `${point.radar.y}%` }}
+                >
+                  <Crosshair
+                    className={`h-5 w-5 ${point.id === selectedPointId ? 'text-[#f0a500]' : point.world ? 'text-[#22c55e]' : 'text-white'}`}
+                  />
+                  <span className="absolute left-full top-0 ml-0.5 px-1 rounded bg-black/70 text-[10px] font-bold text-white">
+                    {i + 1}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="aspect-square w-full rounded-xl bg-[#0a0a0f] border border-dashed border-[#2a2a3e] flex items-center justify-center">
+              <div className="text-center">
+                <ImageIcon className="h-10 w-10 text-[#6b6b8a]/50 mx-auto mb-2" />
+                <p className="text-sm text-[#e8e8e8]">Upload a radar image to start</p>
+                <p className="text-xs text-[#6b6b8a] mt-1">Then click places whose in-game position you know</p>
+              </div>
+            </div>
+          )}
+
+          {notSquare && (
+            <p className="flex items-center gap-1.5 text-xs text-[#f59e0b] mt-2">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              This image is {activeImage.width}×{activeImage.height}. Radar images must be square or positions will be off.
+            </p>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="w-96 shrink-0 space-y-4">
+          {/* Map + images */}
+          <div className="glass rounded-xl p-4 space-y-3">
+            <div>
+              <label className="block text-xs font-medium text-[#6b6b8a] mb-1">Map name</label>
+              <input
+                type="text"
+                list="calibration-maps"
+                value={mapName}
+                onChange={(e) => { setMapName(e.target.value); setPreviewLineups(null); }}
+                placeholder="de_newmap"
+                className={inputClass}
+              />
+              <datalist id="calibration-maps">
+                {allMaps.map((m) => (
+                  <option key={m.name} value={m.name}>{m.displayName}</option>
+                ))}
+              </datalist>
+              {existing && (
+                <button
+                  onClick={loadExistingImages}
+                  className="mt-2 text-xs text-[#6b6b8a] hover:text-[#f0a500] transition-colors"
+                >
+                  Use the current radar images for {trimmedName}
+                </button>
+              )}
+            </div>
+
+            {(['upper', 'lower'] as const).map((target) => (
+              <div key={target} className="flex items-center gap-2">
+                <input
+                  ref={fileInputRefs[target]}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => { handleFile(target, e.target.files?.[0]); e.target.value = ''; }}
+                />
+                <button
+                  onClick={() => fileInputRefs[target].current?.click()}
+                  className="flex-1 flex items-center gap-2 px-3 py-2 rounded-lg bg-[#1a1a2e] text-sm text-[#9b9bba] border border-[#2a2a3e] hover:text-[#e8e8e8] hover:border-[#3a3a5e] transition-all"
+                >
+                  <Upload className="h-4 w-4" />
+                  {images[target]
+                    ? `${target === 'upper' ? 'Radar' : 'Lower level'} · ${images[target]!.width}×${images[target]!.height}`
+                    : target === 'upper' ? 'Upload radar image' : 'Upload lower level (optional)'}
+                </button>
+                {images[target] && (
+                  <button
+                    onClick={() => setImage(target, null)}
+                    className="p-2 rounded-lg text-[#6b6b8a] hover:text-[#ff4444] transition-colors"
+                    title="Remove image"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Reference points */}
+          <div className="glass rounded-xl p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-semibold text-[#e8e8e8]">
+                Reference points <span className="text-[#6b6b8a] font-normal">({points.length})</span>
+              </h2>
+              {points.length > 0 && (
+                <button
+                  onClick={() => { setPoints([]); setSelectedPointId(null); }}
+                  className="text-xs text-[#6b6b8a] hover:text-[#ff4444] transition-colors"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {points.length === 0 && (
+              <p className="text-sm text-[#6b6b8a]">
+                Click at least {MIN_CALIBRATION_POINTS} spread-out spots on the radar, then enter their world X and Y
+                (for example from <span className="font-mono">getpos</span> in game).
+              </p>
+            )}
+            <div className="space-y-1.5">
+              {points.map((point, i) => {
+                const error = errorById.get(point.id);
+                return (
+                  <div
+                    key={point.id}
+                    className={`flex items-center gap-2 px-2 py-1.5 rounded-lg transition-colors ${
+                      point.id === selectedPointId ? 'bg-[#f0a500]/10 ring-1 ring-[#f0a500]/30' : 'bg-[#12121a]'
+                    }`}
+                  >
+                    <button
+                      onClick={() => setSelectedPointId(point.id === selectedPointId ? null : point.id)}
+                      className="text-xs font-bold text-[#e8e8e8] w-5 shrink-0 hover:text-[#f0a500]"
+                      title="Select, then click the radar to move this point"
+                    >
+                      {i + 1}
+                    </button>
+                    <input
+                      type="number"
+                      value={worldInputs[point.id]?.x ?? ''}
+                      onChange={(e) => setWorld(point.id, 'x', e.target.value)}
+                      placeholder="World X"
+                      className="w-0 flex-1 px-2 py-1 rounded bg-[#0a0a0f] border border-[#2a2a3e] text-xs text-[#e8e8e8] tabular-nums focus:outline-none focus:border-[#f0a500]/50"
+                    />
+                    <input
+                      type="number"
+                      value={worldInputs[point.id]?.y ?? ''}
+                      onChange={(e) => setWorld(point.id, 'y', e.target.value)}
+                      placeholder="World Y"
+                      className="w-0 flex-1 px-2 py-1 rounded bg-[#0a0a0f] border border-[#2a2a3e] text-xs text-[#e8e8e8] tabular-nums focus:outline-none focus:border-[#f0a500]/50"
+                    />
+                    <span
+                      className={`w-12 text-right text-[10px] tabular-nums shrink-0 ${
+                        error === undefined ? 'text-[#6b6b8a]' : error > 64 ? 'text-[#ff4444]' : 'text-[#22c55e]'
+                      }`}
+                      title="Distance between the entered and solved position"
+                    >
+                      {error === undefined ? '—' : `±${Math.round(error)}u`}
+                    </span>
+                    <button
+                      onClick={() => setPoints((prev) => prev.filter((p) => p.id !== point.id))}
+                      className="p-0.5 text-[#6b6b8a] hover:text-[#ff4444] transition-colors shrink-0"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Result */}
+          <div className="glass rounded-xl p-4 space-y-3">
+            <h2 className="text-sm font-semibold text-[#e8e8e8]">Result</h2>
+            {!solution ? (
+              <p className="text-sm text-[#6b6b8a]">
+                Needs {MIN_CALIBRATION_POINTS} points with world positions that are not all in one spot.
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  {([
+                    ['posX', Math.round(solution.posX), existing?.posX],
+                    ['posY', Math.round(solution.posY), existing?.posY],
+                    ['scale', solution.scale.toFixed(3), existing?.scale],
+                  ] as const).map(([label, value, current]) => (
+                    <div key={label} className="rounded-lg bg-[#12121a] px-2 py-2">
+                      <p className="text-[10px] text-[#6b6b8a] uppercase tracking-wider">{label}</p>
+                      <p className="text-sm font-mono text-[#e8e8e8]">{value}</p>
+                      {current !== undefined && (
+                        <p className="text-[10px] text-[#6b6b8a] font-mono">now {current}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className={`text-xs ${solution.rmsError > 64 ? 'text-[#f59e0b]' : 'text-[#6b6b8a]'}`}>
+                  RMS error {solution.rmsError.toFixed(1)} units
+                  {solution.rmsError > 64 && ' · check for a mistyped or misplaced point'}
+                </p>
+              </>
+            )}
+
+            {isLayered && (
+              <div>
+                <label className="block text-xs font-medium text-[#6b6b8a] mb-1">Z split (lower level below)</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    value={zSplit}
+                    onChange={(e) => setZSplit(e.target.value)}
+                    placeholder="e.g. -495"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={suggestSplit}
+                    className="flex items-center gap-1 px-3 rounded-lg bg-[#1a1a2e] text-xs text-[#6b6b8a] border border-[#2a2a3e] hover:text-[#f0a500] transition-colors"
+                    title="Suggest from the loaded lineups' throw heights"
+                  >
+                    <Wand2 className="h-3.5 w-3.5" />
+                    Suggest
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <button
+              onClick={previewLineups ? () => setPreviewLineups(null) : loadPreviewLineups}
+              disabled={!trimmedName || loadingLineups}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-[#1a1a2e] text-sm text-[#9b9bba] border border-[#2a2a3e] hover:text-[#e8e8e8] transition-all disabled:opacity-50"
+            >
+              {loadingLineups && <Loader2 className="h-4 w-4 animate-spin" />}
+              {previewLineups ? `Hide ${previewLineups.length} preset lineups` : 'Preview preset lineups'}
+            </button>
+
+            <div className="flex gap-2">
+              <button
+                onClick={copyConfig}
+                disabled={!config}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-gradient-to-r from-[#f0a500] to-[#d4920a] text-[#0a0a0f] text-sm font-semibold hover:shadow-lg hover:shadow-[#f0a500]/20 transition-all disabled:opacity-50"
+              >
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                Copy config
+              </button>
+              <button
+                onClick={() => config && downloadJson({ mapName: trimmedName, ...config }, `${trimmedName}-calibration.json`)}
+                disabled={!config}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-[#1a1a2e] text-sm text-[#9b9bba] border border-[#2a2a3e] hover:text-[#e8e8e8] transition-all disabled:opacity-50"
+                title="Download as JSON"
+              >
+                <Download className="h-4 w-4" />
+              </button>
+            </div>
+            {config && isLayered && existing && radarLayers(existing).length > 2 && (
+              <p className="text-[11px] text-[#6b6b8a] mb-2">
+                Layers after the second are copied from the current calibration unchanged.
+              </p>
+            )}
+            {config && (
+              <pre className="text-[11px] font-mono text-[#9b9bba] bg-[#0a0a0f] rounded-lg p-3 overflow-x-auto">
+                {formatConfigEntry(trimmedName, config)}
+              </pre>
+            )}
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
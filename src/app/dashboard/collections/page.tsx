@@ -1,6 +1,7 @@
 'use client';
 
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   FolderOpen,
@@ -15,12 +16,31 @@ import {
   Target,
   Download,
   EyeOff,
+  Upload,
+  FileJson,
+  AlertTriangle,
+  CheckCircle2,
+  FolderPlus,
+  FolderMinus,
+  RefreshCw,
 } from 'lucide-react';
-import { collectionsApi, hiddenLineupsApi } from '@/lib/api';
+import { collectionsApi, hiddenLineupsApi, lineupsApi, zonesApi, apiErrorMessage } from '@/lib/api';
 import { useAuthStore } from '@/store/auth-store';
-import { MAPS, MAP_COLORS, GRENADE_TYPES } from '@/lib/constants';
-import type { LineupCollection, Lineup } from '@/lib/types';
+import { GRENADE_TYPES } from '@/lib/constants';
+import type { LineupCollection, Lineup, MapZone } from '@/lib/types';
+import { applyLineupRenames, type LineupRename } from '@/lib/zone-naming';
+import {
+  parseCollectionFile,
+  importLineupIntoCollection,
+  exportCollection,
+  exportMapCollections,
+  exportFileName,
+  downloadJson,
+  type ParsedCollectionFile,
+} from '@/lib/collection-transfer';
 import MapRadar from '@/components/ui/MapRadar';
+import ZoneRenamePreview from '@/components/ui/ZoneRenamePreview';
+import { useMapRegistry, useSelectedMap } from '@/store/map-registry-store';
 import toast from 'react-hot-toast';
 
 interface CollectionFormData {
@@ -31,6 +51,8 @@ interface CollectionFormData {
   sortOrder: number;
 }
 
+type BulkLineupAction = 'add' | 'remove' | 'hide' | 'delete';
+
 const initialFormData: CollectionFormData = {
   name: '',
   description: '',
@@ -40,6 +62,7 @@ const initialFormData: CollectionFormData = {
 };
 
 export default function CollectionsPage() {
+  const { maps, color } = useMapRegistry();
   const [collections, setCollections] = useState<LineupCollection[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchText, setSearchText] = useState('');
@@ -57,6 +80,17 @@ export default function CollectionsPage() {
   const [selectedLineupId, setSelectedLineupId] = useState<string | null>(null);
   const [hideModalLineup, setHideModalLineup] = useState<Lineup | null>(null);
   const [hideReason, setHideReason] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  // Anchor for shift-click range selection
+  const [lastCheckedId, setLastCheckedId] = useState<string | null>(null);
+  const [bulkAction, setBulkAction] = useState<BulkLineupAction | null>(null);
+  // Collection whose lineups are being renamed from map zones; data is null until loaded
+  const [renameTarget, setRenameTarget] = useState<{
+    collection: LineupCollection;
+    lineups: Lineup[] | null;
+    zones: MapZone[] | null;
+  } | null>(null);
   const lineupListRef = useRef<HTMLDivElement>(null);
   const { user } = useAuthStore();
 
@@ -155,26 +189,9 @@ export default function CollectionsPage() {
   const handleExportJson = async (collection: LineupCollection) => {
     setDownloadingId(collection.id);
     try {
-      const data = await collectionsApi.getById(collection.id);
-      const exportData = {
-        collection: {
-          id: data.collection.id,
-          name: data.collection.name,
-          description: data.collection.description,
-          mapName: data.collection.mapName,
-        },
-        lineups: data.lineups.map(({ movementPath, ...lineup }) => lineup),
-      };
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${collection.name.replace(/[^a-zA-Z0-9-_ ]/g, '').replace(/\s+/g, '-').toLowerCase()}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      toast.success(`Exported ${data.lineups.length} lineups`);
+      const file = await exportCollection(collection.id);
+      downloadJson(file, exportFileName(collection.name));
+      toast.success(`Exported ${file.collections[0].lineups.length} lineups`);
     } catch {
       toast.error('Failed to export collection');
     } finally {
@@ -182,7 +199,55 @@ export default function CollectionsPage() {
     }
   };
 
+  const openRenamePreview = async (collection: LineupCollection) => {
+    setRenameTarget({ collection, lineups: null, zones: null });
+    try {
+      const [data, zones] = await Promise.all([
+        collectionsApi.getById(collection.id),
+        zonesApi.getAll(collection.mapName),
+      ]);
+      setRenameTarget((prev) =>
+        prev?.collection.id === collection.id ? { collection, lineups: data.lineups, zones } : prev,
+      );
+    } catch {
+      toast.error('Failed to load lineups and zones');
+      setRenameTarget(null);
+    }
+  };
+
+  const handleRenameCollection = async (collection: LineupCollection, renames: LineupRename[]) => {
+    const failed = await applyLineupRenames(renames);
+    if (failed === renames.length) {
+      toast.error('Failed to rename lineups');
+      throw new Error('Failed to rename lineups');
+    }
+    if (failed > 0) toast.error(`Renamed ${renames.length - failed} of ${renames.length} lineups`);
+    else toast.success(`Renamed ${renames.length} lineup${renames.length !== 1 ? 's' : ''}`);
+    if (expandedId === collection.id) {
+      collectionsApi
+        .getById(collection.id)
+        .then((data) => setExpandedLineups(data.lineups))
+        .catch(() => toast.error('Failed to reload lineups'));
+    }
+  };
+
+  const handleExportMap = async (mapName: string, displayName: string) => {
+    setDownloadingId(mapName);
+    try {
+      const file = await exportMapCollections(mapName);
+      downloadJson(file, exportFileName(`${displayName} collections`));
+      const lineupCount = file.collections.reduce((sum, c) => sum + c.lineups.length, 0);
+      toast.success(`Exported ${file.collections.length} collections (${lineupCount} lineups)`);
+    } catch {
+      toast.error('Failed to export map collections');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
   const toggleExpand = async (collectionId: string) => {
+    setCheckedIds(new Set());
+    setLastCheckedId(null);
     if (expandedId === collectionId) {
       setExpandedId(null);
       setExpandedLineups([]);
@@ -236,6 +301,42 @@ export default function CollectionsPage() {
     }
   };
 
+  const toggleChecked = (lineupId: string, shiftKey: boolean) => {
+    const next = new Set(checkedIds);
+    const anchor = shiftKey && lastCheckedId ? expandedLineups.findIndex((l) => l.id === lastCheckedId) : -1;
+    if (anchor >= 0) {
+      // Shift-click applies the anchor's state to the whole range
+      const index = expandedLineups.findIndex((l) => l.id === lineupId);
+      const checked = checkedIds.has(lastCheckedId!);
+      for (const lineup of expandedLineups.slice(Math.min(anchor, index), Math.max(anchor, index) + 1)) {
+        if (checked) next.add(lineup.id);
+        else next.delete(lineup.id);
+      }
+    } else if (next.has(lineupId)) {
+      next.delete(lineupId);
+    } else {
+      next.add(lineupId);
+    }
+    setCheckedIds(next);
+    setLastCheckedId(lineupId);
+  };
+
+  const handleBulkDone = (action: BulkLineupAction, succeededIds: string[], targetId?: string) => {
+    const done = new Set(succeededIds);
+    if (action === 'add') {
+      setCollections((prev) =>
+        prev.map((c) => (c.id === targetId ? { ...c, lineupCount: c.lineupCount + done.size } : c)),
+      );
+      return;
+    }
+    setExpandedLineups((prev) => prev.filter((l) => !done.has(l.id)));
+    setCollections((prev) =>
+      prev.map((c) => (c.id === expandedId ? { ...c, lineupCount: c.lineupCount - done.size } : c)),
+    );
+    setCheckedIds((prev) => new Set([...prev].filter((id) => !done.has(id))));
+    if (selectedLineupId && done.has(selectedLineupId)) setSelectedLineupId(null);
+  };
+
   const filteredCollections = collections.filter((collection) => {
     if (filterMap !== 'all' && collection.mapName !== filterMap) return false;
     if (searchText.trim()) {
@@ -248,6 +349,8 @@ export default function CollectionsPage() {
     return true;
   });
 
+  const expandedCollection = collections.find((c) => c.id === expandedId);
+
   // Group by map
   const groupedByMap = filteredCollections.reduce((acc, c) => {
     if (!acc[c.mapName]) acc[c.mapName] = [];
@@ -279,10 +382,18 @@ export default function CollectionsPage() {
               <h1 className="text-3xl font-bold text-gradient-gold">Collections</h1>
             </div>
           </div>
-          <button onClick={openCreateModal} className="btn-primary">
-            <Plus className="h-4 w-4" />
-            New Collection
-          </button>
+          <div className="flex items-center gap-3">
+            {user?.role === 'admin' && (
+              <button onClick={() => setShowImport(true)} className="btn-secondary">
+                <Upload className="h-4 w-4" />
+                Import
+              </button>
+            )}
+            <button onClick={openCreateModal} className="btn-primary">
+              <Plus className="h-4 w-4" />
+              New Collection
+            </button>
+          </div>
         </div>
         <p className="text-[#6b6b8a] text-lg ml-[52px] mt-2">
           Manage lineup collections
@@ -299,7 +410,7 @@ export default function CollectionsPage() {
             className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-2 pr-10"
           >
             <option value="all">All Maps</option>
-            {MAPS.map((m) => (
+            {maps.map((m) => (
               <option key={m.name} value={m.name}>
                 {m.displayName}
               </option>
@@ -348,11 +459,11 @@ export default function CollectionsPage() {
         </motion.div>
       ) : (
         <div className="space-y-8">
-          {MAPS.map((map) => {
+          {maps.map((map) => {
             const mapCollections = groupedByMap[map.name];
             if (!mapCollections) return null;
 
-            const mapColor = MAP_COLORS[map.name] || '#f0a500';
+            const mapColor = color(map.name);
 
             return (
               <motion.div
@@ -372,6 +483,21 @@ export default function CollectionsPage() {
                   <span className="text-sm text-[#6b6b8a]">
                     {mapCollections.length} collection{mapCollections.length !== 1 ? 's' : ''}
                   </span>
+                  {user?.role === 'admin' && (
+                    <button
+                      onClick={() => handleExportMap(map.name, map.displayName)}
+                      disabled={downloadingId === map.name}
+                      className="ml-auto flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-[#6b6b8a] hover:text-[#22c55e] border border-[#2a2a3e] hover:border-[#22c55e]/30 transition-all disabled:opacity-50"
+                      title={`Export all ${map.displayName} collections`}
+                    >
+                      {downloadingId === map.name ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <Download className="h-3.5 w-3.5" />
+                      )}
+                      Export map
+                    </button>
+                  )}
                 </div>
 
                 {/* Collection Cards */}
@@ -436,6 +562,15 @@ export default function CollectionsPage() {
                                 )}
                               </button>
                             )}
+                            {user?.role === 'admin' && (
+                              <button
+                                onClick={() => openRenamePreview(collection)}
+                                className="p-2 rounded-lg bg-[#1a1a2e] text-[#6b6b8a] hover:text-[#f0a500] hover:border-[#f0a500]/30 border border-[#2a2a3e] transition-all"
+                                title="Rename lineups from map zones"
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                              </button>
+                            )}
                             <button
                               onClick={() => openEditModal(collection)}
                               className="p-2 rounded-lg bg-[#1a1a2e] text-[#6b6b8a] hover:text-[#f0a500] hover:border-[#f0a500]/30 border border-[#2a2a3e] transition-all"
@@ -485,59 +620,140 @@ export default function CollectionsPage() {
                                       lineups={expandedLineups}
                                       selectedLineupId={selectedLineupId}
                                       onLineupClick={(l) => selectLineup(l.id === selectedLineupId ? null : l.id)}
+                                      checkedLineupIds={checkedIds}
+                                      onLassoSelect={(ids, additive) =>
+                                        setCheckedIds(additive ? new Set([...checkedIds, ...ids]) : new Set(ids))
+                                      }
                                     />
                                   </div>
                                   {/* Lineup List */}
-                                  <div ref={lineupListRef} className="flex-1 space-y-1 max-h-[480px] overflow-y-auto">
-                                    {expandedLineups.map((lineup) => {
-                                      const gt = GRENADE_TYPES[lineup.grenadeType];
-                                      const isSelected = lineup.id === selectedLineupId;
-                                      return (
-                                        <div
-                                          key={lineup.id}
-                                          data-lineup-id={lineup.id}
-                                          className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-colors group cursor-pointer ${
-                                            isSelected ? 'bg-[#1a1a2e] ring-1 ring-[#f0a500]/30' : 'hover:bg-[#1a1a2e]'
-                                          }`}
-                                          onClick={() => selectLineup(isSelected ? null : lineup.id)}
-                                        >
-                                          <span
-                                            className="text-[10px] font-bold px-2 py-0.5 rounded-full uppercase shrink-0"
-                                            style={{
-                                              backgroundColor: `${gt.color}15`,
-                                              color: gt.color,
-                                            }}
+                                  <div className="flex-1 min-w-0">
+                                    {/* Bulk actions */}
+                                    <div className="flex items-center gap-2 px-3 pb-2 mb-1 border-b border-[#2a2a3e]/50">
+                                      <input
+                                        type="checkbox"
+                                        checked={checkedIds.size > 0 && checkedIds.size === expandedLineups.length}
+                                        ref={(el) => {
+                                          if (el) el.indeterminate = checkedIds.size > 0 && checkedIds.size < expandedLineups.length;
+                                        }}
+                                        onChange={() =>
+                                          setCheckedIds(
+                                            checkedIds.size === expandedLineups.length
+                                              ? new Set()
+                                              : new Set(expandedLineups.map((l) => l.id)),
+                                          )
+                                        }
+                                        className="accent-[#f0a500] cursor-pointer"
+                                        title="Select all"
+                                      />
+                                      <span className="text-xs text-[#6b6b8a]">
+                                        {checkedIds.size > 0
+                                          ? `${checkedIds.size} selected`
+                                          : 'Select lineups (shift-click for a range, or lasso on the radar)'}
+                                      </span>
+                                      {checkedIds.size > 0 && (
+                                        <div className="flex items-center gap-1 ml-auto">
+                                          <button
+                                            onClick={() => setBulkAction('add')}
+                                            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-[#6b6b8a] hover:text-[#22c55e] border border-[#2a2a3e] hover:border-[#22c55e]/30 transition-all"
                                           >
-                                            {gt.label}
-                                          </span>
-                                          <span className="text-sm text-[#e8e8e8] truncate flex-1">
-                                            {lineup.name}
-                                          </span>
-                                          {lineup.playerName && (
-                                            <span className="text-xs text-[#6b6b8a] shrink-0">
-                                              {lineup.playerName}
-                                            </span>
-                                          )}
-                                          <span className="text-xs text-[#6b6b8a] shrink-0">
-                                            {lineup.throwType}
-                                          </span>
+                                            <FolderPlus className="h-3.5 w-3.5" />
+                                            Add to…
+                                          </button>
+                                          <button
+                                            onClick={() => setBulkAction('remove')}
+                                            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-[#6b6b8a] hover:text-[#f0a500] border border-[#2a2a3e] hover:border-[#f0a500]/30 transition-all"
+                                          >
+                                            <FolderMinus className="h-3.5 w-3.5" />
+                                            Remove
+                                          </button>
                                           {user?.role === 'admin' && (
-                                            <button
-                                              onClick={(e) => { e.stopPropagation(); openHideModal(lineup); }}
-                                              disabled={hidingLineupId === lineup.id}
-                                              className="p-1.5 rounded-lg text-[#6b6b8a] hover:text-[#ff4444] hover:bg-[#ff4444]/10 transition-all opacity-0 group-hover:opacity-100 disabled:opacity-50 shrink-0"
-                                              title="Hide from all pro collections"
-                                            >
-                                              {hidingLineupId === lineup.id ? (
-                                                <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                                              ) : (
+                                            <>
+                                              <button
+                                                onClick={() => setBulkAction('hide')}
+                                                className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-[#6b6b8a] hover:text-[#ff4444] border border-[#2a2a3e] hover:border-[#ff4444]/30 transition-all"
+                                              >
                                                 <EyeOff className="h-3.5 w-3.5" />
-                                              )}
-                                            </button>
+                                                Hide
+                                              </button>
+                                              <button
+                                                onClick={() => setBulkAction('delete')}
+                                                className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-[#6b6b8a] hover:text-[#ff4444] border border-[#2a2a3e] hover:border-[#ff4444]/30 transition-all"
+                                              >
+                                                <Trash2 className="h-3.5 w-3.5" />
+                                                Delete
+                                              </button>
+                                            </>
                                           )}
                                         </div>
-                                      );
-                                    })}
+                                      )}
+                                    </div>
+                                    <div ref={lineupListRef} className="space-y-1 max-h-[480px] overflow-y-auto">
+                                      {expandedLineups.map((lineup) => {
+                                        const gt = GRENADE_TYPES[lineup.grenadeType];
+                                        const isSelected = lineup.id === selectedLineupId;
+                                        return (
+                                          <div
+                                            key={lineup.id}
+                                            data-lineup-id={lineup.id}
+                                            className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-colors group cursor-pointer ${
+                                              isSelected ? 'bg-[#1a1a2e] ring-1 ring-[#f0a500]/30' : 'hover:bg-[#1a1a2e]'
+                                            }`}
+                                            onClick={() => selectLineup(isSelected ? null : lineup.id)}
+                                          >
+                                            <input
+                                              type="checkbox"
+                                              checked={checkedIds.has(lineup.id)}
+                                              onChange={(e) => toggleChecked(lineup.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                                              onClick={(e) => e.stopPropagation()}
+                                              className="accent-[#f0a500] cursor-pointer shrink-0"
+                                            />
+                                            <span
+                                              className="text-[10px] font-bold px-2 py-0.5 rounded-full uppercase shrink-0"
+                                              style={{
+                                                backgroundColor: `${gt.color}15`,
+                                                color: gt.color,
+                                              }}
+                                            >
+                                              {gt.label}
+                                            </span>
+                                            <span className="text-sm text-[#e8e8e8] truncate flex-1">
+                                              {lineup.name}
+                                            </span>
+                                            {lineup.playerName && (
+                                              <span className="text-xs text-[#6b6b8a] shrink-0">
+                                                {lineup.playerName}
+                                              </span>
+                                            )}
+                                            <span className="text-xs text-[#6b6b8a] shrink-0">
+                                              {lineup.throwType}
+                                            </span>
+                                            <Link
+                                              href={`/dashboard/lineups/${lineup.id}`}
+                                              onClick={(e) => e.stopPropagation()}
+                                              className="p-1.5 rounded-lg text-[#6b6b8a] hover:text-[#f0a500] hover:bg-[#f0a500]/10 transition-all opacity-0 group-hover:opacity-100 shrink-0"
+                                              title="Edit lineup"
+                                            >
+                                              <Edit2 className="h-3.5 w-3.5" />
+                                            </Link>
+                                            {user?.role === 'admin' && (
+                                              <button
+                                                onClick={(e) => { e.stopPropagation(); openHideModal(lineup); }}
+                                                disabled={hidingLineupId === lineup.id}
+                                                className="p-1.5 rounded-lg text-[#6b6b8a] hover:text-[#ff4444] hover:bg-[#ff4444]/10 transition-all opacity-0 group-hover:opacity-100 disabled:opacity-50 shrink-0"
+                                                title="Hide from all pro collections"
+                                              >
+                                                {hidingLineupId === lineup.id ? (
+                                                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                                ) : (
+                                                  <EyeOff className="h-3.5 w-3.5" />
+                                                )}
+                                              </button>
+                                            )}
+                                          </div>
+                                        );
+                                      })}
+                                    </div>
                                   </div>
                                 </div>
                               )}
@@ -612,7 +828,7 @@ export default function CollectionsPage() {
                       onChange={(e) => setFormData({ ...formData, mapName: e.target.value })}
                       className="w-full appearance-none cursor-pointer pr-10"
                     >
-                      {MAPS.map((m) => (
+                      {maps.map((m) => (
                         <option key={m.name} value={m.name}>
                           {m.displayName}
                         </option>
@@ -758,6 +974,613 @@ export default function CollectionsPage() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Bulk Lineup Action Modal */}
+      <AnimatePresence>
+        {bulkAction && expandedCollection && (
+          <BulkLineupModal
+            action={bulkAction}
+            lineups={expandedLineups.filter((l) => checkedIds.has(l.id))}
+            collection={expandedCollection}
+            targets={collections.filter((c) => c.id !== expandedCollection.id && c.mapName === expandedCollection.mapName)}
+            onClose={() => setBulkAction(null)}
+            onDone={handleBulkDone}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Zone Rename Preview */}
+      <AnimatePresence>
+        {renameTarget && (
+          <ZoneRenamePreview
+            title={`Rename lineups in ${renameTarget.collection.name}`}
+            lineups={renameTarget.lineups}
+            zones={renameTarget.zones}
+            onApply={(renames) => handleRenameCollection(renameTarget.collection, renames)}
+            onClose={() => setRenameTarget(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Import Modal */}
+      <AnimatePresence>
+        {showImport && (
+          <ImportCollectionModal
+            onClose={() => setShowImport(false)}
+            onImported={loadCollections}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function ImportCollectionModal({
+  onClose, onImported,
+}: {
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const { maps, displayName } = useMapRegistry();
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedCollectionFile | null>(null);
+  const [collectionIndex, setCollectionIndex] = useState(0);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [targetMap, setTargetMap] = useSelectedMap();
+  const [isDefault, setIsDefault] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failures, setFailures] = useState<{ name: string; error: string }[] | null>(null);
+
+  const current = parsed?.collections[collectionIndex] ?? null;
+  const validLineups = useMemo(() => current?.lineups.filter((l) => l.data) ?? [], [current]);
+  const invalidLineups = useMemo(() => current?.lineups.filter((l) => !l.data) ?? [], [current]);
+
+  const previewLineups = useMemo(
+    () =>
+      validLineups.map((l) => ({
+        id: String(l.index),
+        name: l.name,
+        grenadeType: l.data!.grenadeType,
+        throwPosition: l.data!.throwPosition,
+        landingPosition: l.data!.landingPosition,
+        releasePosition: l.data!.releasePosition,
+        movementPath: l.data!.movementPath,
+      })),
+    [validLineups],
+  );
+
+  const selectCollection = (file: ParsedCollectionFile, index: number) => {
+    const { collection } = file.collections[index];
+    setCollectionIndex(index);
+    setSelectedIndex(null);
+    setName(collection.name);
+    setDescription(collection.description ?? '');
+    setTargetMap(collection.mapName);
+    setIsDefault(collection.isDefault);
+  };
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setParsed(null);
+    setParseError(null);
+    setFailures(null);
+    try {
+      const result = await parseCollectionFile(JSON.parse(await file.text()));
+      if (result.collections.length === 0) throw new Error('File contains no collections');
+      setParsed(result);
+      selectCollection(result, 0);
+    } catch (err) {
+      setParseError(err instanceof SyntaxError ? 'File is not valid JSON' : (err as Error).message);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!current || validLineups.length === 0) return;
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    setImporting(true);
+    setProgress({ done: 0, total: validLineups.length });
+    const failed: { name: string; error: string }[] = [];
+    try {
+      const collection = await collectionsApi.create({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        mapName: targetMap,
+        isDefault,
+        sortOrder: current.collection.sortOrder,
+      });
+      if (current.collection.difficulty) {
+        // The collection already exists, so a failure here is reported with the lineup errors
+        try {
+          await collectionsApi.update(collection.id, { difficulty: current.collection.difficulty });
+        } catch (err: unknown) {
+          failed.push({ name: 'Difficulty', error: apiErrorMessage(err, 'Collection created but difficulty not saved') });
+        }
+      }
+      let failedLineups = 0;
+      for (const lineup of validLineups) {
+        const error = await importLineupIntoCollection(collection.id, { ...lineup.data!, mapName: targetMap });
+        if (error) {
+          failed.push({ name: lineup.name, error });
+          failedLineups++;
+        }
+        setProgress((p) => ({ ...p, done: p.done + 1 }));
+      }
+      setFailures(failed);
+      const imported = validLineups.length - failedLineups;
+      if (failed.length === 0) {
+        toast.success(`Imported ${imported} lineups into ${collection.name}`);
+      } else if (failedLineups === 0) {
+        toast.error(`Imported ${imported} lineups into ${collection.name}, but its difficulty was not saved`);
+      } else {
+        toast.error(`Imported ${imported} of ${validLineups.length} lineups`);
+      }
+      onImported();
+    } catch {
+      toast.error('Failed to create collection');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const mapMismatch = current && current.collection.mapName !== targetMap;
+  const finished = failures !== null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={() => !importing && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="glass rounded-2xl p-6 w-full max-w-5xl mx-4 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-2 rounded-lg bg-[#f0a500]/10">
+            <Upload className="w-5 h-5 text-[#f0a500]" />
+          </div>
+          <h2 className="text-xl font-bold text-[#e8e8e8]">Import Collection</h2>
+          <button onClick={onClose} disabled={importing} className="ml-auto text-[#6b6b8a] hover:text-[#e8e8e8]">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* File picker */}
+        <label className="flex items-center gap-3 px-4 py-3 rounded-xl border border-dashed border-[#2a2a3e] hover:border-[#f0a500]/40 cursor-pointer transition-colors mb-4">
+          <FileJson className="h-5 w-5 text-[#6b6b8a]" />
+          <span className="text-sm text-[#e8e8e8]">{fileName || 'Choose an exported collection .json file'}</span>
+          {parsed && (
+            <span className="ml-auto flex items-center gap-2 text-xs text-[#6b6b8a]">
+              {parsed.schemaVersion === null ? 'legacy export' : `schema v${parsed.schemaVersion}`}
+              {parsed.checksum === 'valid' && (
+                <span className="flex items-center gap-1 text-[#22c55e]">
+                  <CheckCircle2 className="h-3.5 w-3.5" />
+                  checksum ok
+                </span>
+              )}
+              {parsed.checksum === 'mismatch' && (
+                <span className="flex items-center gap-1 text-[#f59e0b]" title="The file was changed after export">
+                  <AlertTriangle className="h-3.5 w-3.5" />
+                  checksum mismatch
+                </span>
+              )}
+            </span>
+          )}
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            disabled={importing}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {parseError && (
+          <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-[#ff4444]/10 border border-[#ff4444]/30 text-sm text-[#ff4444] mb-4">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {parseError}
+          </div>
+        )}
+
+        {parsed && parsed.collections.length > 1 && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-[#6b6b8a] mb-2">
+              Collection to import ({parsed.collections.length} in this {parsed.kind} export)
+            </label>
+            <div className="relative">
+              <select
+                value={collectionIndex}
+                onChange={(e) => selectCollection(parsed, Number(e.target.value))}
+                disabled={importing || failures !== null}
+                className="w-full appearance-none cursor-pointer pr-10"
+              >
+                {parsed.collections.map((c, i) => (
+                  <option key={i} value={i}>
+                    {c.collection.name} ({c.lineups.length} lineups)
+                  </option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+            </div>
+          </div>
+        )}
+
+        {parsed && current && (
+          <div className="flex gap-6">
+            {/* Preview radar */}
+            <div className="w-[380px] shrink-0 space-y-2">
+              <MapRadar
+                mapName={targetMap}
+                lineups={previewLineups}
+                selectedLineupId={selectedIndex !== null ? String(selectedIndex) : null}
+                onLineupClick={(l) => setSelectedIndex(Number(l.id) === selectedIndex ? null : Number(l.id))}
+              />
+              {mapMismatch && (
+                <p className="flex items-center gap-1.5 text-xs text-[#f59e0b]">
+                  <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                  File was exported from {displayName(current.collection.mapName)}; positions may not match.
+                </p>
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0 space-y-4">
+              {/* Collection fields */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-[#6b6b8a] mb-2">Name</label>
+                  <input type="text" value={name} onChange={(e) => setName(e.target.value)} className="w-full" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-[#6b6b8a] mb-2">Target Map</label>
+                  <div className="relative">
+                    <select
+                      value={targetMap}
+                      onChange={(e) => setTargetMap(e.target.value)}
+                      className="w-full appearance-none cursor-pointer pr-10"
+                    >
+                      {maps.map((m) => (
+                        <option key={m.name} value={m.name}>{m.displayName}</option>
+                      ))}
+                    </select>
+                    <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+                  </div>
+                </div>
+              </div>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full resize-none"
+                rows={2}
+                placeholder="Optional description..."
+              />
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isDefault}
+                  onChange={(e) => setIsDefault(e.target.checked)}
+                  className="w-5 h-5 rounded border-[#2a2a3e] bg-[#12121a] text-[#f0a500] focus:ring-[#f0a500]/30"
+                />
+                <span className="text-sm text-[#e8e8e8]">Default collection</span>
+              </label>
+
+              {/* Lineup validation list */}
+              <div>
+                <div className="flex items-center gap-3 text-xs mb-2">
+                  <span className="text-[#22c55e]">{validLineups.length} valid</span>
+                  {invalidLineups.length > 0 && (
+                    <span className="text-[#ff4444]">{invalidLineups.length} invalid (skipped)</span>
+                  )}
+                </div>
+                <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+                  {current.lineups.map((l) => {
+                    const gt = l.data ? GRENADE_TYPES[l.data.grenadeType] : null;
+                    const isSelected = l.index === selectedIndex;
+                    return (
+                      <div
+                        key={l.index}
+                        onClick={() => l.data && setSelectedIndex(isSelected ? null : l.index)}
+                        className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                          l.data ? 'cursor-pointer hover:bg-[#1a1a2e]' : 'bg-[#ff4444]/5'
+                        } ${isSelected ? 'bg-[#1a1a2e] ring-1 ring-[#f0a500]/30' : ''}`}
+                      >
+                        <div className="flex items-center gap-2">
+                          {gt ? (
+                            <span
+                              className="text-[10px] font-bold px-2 py-0.5 rounded-full uppercase shrink-0"
+                              style={{ backgroundColor: `${gt.color}15`, color: gt.color }}
+                            >
+                              {gt.label}
+                            </span>
+                          ) : (
+                            <AlertTriangle className="h-3.5 w-3.5 text-[#ff4444] shrink-0" />
+                          )}
+                          <span className="text-[#e8e8e8] truncate flex-1">{l.name}</span>
+                          {l.data?.movementPath && (
+                            <span className="text-[10px] text-[#6b6b8a] shrink-0">path</span>
+                          )}
+                        </div>
+                        {l.errors.length > 0 && (
+                          <p className="text-[11px] text-[#ff4444]/80 mt-0.5 pl-6">{l.errors.join(' · ')}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Progress / result */}
+              {(importing || finished) && (
+                <div className="space-y-2">
+                  <div className="h-1.5 rounded-full bg-[#1a1a2e] overflow-hidden">
+                    <div
+                      className="h-full bg-[#f0a500] transition-all"
+                      style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-[#6b6b8a]">
+                    {progress.done} / {progress.total} lineups processed
+                  </p>
+                  {finished && failures.length === 0 && (
+                    <p className="flex items-center gap-1.5 text-xs text-[#22c55e]">
+                      <CheckCircle2 className="h-3.5 w-3.5" />
+                      All lineups imported
+                    </p>
+                  )}
+                  {finished && failures.length > 0 && (
+                    <div className="max-h-32 overflow-y-auto text-xs text-[#ff4444] space-y-0.5">
+                      {failures.map((f, i) => (
+                        <p key={i}>{f.name}: {f.error}</p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-6">
+          <button type="button" onClick={onClose} className="btn-secondary flex-1" disabled={importing}>
+            {finished ? 'Close' : 'Cancel'}
+          </button>
+          {!finished && (
+            <button
+              onClick={handleImport}
+              className="btn-primary flex-1"
+              disabled={importing || !current || validLineups.length === 0}
+            >
+              {importing ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <Upload className="h-4 w-4" />
+                  Import {validLineups.length} lineup{validLineups.length !== 1 ? 's' : ''}
+                </>
+              )}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+const BULK_ACTION_LABELS: Record<BulkLineupAction, { title: string; verb: string; progress: string }> = {
+  add: { title: 'Add to Collection', verb: 'Add', progress: 'Adding...' },
+  remove: { title: 'Remove from Collection', verb: 'Remove', progress: 'Removing...' },
+  hide: { title: 'Hide Lineups', verb: 'Hide', progress: 'Hiding...' },
+  delete: { title: 'Delete Lineups', verb: 'Delete', progress: 'Deleting...' },
+};
+
+function BulkLineupModal({
+  action, lineups, collection, targets, onClose, onDone,
+}: {
+  action: BulkLineupAction;
+  lineups: Lineup[];
+  collection: LineupCollection;
+  targets: LineupCollection[];
+  onClose: () => void;
+  onDone: (action: BulkLineupAction, succeededIds: string[], targetId?: string) => void;
+}) {
+  const { displayName } = useMapRegistry();
+  const [targetId, setTargetId] = useState(targets[0]?.id ?? '');
+  const [reason, setReason] = useState('');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failures, setFailures] = useState<{ name: string; error: string }[] | null>(null);
+  const labels = BULK_ACTION_LABELS[action];
+  const isDestructive = action === 'hide' || action === 'delete';
+
+  const runItem = (lineup: Lineup) => {
+    switch (action) {
+      case 'add':
+        return collectionsApi.addLineup(targetId, lineup.id);
+      case 'remove':
+        return collectionsApi.removeLineup(collection.id, lineup.id);
+      case 'hide':
+        return hiddenLineupsApi.hide(lineup.id, reason.trim() || undefined);
+      case 'delete':
+        return lineupsApi.delete(lineup.id);
+    }
+  };
+
+  const handleRun = async () => {
+    if (action === 'add' && !targetId) return;
+    setRunning(true);
+    setProgress({ done: 0, total: lineups.length });
+    const failed: { name: string; error: string }[] = [];
+    const succeeded: string[] = [];
+    for (const lineup of lineups) {
+      try {
+        await runItem(lineup);
+        succeeded.push(lineup.id);
+      } catch (err: unknown) {
+        failed.push({ name: lineup.name, error: apiErrorMessage(err, 'Request failed') });
+      }
+      setProgress((p) => ({ ...p, done: p.done + 1 }));
+    }
+    setFailures(failed);
+    onDone(action, succeeded, action === 'add' ? targetId : undefined);
+    if (failed.length === 0) {
+      toast.success(`${labels.verb}: ${succeeded.length} lineup${succeeded.length !== 1 ? 's' : ''}`);
+      onClose();
+    } else {
+      toast.error(`${labels.verb}: ${succeeded.length} of ${lineups.length} lineups`);
+    }
+    setRunning(false);
+  };
+
+  const finished = failures !== null;
+  const accent = isDestructive ? '#ff4444' : '#f0a500';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={() => !running && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="glass rounded-2xl p-6 w-full max-w-md mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 mb-4">
+          <div className="p-2 rounded-lg" style={{ backgroundColor: `${accent}1a` }}>
+            {action === 'add' && <FolderPlus className="w-5 h-5" style={{ color: accent }} />}
+            {action === 'remove' && <FolderMinus className="w-5 h-5" style={{ color: accent }} />}
+            {action === 'hide' && <EyeOff className="w-5 h-5" style={{ color: accent }} />}
+            {action === 'delete' && <Trash2 className="w-5 h-5" style={{ color: accent }} />}
+          </div>
+          <h2 className="text-lg font-bold text-[#e8e8e8]">{labels.title}</h2>
+        </div>
+
+        <p className="text-sm text-[#6b6b8a] mb-3">
+          {action === 'add' && `Add ${lineups.length} lineups to another ${displayName(collection.mapName)} collection.`}
+          {action === 'remove' && `Remove ${lineups.length} lineups from ${collection.name}. The lineups themselves are kept.`}
+          {action === 'hide' && `Hide ${lineups.length} lineups from all pro collections.`}
+          {action === 'delete' && `Permanently delete ${lineups.length} lineups. This cannot be undone.`}
+        </p>
+
+        <div className="max-h-32 overflow-y-auto mb-4 space-y-0.5">
+          {lineups.map((l) => (
+            <p key={l.id} className="text-xs text-[#e8e8e8] truncate">{l.name}</p>
+          ))}
+        </div>
+
+        {action === 'add' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-[#6b6b8a] mb-2">Target collection</label>
+            {targets.length === 0 ? (
+              <p className="text-sm text-[#6b6b8a]">No other collections on this map</p>
+            ) : (
+              <div className="relative">
+                <select
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  disabled={running || finished}
+                  className="w-full appearance-none cursor-pointer pr-10"
+                >
+                  {targets.map((c) => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {action === 'hide' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-[#6b6b8a] mb-2">
+              Reason (optional, shared by all)
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={running || finished}
+              className="w-full resize-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] placeholder-[#6b6b8a]/50 focus:outline-none focus:border-[#f0a500]/40 transition-colors p-3"
+              rows={2}
+              placeholder="e.g., Duplicate, doesn't work anymore, bad lineup..."
+            />
+          </div>
+        )}
+
+        {(running || finished) && (
+          <div className="space-y-2 mb-4">
+            <div className="h-1.5 rounded-full bg-[#1a1a2e] overflow-hidden">
+              <div
+                className="h-full transition-all"
+                style={{
+                  width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%`,
+                  backgroundColor: accent,
+                }}
+              />
+            </div>
+            <p className="text-xs text-[#6b6b8a]">
+              {progress.done} / {progress.total} lineups processed
+            </p>
+            {finished && failures.length > 0 && (
+              <div className="max-h-32 overflow-y-auto text-xs text-[#ff4444] space-y-0.5">
+                {failures.map((f, i) => (
+                  <p key={i}>{f.name}: {f.error}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button onClick={onClose} className="btn-secondary flex-1" disabled={running}>
+            {finished ? 'Close' : 'Cancel'}
+          </button>
+          {!finished && (
+            <button
+              onClick={handleRun}
+              disabled={running || (action === 'add' && !targetId)}
+              className={
+                isDestructive
+                  ? 'flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-xl text-sm font-medium bg-[#ff4444]/10 text-[#ff4444] border border-[#ff4444]/30 hover:bg-[#ff4444]/20 transition-all disabled:opacity-50'
+                  : 'btn-primary flex-1'
+              }
+            >
+              {running ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {labels.progress}
+                </>
+              ) : (
+                `${labels.verb} ${lineups.length} lineup${lineups.length !== 1 ? 's' : ''}`
+              )}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
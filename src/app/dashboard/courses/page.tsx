@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   BookOpen,
@@ -24,11 +24,26 @@ import {
   AlertCircle,
   RefreshCw,
   ExternalLink,
+  Download,
+  Upload,
+  CopyPlus,
+  FileJson,
+  AlertTriangle,
+  CheckCircle2,
 } from 'lucide-react';
-import { coursesApi, collectionsApi, adminSessionsApi } from '@/lib/api';
+import { coursesApi, collectionsApi, adminSessionsApi, apiErrorMessage } from '@/lib/api';
 import { useAuthStore } from '@/store/auth-store';
-import { MAPS, MAP_COLORS } from '@/lib/constants';
 import type { Course, CourseDifficulty, CollectionDifficulty, LineupCollection, Session } from '@/lib/types';
+import {
+  exportCourse,
+  exportFileName,
+  downloadJson,
+  importLineupIntoCollection,
+  parseCollectionFile,
+  type ImportedLineup,
+  type ParsedCollectionFile,
+} from '@/lib/collection-transfer';
+import { useMapRegistry, useSelectedMap } from '@/store/map-registry-store';
 import toast from 'react-hot-toast';
 
 interface CourseFormData {
@@ -61,6 +76,9 @@ const COLL_DIFFICULTY_LABELS: Record<CollectionDifficulty, string> = {
   hard: 'Hard',
 };
 
+// Where a duplicated course comes from: an existing course or an exported course file
+type CloneSource = { kind: 'course'; course: Course } | { kind: 'file' };
+
 const getStatusDisplay = (status: Session['status']) => {
   switch (status) {
     case 'queued':
@@ -81,6 +99,7 @@ const getStatusDisplay = (status: Session['status']) => {
 };
 
 export default function CoursesPage() {
+  const { maps, color } = useMapRegistry();
   const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchText, setSearchText] = useState('');
@@ -90,6 +109,8 @@ export default function CoursesPage() {
   const [formData, setFormData] = useState<CourseFormData>(initialFormData);
   const [saving, setSaving] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [cloneSource, setCloneSource] = useState<CloneSource | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
   // Collection picker state
@@ -237,6 +258,20 @@ export default function CoursesPage() {
     }
   };
 
+  const handleExport = async (course: Course) => {
+    setExportingId(course.id);
+    try {
+      const file = await exportCourse(course);
+      downloadJson(file, exportFileName(`course ${course.name}`));
+      const lineupCount = file.collections.reduce((sum, c) => sum + c.lineups.length, 0);
+      toast.success(`Exported ${file.collections.length} collections (${lineupCount} lineups)`);
+    } catch {
+      toast.error('Failed to export course');
+    } finally {
+      setExportingId(null);
+    }
+  };
+
   const togglePublished = async (course: Course) => {
     try {
       await coursesApi.update(course.id, { isPublished: !course.isPublished });
@@ -533,7 +568,7 @@ export default function CoursesPage() {
             className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-2 pr-10"
           >
             <option value="all">All Maps</option>
-            {MAPS.map((m) => (
+            {maps.map((m) => (
               <option key={m.name} value={m.name}>
                 {m.displayName}
               </option>
@@ -550,6 +585,16 @@ export default function CoursesPage() {
           New Course
         </button>
 
+        {user?.role === 'admin' && (
+          <button
+            onClick={() => setCloneSource({ kind: 'file' })}
+            className="btn-secondary flex items-center gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            Import Course
+          </button>
+        )}
+
         <div className="relative ml-auto">
           <Search className="absolute top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none left-3" />
           <input
@@ -587,11 +632,11 @@ export default function CoursesPage() {
         </motion.div>
       ) : (
         <div className="space-y-8">
-          {MAPS.map((map) => {
+          {maps.map((map) => {
             const mapCourses = groupedByMap[map.name];
             if (!mapCourses) return null;
 
-            const mapColor = MAP_COLORS[map.name] || '#f0a500';
+            const mapColor = color(map.name);
 
             return (
               <motion.div
@@ -612,6 +657,7 @@ export default function CoursesPage() {
                 <div className="space-y-4">
                   {mapCourses.map((course) => {
                     const collectionCount = course.courseCollections?.length ?? 0;
+                    const executeCount = course.courseExecutes?.length ?? 0;
                     const isExpanded = expandedId === course.id;
 
                     return (
@@ -658,6 +704,9 @@ export default function CoursesPage() {
                           <div className="flex items-center justify-between">
                             <div className="flex items-center gap-3 text-sm text-[#6b6b8a]">
                               <span>{collectionCount} collection{collectionCount !== 1 ? 's' : ''}</span>
+                              {executeCount > 0 && (
+                                <span>{executeCount} execute{executeCount !== 1 ? 's' : ''}</span>
+                              )}
                             </div>
 
                             <div className="flex items-center gap-2">
@@ -676,6 +725,29 @@ export default function CoursesPage() {
                                   <EyeOff className="h-4 w-4" />
                                 )}
                               </button>
+                              {user?.role === 'admin' && (
+                                <button
+                                  onClick={() => handleExport(course)}
+                                  disabled={exportingId === course.id}
+                                  className="p-2 rounded-lg bg-[#1a1a2e] text-[#6b6b8a] hover:text-[#22c55e] hover:border-[#22c55e]/30 border border-[#2a2a3e] transition-all disabled:opacity-50"
+                                  title="Export course as JSON"
+                                >
+                                  {exportingId === course.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Download className="h-4 w-4" />
+                                  )}
+                                </button>
+                              )}
+                              {user?.role === 'admin' && (
+                                <button
+                                  onClick={() => setCloneSource({ kind: 'course', course })}
+                                  className="p-2 rounded-lg bg-[#1a1a2e] text-[#6b6b8a] hover:text-[#6366f1] hover:border-[#6366f1]/30 border border-[#2a2a3e] transition-all"
+                                  title="Duplicate course"
+                                >
+                                  <CopyPlus className="h-4 w-4" />
+                                </button>
+                              )}
                               <button
                                 onClick={() => openEditModal(course)}
                                 className="p-2 rounded-lg bg-[#1a1a2e] text-[#6b6b8a] hover:text-[#f0a500] hover:border-[#f0a500]/30 border border-[#2a2a3e] transition-all"
@@ -1272,7 +1344,7 @@ export default function CoursesPage() {
                         className="w-full appearance-none bg-[#0a0a12] border border-[#2a2a3e] rounded-lg text-sm text-[#e8e8e8] px-3 py-2 pr-8 focus:outline-none focus:border-[#f0a500]/40 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         <option value="">Select map...</option>
-                        {MAPS.map((m) => (
+                        {maps.map((m) => (
                           <option key={m.name} value={m.name}>{m.displayName}</option>
                         ))}
                       </select>
@@ -1368,6 +1440,399 @@ export default function CoursesPage() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Duplicate / Import Course Modal */}
+      <AnimatePresence>
+        {cloneSource && (
+          <CloneCourseModal
+            source={cloneSource}
+            onClose={() => setCloneSource(null)}
+            onCloned={loadCourses}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
+
+interface CloneEntry {
+  name: string;
+  description?: string;
+  difficulty: CollectionDifficulty | null;
+  sourceCollectionId?: string;
+  lineupCount: number;
+  // Only set for file imports; duplicates are cloned server-side from sourceCollectionId
+  lineups: ImportedLineup[];
+}
+
+function CloneCourseModal({
+  source,
+  onClose,
+  onCloned,
+}: {
+  source: CloneSource;
+  onClose: () => void;
+  onCloned: () => void;
+}) {
+  const { maps, displayName } = useMapRegistry();
+  const original = source.kind === 'course' ? source.course : null;
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedCollectionFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [name, setName] = useState(original ? `${original.name} (copy)` : '');
+  const [description, setDescription] = useState(original?.description ?? '');
+  // A duplicate starts on the original's map even when that map is disabled
+  const [mapName, setMapName] = useSelectedMap(original?.mapName, (value) => value === original?.mapName);
+  const [difficulty, setDifficulty] = useState<CourseDifficulty>(original?.difficulty ?? 'beginner');
+  const [collectionDifficulty, setCollectionDifficulty] = useState<CollectionDifficulty | ''>('');
+  const [cloning, setCloning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failures, setFailures] = useState<{ name: string; error: string }[] | null>(null);
+
+  const sourceMap = original?.mapName ?? parsed?.course?.mapName ?? parsed?.collections[0]?.collection.mapName ?? null;
+  // Lineup positions are map-specific, so a course moved to another map only keeps its structure
+  const copyLineups = sourceMap === mapName;
+
+  const entries = useMemo<CloneEntry[]>(() => {
+    if (original) {
+      return [...(original.courseCollections ?? [])]
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map((cc) => ({
+          name: cc.collection?.name ?? 'Untitled collection',
+          description: cc.collection?.description,
+          difficulty: cc.collection?.difficulty ?? null,
+          sourceCollectionId: cc.collectionId,
+          lineupCount: cc.collection?.lineupCount ?? 0,
+          lineups: [],
+        }));
+    }
+    return (parsed?.collections ?? []).map((c) => {
+      const lineups = c.lineups.filter((l) => l.data);
+      return {
+        name: c.collection.name,
+        description: c.collection.description,
+        difficulty: c.collection.difficulty,
+        lineupCount: lineups.length,
+        lineups,
+      };
+    });
+  }, [original, parsed]);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setParsed(null);
+    setParseError(null);
+    setFailures(null);
+    try {
+      const result = await parseCollectionFile(JSON.parse(await file.text()));
+      if (result.kind !== 'course' || !result.course) {
+        throw new Error(`This is a ${result.kind} export; import it from the Collections page`);
+      }
+      setParsed(result);
+      setName(result.course.name);
+      setDescription(result.course.description ?? '');
+      setMapName(result.course.mapName);
+      setDifficulty(result.course.difficulty);
+    } catch (err) {
+      setParseError(err instanceof SyntaxError ? 'File is not valid JSON' : (err as Error).message);
+    }
+  };
+
+  const handleClone = async () => {
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    setCloning(true);
+    setProgress({ done: 0, total: entries.length });
+    const failed: { name: string; error: string }[] = [];
+    try {
+      const course = await coursesApi.create({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        mapName,
+        difficulty,
+        sortOrder: original?.sortOrder ?? parsed?.course?.sortOrder ?? 0,
+        isPublished: false,
+      });
+      const createdIds: string[] = [];
+      for (const entry of entries) {
+        try {
+          const { collection } = await coursesApi.createAndAddCollection(course.id, {
+            name: entry.name,
+            description: entry.description,
+            difficulty: collectionDifficulty || entry.difficulty || undefined,
+            ...(copyLineups && entry.sourceCollectionId ? { sourceCollectionId: entry.sourceCollectionId } : {}),
+          });
+          createdIds.push(collection.id);
+          if (copyLineups) {
+            for (const lineup of entry.lineups) {
+              const error = await importLineupIntoCollection(collection.id, { ...lineup.data!, mapName });
+              if (error) failed.push({ name: `${entry.name} / ${lineup.name}`, error });
+            }
+          }
+        } catch (error) {
+          failed.push({ name: entry.name, error: apiErrorMessage(error, 'Failed to create collection') });
+        }
+        setProgress((p) => ({ ...p, done: p.done + 1 }));
+      }
+      if (createdIds.length > 1) {
+        // The course already exists, so an ordering failure is reported with the others
+        try {
+          await coursesApi.reorderCollections(course.id, createdIds);
+        } catch (error) {
+          failed.push({ name: 'Collection order', error: apiErrorMessage(error, 'Failed to reorder collections') });
+        }
+      }
+      // Executes are built from this map's lineups, so they only carry over to a course on the same map
+      if (original && copyLineups) {
+        const executes = [...(original.courseExecutes ?? [])].sort((a, b) => a.sortOrder - b.sortOrder);
+        for (const entry of executes) {
+          try {
+            await coursesApi.addExecute(course.id, entry.executeId, entry.sortOrder);
+          } catch (error) {
+            failed.push({ name: entry.execute?.name ?? 'Execute', error: apiErrorMessage(error, 'Failed to add execute') });
+          }
+        }
+      }
+      setFailures(failed);
+      if (failed.length === 0) {
+        toast.success(`Created draft course ${course.name}`);
+      } else {
+        toast.error(`Created ${course.name} with ${failed.length} error${failed.length !== 1 ? 's' : ''}`);
+      }
+      onCloned();
+    } catch (error) {
+      toast.error(apiErrorMessage(error, 'Failed to create course'));
+    } finally {
+      setCloning(false);
+    }
+  };
+
+  const finished = failures !== null;
+  const ready = original !== null || parsed !== null;
+  const mapLabel = (map: string | null) => (map ? displayName(map) : map);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={() => !cloning && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="glass rounded-2xl p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-2 rounded-lg bg-[#f0a500]/10">
+            {original ? (
+              <CopyPlus className="w-5 h-5 text-[#f0a500]" />
+            ) : (
+              <Upload className="w-5 h-5 text-[#f0a500]" />
+            )}
+          </div>
+          <h2 className="text-xl font-bold text-[#e8e8e8]">
+            {original ? 'Duplicate Course' : 'Import Course'}
+          </h2>
+          <button onClick={onClose} disabled={cloning} className="ml-auto text-[#6b6b8a] hover:text-[#e8e8e8]">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {!original && (
+          <label className="flex items-center gap-3 px-4 py-3 rounded-xl border border-dashed border-[#2a2a3e] hover:border-[#f0a500]/40 cursor-pointer transition-colors mb-4">
+            <FileJson className="h-5 w-5 text-[#6b6b8a]" />
+            <span className="text-sm text-[#e8e8e8]">{fileName || 'Choose an exported course .json file'}</span>
+            {parsed?.checksum === 'mismatch' && (
+              <span className="ml-auto flex items-center gap-1 text-xs text-[#f59e0b]" title="The file was changed after export">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                checksum mismatch
+              </span>
+            )}
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              disabled={cloning}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+
+        {parseError && (
+          <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-[#ff4444]/10 border border-[#ff4444]/30 text-sm text-[#ff4444] mb-4">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {parseError}
+          </div>
+        )}
+
+        {ready && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-[#6b6b8a] mb-2">Name</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} className="w-full" />
+            </div>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full resize-none"
+              rows={2}
+              placeholder="Optional description..."
+            />
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-[#6b6b8a] mb-2">Map</label>
+                <div className="relative">
+                  <select
+                    value={mapName}
+                    onChange={(e) => setMapName(e.target.value)}
+                    className="w-full appearance-none bg-[#0a0a12] border border-[#2a2a3e] rounded-lg text-sm text-[#e8e8e8] px-3 py-2 pr-8 focus:outline-none focus:border-[#f0a500]/40"
+                  >
+                    {original && !maps.some((m) => m.name === original.mapName) && (
+                      <option value={original.mapName}>{displayName(original.mapName)} (disabled)</option>
+                    )}
+                    {maps.map((m) => (
+                      <option key={m.name} value={m.name}>{m.displayName}</option>
+                    ))}
+                  </select>
+                  <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-[#6b6b8a] pointer-events-none" />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[#6b6b8a] mb-2">Difficulty</label>
+                <div className="relative">
+                  <select
+                    value={difficulty}
+                    onChange={(e) => setDifficulty(e.target.value as CourseDifficulty)}
+                    className="w-full appearance-none bg-[#0a0a12] border border-[#2a2a3e] rounded-lg text-sm text-[#e8e8e8] px-3 py-2 pr-8 focus:outline-none focus:border-[#f0a500]/40"
+                  >
+                    <option value="beginner">Beginner</option>
+                    <option value="intermediate">Intermediate</option>
+                    <option value="advanced">Advanced</option>
+                    <option value="expert">Expert</option>
+                  </select>
+                  <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-[#6b6b8a] pointer-events-none" />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[#6b6b8a] mb-2">Collections</label>
+                <div className="relative">
+                  <select
+                    value={collectionDifficulty}
+                    onChange={(e) => setCollectionDifficulty(e.target.value as CollectionDifficulty | '')}
+                    className="w-full appearance-none bg-[#0a0a12] border border-[#2a2a3e] rounded-lg text-sm text-[#e8e8e8] px-3 py-2 pr-8 focus:outline-none focus:border-[#f0a500]/40"
+                  >
+                    <option value="">Keep difficulty</option>
+                    {(Object.keys(COLL_DIFFICULTY_LABELS) as CollectionDifficulty[]).map((d) => (
+                      <option key={d} value={d}>All {COLL_DIFFICULTY_LABELS[d]}</option>
+                    ))}
+                  </select>
+                  <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-[#6b6b8a] pointer-events-none" />
+                </div>
+              </div>
+            </div>
+
+            {!copyLineups && (
+              <p className="flex items-center gap-1.5 text-xs text-[#f59e0b]">
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                Lineups belong to {mapLabel(sourceMap)}; collections will be created empty on {mapLabel(mapName)}.
+              </p>
+            )}
+
+            {/* Collections in course order */}
+            <div>
+              <p className="text-xs text-[#6b6b8a] mb-2">
+                {entries.length} collection{entries.length !== 1 ? 's' : ''}, created as a draft in this order
+              </p>
+              <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+                {entries.map((entry, i) => {
+                  const diff = collectionDifficulty || entry.difficulty;
+                  return (
+                    <div key={i} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[#1a1a2e]/50 text-sm">
+                      <span className="text-[#6b6b8a] text-xs w-5 shrink-0">{i + 1}.</span>
+                      <span className="text-[#e8e8e8] truncate flex-1">{entry.name}</span>
+                      {diff && (
+                        <span
+                          className="text-[10px] font-bold px-2 py-0.5 rounded-full uppercase shrink-0"
+                          style={{ backgroundColor: `${COLL_DIFFICULTY_COLORS[diff]}15`, color: COLL_DIFFICULTY_COLORS[diff] }}
+                        >
+                          {COLL_DIFFICULTY_LABELS[diff]}
+                        </span>
+                      )}
+                      <span className="text-xs text-[#6b6b8a] shrink-0">
+                        {copyLineups ? entry.lineupCount : 0} lineups
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {(cloning || finished) && (
+              <div className="space-y-2">
+                <div className="h-1.5 rounded-full bg-[#1a1a2e] overflow-hidden">
+                  <div
+                    className="h-full bg-[#f0a500] transition-all"
+                    style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <p className="text-xs text-[#6b6b8a]">
+                  {progress.done} / {progress.total} collections processed
+                </p>
+                {finished && failures.length === 0 && (
+                  <p className="flex items-center gap-1.5 text-xs text-[#22c55e]">
+                    <CheckCircle2 className="h-3.5 w-3.5" />
+                    Course created as a draft
+                  </p>
+                )}
+                {finished && failures.length > 0 && (
+                  <div className="max-h-32 overflow-y-auto text-xs text-[#ff4444] space-y-0.5">
+                    {failures.map((f, i) => (
+                      <p key={i}>{f.name}: {f.error}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-6">
+          <button type="button" onClick={onClose} className="btn-secondary flex-1" disabled={cloning}>
+            {finished ? 'Close' : 'Cancel'}
+          </button>
+          {!finished && (
+            <button onClick={handleClone} className="btn-primary flex-1" disabled={cloning || !ready}>
+              {cloning ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : original ? (
+                <>
+                  <CopyPlus className="h-4 w-4" />
+                  Duplicate as draft
+                </>
+              ) : (
+                <>
+                  <Upload className="h-4 w-4" />
+                  Import as draft
+                </>
+              )}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,423 @@
+'use client';
+
+import { useEffect, useState, useMemo } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import {
+  Copy,
+  ChevronDown,
+  Loader2,
+  Merge,
+  EyeOff,
+  Trash2,
+  Edit2,
+  CheckCircle2,
+  RotateCcw,
+} from 'lucide-react';
+import { lineupsApi, hiddenLineupsApi } from '@/lib/api';
+import { useAuthStore } from '@/store/auth-store';
+import { GRENADE_TYPES } from '@/lib/constants';
+import type { Lineup } from '@/lib/types';
+import {
+  DEFAULT_DUPLICATE_LIMITS,
+  findDuplicateClusters,
+  mergeDuplicateFields,
+  type DuplicateCluster,
+  type DuplicateLimits,
+} from '@/lib/lineup-duplicates';
+import MapRadar from '@/components/ui/MapRadar';
+import { useMapRegistry, useSelectedMap } from '@/store/map-registry-store';
+import toast from 'react-hot-toast';
+
+type DuplicateAction = 'merge' | 'hide' | 'delete';
+
+const LIMIT_SLIDERS: { key: keyof DuplicateLimits; label: string; unit: string; max: number; step: number }[] = [
+  { key: 'throwDistance', label: 'Throw distance', unit: 'u', max: 128, step: 1 },
+  { key: 'landingDistance', label: 'Landing distance', unit: 'u', max: 256, step: 4 },
+  { key: 'angle', label: 'Angle', unit: '°', max: 15, step: 0.5 },
+];
+
+export default function DuplicatesPage() {
+  const { maps } = useMapRegistry();
+  const { user } = useAuthStore();
+  const [mapName, setMapName] = useSelectedMap();
+  const [lineups, setLineups] = useState<Lineup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [limits, setLimits] = useState<DuplicateLimits>(DEFAULT_DUPLICATE_LIMITS);
+  const [grenadeFilter, setGrenadeFilter] = useState<string>('all');
+  const [selectedClusterId, setSelectedClusterId] = useState<string | null>(null);
+  const [selectedLineupId, setSelectedLineupId] = useState<string | null>(null);
+  // Keeper chosen by the admin, by cluster id; defaults to the suggested keeper
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  // Extras the admin unticked; they are left alone by bulk actions
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [running, setRunning] = useState<{ action: DuplicateAction; clusterId: string | null } | null>(null);
+
+  useEffect(() => {
+    loadLineups(mapName);
+  }, [mapName]);
+
+  const loadLineups = async (map: string) => {
+    setLoading(true);
+    setSelectedClusterId(null);
+    setSelectedLineupId(null);
+    setKeepers({});
+    setSkipped(new Set());
+    try {
+      const data = await lineupsApi.getPresets(map);
+      setLineups(Array.isArray(data) ? data : []);
+    } catch {
+      toast.error('Failed to load lineups');
+      setLineups([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clusters = useMemo(() => {
+    const source = grenadeFilter === 'all' ? lineups : lineups.filter((l) => l.grenadeType === grenadeFilter);
+    return findDuplicateClusters(source, limits);
+  }, [lineups, limits, grenadeFilter]);
+
+  const keeperOf = (cluster: DuplicateCluster) =>
+    cluster.lineups.find((l) => l.id === keepers[cluster.id]) ?? cluster.keeper;
+
+  const extrasOf = (cluster: DuplicateCluster) => {
+    const keeper = keeperOf(cluster);
+    return cluster.lineups.filter((l) => l.id !== keeper.id && !skipped.has(l.id));
+  };
+
+  const totalExtras = clusters.reduce((sum, c) => sum + extrasOf(c).length, 0);
+  const selectedCluster = clusters.find((c) => c.id === selectedClusterId) ?? null;
+
+  const radarLineups = useMemo(
+    () =>
+      (selectedCluster ? selectedCluster.lineups : clusters.flatMap((c) => c.lineups)).map((l) => ({
+        id: l.id,
+        name: l.name,
+        grenadeType: l.grenadeType,
+        throwPosition: l.throwPosition,
+        landingPosition: l.landingPosition,
+        releasePosition: l.releasePosition,
+        movementPath: l.movementPath,
+      })),
+    [clusters, selectedCluster],
+  );
+
+  const toggleSkipped = (id: string) => {
+    setSkipped((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const runAction = async (action: DuplicateAction, targets: DuplicateCluster[], clusterId: string | null) => {
+    const work = targets
+      .map((cluster) => ({ keeper: keeperOf(cluster), extras: extrasOf(cluster) }))
+      .filter((w) => w.extras.length > 0);
+    const count = work.reduce((sum, w) => sum + w.extras.length, 0);
+    if (count === 0) return;
+    if (action === 'delete') {
+      if (user?.role !== 'admin') {
+        toast.error('Only admins can delete lineups');
+        return;
+      }
+      if (!confirm(`Delete ${count} duplicate lineup${count !== 1 ? 's' : ''}? This cannot be undone.`)) return;
+    }
+
+    setRunning({ action, clusterId });
+    const removed = new Set<string>();
+    const updated = new Map<string, Lineup>();
+    let failed = 0;
+    for (const { keeper, extras } of work) {
+      if (action === 'merge') {
+        const changes = mergeDuplicateFields(keeper, extras);
+        if (Object.keys(changes).length > 0) {
+          try {
+            updated.set(keeper.id, await lineupsApi.update(keeper.id, changes));
+          } catch {
+            // Leave the extras in place so nothing is lost
+            failed += extras.length;
+            continue;
+          }
+        }
+      }
+      for (const extra of extras) {
+        try {
+          if (action === 'delete') {
+            await lineupsApi.delete(extra.id);
+          } else {
+            await hiddenLineupsApi.hide(extra.id, `Duplicate of ${keeper.name}`);
+          }
+          removed.add(extra.id);
+        } catch {
+          failed++;
+        }
+      }
+    }
+
+    setLineups((prev) =>
+      prev.filter((l) => !removed.has(l.id)).map((l) => updated.get(l.id) ?? l),
+    );
+    if (selectedLineupId && removed.has(selectedLineupId)) setSelectedLineupId(null);
+    const verb = action === 'merge' ? 'Merged' : action === 'hide' ? 'Hid' : 'Deleted';
+    if (failed === 0) {
+      toast.success(`${verb} ${removed.size} duplicate${removed.size !== 1 ? 's' : ''}`);
+    } else {
+      toast.error(`${verb} ${removed.size} of ${count} duplicates`);
+    }
+    setRunning(null);
+  };
+
+  const actionButtons = (targets: DuplicateCluster[], clusterId: string | null, disabled: boolean) => {
+    const buttons: { action: DuplicateAction; label: string; icon: typeof Merge; hover: string }[] = [
+      { action: 'merge', label: 'Merge', icon: Merge, hover: 'hover:text-[#f0a500] hover:border-[#f0a500]/30' },
+      { action: 'hide', label: 'Hide', icon: EyeOff, hover: 'hover:text-[#6366f1] hover:border-[#6366f1]/30' },
+    ];
+    if (user?.role === 'admin') {
+      buttons.push({ action: 'delete', label: 'Delete', icon: Trash2, hover: 'hover:text-[#ff4444] hover:border-[#ff4444]/30' });
+    }
+    return buttons.map(({ action, label, icon: Icon, hover }) => {
+      const isRunning = running?.action === action && running.clusterId === clusterId;
+      return (
+        <button
+          key={action}
+          onClick={(e) => {
+            e.stopPropagation();
+            runAction(action, targets, clusterId);
+          }}
+          disabled={disabled || running !== null}
+          className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[#1a1a2e] text-[#6b6b8a] border border-[#2a2a3e] transition-all disabled:opacity-50 ${hover}`}
+          title={
+            action === 'merge'
+              ? 'Fill the kept lineup from the extras, then hide the extras'
+              : action === 'hide'
+                ? 'Hide the extras from pro imports'
+                : 'Delete the extras'
+          }
+        >
+          {isRunning ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Icon className="h-3.5 w-3.5" />}
+          {label}
+        </button>
+      );
+    });
+  };
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-xl bg-[#6366f1]/10 border border-[#6366f1]/20">
+            <Copy className="w-6 h-6 text-[#6366f1]" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient-gold">Duplicates</h1>
+          </div>
+        </div>
+        <p className="text-[#6b6b8a] text-lg ml-[52px] mt-2">
+          Near-identical preset lineups grouped by position and angle
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="relative">
+          <select
+            value={mapName}
+            onChange={(e) => setMapName(e.target.value)}
+            className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-2 pr-10"
+          >
+            {maps.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.displayName}
+              </option>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+        </div>
+
+        <div className="relative">
+          <select
+            value={grenadeFilter}
+            onChange={(e) => { setGrenadeFilter(e.target.value); setSelectedClusterId(null); }}
+            className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-2 pr-10"
+          >
+            <option value="all">All Grenades</option>
+            {Object.entries(GRENADE_TYPES).map(([key, gt]) => (
+              <option key={key} value={key}>
+                {gt.label}
+              </option>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+        </div>
+
+        <span className="text-sm text-[#6b6b8a]">
+          {clusters.length} group{clusters.length !== 1 ? 's' : ''} · {totalExtras} extra{totalExtras !== 1 ? 's' : ''} selected
+          {' '}of {lineups.length} lineups
+        </span>
+
+        <div className="flex items-center gap-2 ml-auto">
+          {actionButtons(clusters, null, loading || totalExtras === 0)}
+        </div>
+      </div>
+
+      {/* Limits */}
+      <div className="glass rounded-xl border border-[#2a2a3e] px-4 py-3 mb-6 flex flex-wrap items-center gap-6">
+        {LIMIT_SLIDERS.map(({ key, label, unit, max, step }) => (
+          <label key={key} className="flex items-center gap-3 text-sm text-[#6b6b8a]">
+            <span className="w-32">{label}</span>
+            <input
+              type="range"
+              min={0}
+              max={max}
+              step={step}
+              value={limits[key]}
+              onChange={(e) => setLimits((prev) => ({ ...prev, [key]: Number(e.target.value) }))}
+              className="w-40 accent-[#f0a500] cursor-pointer"
+            />
+            <span className="w-12 text-[#e8e8e8] font-mono text-xs tabular-nums">
+              {limits[key]}{unit}
+            </span>
+          </label>
+        ))}
+        <button
+          onClick={() => setLimits(DEFAULT_DUPLICATE_LIMITS)}
+          className="ml-auto flex items-center gap-1.5 text-xs text-[#6b6b8a] hover:text-[#e8e8e8] transition-colors"
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+          Reset
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-[#f0a500]" />
+        </div>
+      ) : clusters.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center py-20"
+        >
+          <CheckCircle2 className="w-16 h-16 text-[#22c55e]/30 mx-auto mb-4" />
+          <p className="text-[#e8e8e8] text-xl font-semibold mb-2">
+            No duplicates found
+          </p>
+          <p className="text-[#6b6b8a]">
+            Widen the limits to look for looser matches
+          </p>
+        </motion.div>
+      ) : (
+        <div className="flex gap-6">
+          {/* Map Radar */}
+          <div className="w-96 shrink-0">
+            <div className="sticky top-8">
+              <MapRadar
+                mapName={mapName}
+                lineups={radarLineups}
+                selectedLineupId={selectedLineupId}
+                onLineupClick={(l) => {
+                  setSelectedLineupId(l.id === selectedLineupId ? null : l.id);
+                  const cluster = clusters.find((c) => c.lineups.some((cl) => cl.id === l.id));
+                  if (cluster) setSelectedClusterId(cluster.id);
+                }}
+              />
+            </div>
+          </div>
+
+          {/* Clusters */}
+          <div className="flex-1 min-w-0 space-y-3">
+            {clusters.map((cluster) => {
+              const gt = GRENADE_TYPES[cluster.grenadeType];
+              const keeper = keeperOf(cluster);
+              const extras = extrasOf(cluster);
+              const isSelected = cluster.id === selectedClusterId;
+              return (
+                <div
+                  key={cluster.id}
+                  onClick={() => setSelectedClusterId(isSelected ? null : cluster.id)}
+                  className={`glass rounded-xl border p-4 cursor-pointer transition-all ${
+                    isSelected ? 'border-[#f0a500]/30' : 'border-transparent hover:border-[#2a2a3e]'
+                  }`}
+                >
+                  <div className="flex items-center gap-3 mb-3">
+                    <span
+                      className="text-[10px] font-bold px-2 py-0.5 rounded-full uppercase"
+                      style={{ backgroundColor: `${gt.color}15`, color: gt.color }}
+                    >
+                      {gt.label}
+                    </span>
+                    <span className="text-sm text-[#e8e8e8] font-medium truncate">{keeper.name}</span>
+                    <span className="text-xs text-[#6b6b8a] shrink-0">{cluster.lineups.length} lineups</span>
+                    <div className="flex items-center gap-2 ml-auto">
+                      {actionButtons([cluster], cluster.id, extras.length === 0)}
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    {cluster.lineups.map((lineup) => {
+                      const isKeeper = lineup.id === keeper.id;
+                      return (
+                        <div
+                          key={lineup.id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setSelectedClusterId(cluster.id);
+                            setSelectedLineupId(lineup.id === selectedLineupId ? null : lineup.id);
+                          }}
+                          className={`flex items-center gap-3 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                            lineup.id === selectedLineupId ? 'bg-[#1a1a2e] ring-1 ring-[#f0a500]/30' : 'hover:bg-[#1a1a2e]/50'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name={`keeper-${cluster.id}`}
+                            checked={isKeeper}
+                            onChange={() => setKeepers((prev) => ({ ...prev, [cluster.id]: lineup.id }))}
+                            onClick={(e) => e.stopPropagation()}
+                            className="accent-[#22c55e] cursor-pointer"
+                            title="Keep this lineup"
+                          />
+                          <input
+                            type="checkbox"
+                            checked={!isKeeper && !skipped.has(lineup.id)}
+                            disabled={isKeeper}
+                            onChange={() => toggleSkipped(lineup.id)}
+                            onClick={(e) => e.stopPropagation()}
+                            className="accent-[#ff4444] cursor-pointer disabled:opacity-30"
+                            title="Include in merge, hide or delete"
+                          />
+                          <span className={`truncate flex-1 ${isKeeper ? 'text-[#22c55e]' : 'text-[#e8e8e8]'}`}>
+                            {lineup.name}
+                          </span>
+                          {lineup.playerName && (
+                            <span className="text-xs text-[#6b6b8a] shrink-0">{lineup.playerName}</span>
+                          )}
+                          <span className="text-[10px] font-mono text-[#6b6b8a] shrink-0 tabular-nums">
+                            {lineup.throwAngles.pitch.toFixed(1)}° / {lineup.throwAngles.yaw.toFixed(1)}°
+                          </span>
+                          <Link
+                            href={`/dashboard/lineups/${lineup.id}`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-[#6b6b8a] hover:text-[#f0a500] transition-colors shrink-0"
+                            title="Edit lineup"
+                          >
+                            <Edit2 className="h-3.5 w-3.5" />
+                          </Link>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
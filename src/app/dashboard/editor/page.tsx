@@ -17,14 +17,15 @@ import {
   ExternalLink,
 } from 'lucide-react';
 import { adminSessionsApi, collectionsApi } from '@/lib/api';
-import { MAPS, MAP_COLORS } from '@/lib/constants';
 import type { LineupCollection, Session } from '@/lib/types';
+import { useMapRegistry, useSelectedMap } from '@/store/map-registry-store';
 import toast from 'react-hot-toast';
 
 export default function EditorPage() {
+  const { maps, displayName, color } = useMapRegistry();
   const [collections, setCollections] = useState<LineupCollection[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedMap, setSelectedMap] = useState<string>('de_mirage');
+  const [selectedMap, setSelectedMap] = useSelectedMap('de_mirage');
   const [selectedCollectionId, setSelectedCollectionId] = useState<string>('');
   const [session, setSession] = useState<Session | null>(null);
   const [starting, setStarting] = useState(false);
@@ -122,7 +123,7 @@ export default function EditorPage() {
   }, []);
 
   const selectedCollection = collections.find((c) => c.id === selectedCollectionId);
-  const mapColor = MAP_COLORS[selectedMap] || '#f0a500';
+  const mapColor = color(selectedMap);
 
   // Status display helpers
   const getStatusDisplay = (status: Session['status']) => {
@@ -194,7 +195,7 @@ export default function EditorPage() {
                     onChange={(e) => setSelectedMap(e.target.value)}
                     className="w-full appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-3 pr-10"
                   >
-                    {MAPS.map((m) => (
+                    {maps.map((m) => (
                       <option key={m.name} value={m.name}>
                         {m.displayName}
                       </option>
@@ -322,7 +323,7 @@ export default function EditorPage() {
                 <div>
                   <label className="block text-xs font-medium text-[#6b6b8a] mb-1">Map</label>
                   <div className="text-[#e8e8e8]">
-                    {MAPS.find((m) => m.name === session.mapName)?.displayName || session.mapName}
+                    {displayName(session.mapName)}
                   </div>
                 </div>
 
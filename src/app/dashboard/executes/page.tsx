@@ -0,0 +1,620 @@
+'use client';
+
+import { useEffect, useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  Swords,
+  ChevronDown,
+  Loader2,
+  Plus,
+  Trash2,
+  Save,
+  ArrowUp,
+  ArrowDown,
+  X,
+  Search,
+  Clock,
+  BookOpen,
+} from 'lucide-react';
+import { coursesApi, executesApi, lineupsApi, apiErrorMessage } from '@/lib/api';
+import { useAuthStore } from '@/store/auth-store';
+import { GRENADE_TYPES } from '@/lib/constants';
+import type { Course, Execute, ExecutePlayerSlot, Lineup } from '@/lib/types';
+import MapRadar from '@/components/ui/MapRadar';
+import { useMapRegistry, useSelectedMap } from '@/store/map-registry-store';
+import toast from 'react-hot-toast';
+
+interface DraftStep {
+  // Local key; lineups may appear in more than one step
+  key: string;
+  lineup: Lineup;
+  timingOffset: number;
+  playerSlot: ExecutePlayerSlot;
+}
+
+interface Draft {
+  id: string | null;
+  name: string;
+  description: string;
+  steps: DraftStep[];
+}
+
+const PLAYER_SLOTS: ExecutePlayerSlot[] = [1, 2, 3, 4, 5];
+const PLAYER_COLORS: Record<ExecutePlayerSlot, string> = {
+  1: '#3b82f6',
+  2: '#22c55e',
+  3: '#f59e0b',
+  4: '#a855f7',
+  5: '#ec4899',
+};
+const PICKER_LIMIT = 50;
+
+const emptyDraft = (): Draft => ({ id: null, name: '', description: '', steps: [] });
+
+let stepCounter = 0;
+const newStepKey = () => `step-${++stepCounter}`;
+
+const draftFromExecute = (execute: Execute): Draft => ({
+  id: execute.id,
+  name: execute.name,
+  description: execute.description ?? '',
+  steps: [...execute.steps]
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map((step) => ({
+      key: newStepKey(),
+      lineup: step.lineup,
+      timingOffset: step.timingOffset,
+      playerSlot: step.playerSlot,
+    })),
+});
+
+const formatOffset = (seconds: number) => `+${seconds.toFixed(1)}s`;
+
+export default function ExecutesPage() {
+  const { maps } = useMapRegistry();
+  const { user } = useAuthStore();
+  const [mapName, setMapName] = useSelectedMap();
+  const [executes, setExecutes] = useState<Execute[]>([]);
+  const [presets, setPresets] = useState<Lineup[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [selectedStepKey, setSelectedStepKey] = useState<string | null>(null);
+  const [pickerQuery, setPickerQuery] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [togglingCourseId, setTogglingCourseId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData(mapName);
+  }, [mapName]);
+
+  const loadData = async (map: string) => {
+    setLoading(true);
+    setDraft(emptyDraft());
+    setSelectedStepKey(null);
+    try {
+      const [execs, lineups, courseList] = await Promise.all([
+        executesApi.getAll(map),
+        lineupsApi.getPresets(map),
+        coursesApi.getAll(map),
+      ]);
+      setExecutes(Array.isArray(execs) ? execs : []);
+      setPresets(Array.isArray(lineups) ? lineups : []);
+      setCourses(Array.isArray(courseList) ? courseList : []);
+    } catch {
+      toast.error('Failed to load executes');
+      setExecutes([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSteps = (update: (steps: DraftStep[]) => DraftStep[]) =>
+    setDraft((prev) => ({ ...prev, steps: update(prev.steps) }));
+
+  const addStep = (lineup: Lineup) => {
+    const last = draft.steps[draft.steps.length - 1];
+    const key = newStepKey();
+    updateSteps((steps) => [
+      ...steps,
+      {
+        key,
+        lineup,
+        timingOffset: last?.timingOffset ?? 0,
+        // Hand each new step to the next player by default
+        playerSlot: last ? PLAYER_SLOTS[last.playerSlot % PLAYER_SLOTS.length] : 1,
+      },
+    ]);
+    setSelectedStepKey(key);
+  };
+
+  const moveStep = (index: number, delta: number) =>
+    updateSteps((steps) => {
+      const target = index + delta;
+      if (target < 0 || target >= steps.length) return steps;
+      const next = [...steps];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const patchStep = (key: string, patch: Partial<DraftStep>) =>
+    updateSteps((steps) => steps.map((s) => (s.key === key ? { ...s, ...patch } : s)));
+
+  const sortByTiming = () =>
+    updateSteps((steps) =>
+      [...steps].sort((a, b) => a.timingOffset - b.timingOffset || a.playerSlot - b.playerSlot),
+    );
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast.error('Execute name is required');
+      return;
+    }
+    if (draft.steps.length === 0) {
+      toast.error('Add at least one lineup');
+      return;
+    }
+    setSaving(true);
+    const payload = {
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      steps: draft.steps.map((s) => ({
+        lineupId: s.lineup.id,
+        timingOffset: s.timingOffset,
+        playerSlot: s.playerSlot,
+      })),
+    };
+    try {
+      const saved = draft.id
+        ? await executesApi.update(draft.id, payload)
+        : await executesApi.create({ ...payload, mapName });
+      setExecutes((prev) =>
+        prev.some((e) => e.id === saved.id) ? prev.map((e) => (e.id === saved.id ? saved : e)) : [...prev, saved],
+      );
+      setDraft((prev) => ({ ...prev, id: saved.id }));
+      toast.success(draft.id ? 'Execute updated' : 'Execute created');
+    } catch (error: unknown) {
+      toast.error(apiErrorMessage(error, 'Failed to save execute'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id || !confirm(`Delete "${draft.name}"? Courses using it will lose it.`)) return;
+    setDeleting(true);
+    try {
+      await executesApi.delete(draft.id);
+      setExecutes((prev) => prev.filter((e) => e.id !== draft.id));
+      setCourses((prev) =>
+        prev.map((c) => ({ ...c, courseExecutes: c.courseExecutes?.filter((ce) => ce.executeId !== draft.id) })),
+      );
+      setDraft(emptyDraft());
+      toast.success('Execute deleted');
+    } catch {
+      toast.error('Failed to delete execute');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const toggleCourse = async (course: Course) => {
+    const executeId = draft.id;
+    if (!executeId) return;
+    const attached = course.courseExecutes?.some((ce) => ce.executeId === executeId);
+    setTogglingCourseId(course.id);
+    try {
+      if (attached) {
+        await coursesApi.removeExecute(course.id, executeId);
+      } else {
+        await coursesApi.addExecute(course.id, executeId, course.courseExecutes?.length ?? 0);
+      }
+      // Refetch so the course carries the server's entry ids and order
+      const fresh = await coursesApi.getAll(mapName);
+      setCourses(Array.isArray(fresh) ? fresh : []);
+      toast.success(attached ? `Removed from ${course.name}` : `Added to ${course.name}`);
+    } catch {
+      toast.error('Failed to update course');
+    } finally {
+      setTogglingCourseId(null);
+    }
+  };
+
+  const pickerResults = useMemo(() => {
+    const q = pickerQuery.trim().toLowerCase();
+    const matches = q
+      ? presets.filter(
+          (l) => l.name.toLowerCase().includes(q) || l.playerName?.toLowerCase().includes(q) || l.tags.some((t) => t.toLowerCase().includes(q)),
+        )
+      : presets;
+    return matches.slice(0, PICKER_LIMIT);
+  }, [presets, pickerQuery]);
+
+  // One marker per lineup; a lineup used twice shows both step numbers
+  const radarLineups = useMemo(() => {
+    const unique = new Map(draft.steps.map((s) => [s.lineup.id, s.lineup]));
+    return [...unique.values()].map((l) => ({
+        id: l.id,
+        name: l.name,
+        grenadeType: l.grenadeType,
+        throwPosition: l.throwPosition,
+        landingPosition: l.landingPosition,
+        releasePosition: l.releasePosition,
+        movementPath: l.movementPath,
+      }));
+  }, [draft.steps]);
+
+  const markerLabels = useMemo(() => {
+    const labels: Record<string, string> = {};
+    draft.steps.forEach((s, i) => {
+      const label = `${i + 1}·P${s.playerSlot}`;
+      labels[s.lineup.id] = labels[s.lineup.id] ? `${labels[s.lineup.id]} ${label}` : label;
+    });
+    return labels;
+  }, [draft.steps]);
+
+  const selectedStep = draft.steps.find((s) => s.key === selectedStepKey) ?? null;
+  const totalDuration = draft.steps.reduce((max, s) => Math.max(max, s.timingOffset), 0);
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-xl bg-[#ef4444]/10 border border-[#ef4444]/20">
+            <Swords className="w-6 h-6 text-[#ef4444]" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient-gold">Executes</h1>
+          </div>
+        </div>
+        <p className="text-[#6b6b8a] text-lg ml-[52px] mt-2">
+          Coordinated lineups for full site takes, timed per player
+        </p>
+      </div>
+
+      {/* Map select */}
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="relative">
+          <select
+            value={mapName}
+            onChange={(e) => setMapName(e.target.value)}
+            className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-2 pr-10"
+          >
+            {maps.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.displayName}
+              </option>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+        </div>
+        <span className="text-sm text-[#6b6b8a]">
+          {executes.length} execute{executes.length !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-[#f0a500]" />
+        </div>
+      ) : (
+        <div className="flex gap-6">
+          {/* Execute list */}
+          <div className="w-56 shrink-0 space-y-1">
+            <button
+              onClick={() => { setDraft(emptyDraft()); setSelectedStepKey(null); }}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 mb-2 rounded-xl bg-gradient-to-r from-[#f0a500] to-[#d4920a] text-[#0a0a0f] text-sm font-semibold hover:shadow-lg hover:shadow-[#f0a500]/20 transition-all"
+            >
+              <Plus className="h-4 w-4" />
+              New Execute
+            </button>
+            {executes.length === 0 && (
+              <p className="text-sm text-[#6b6b8a] text-center py-6">No executes on this map yet</p>
+            )}
+            {executes.map((execute) => (
+              <button
+                key={execute.id}
+                onClick={() => { setDraft(draftFromExecute(execute)); setSelectedStepKey(null); }}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-all ${
+                  draft.id === execute.id
+                    ? 'bg-[#f0a500]/10 text-[#f0a500]'
+                    : 'text-[#9b9bba] hover:bg-[#1a1a2e] hover:text-[#e8e8e8]'
+                }`}
+              >
+                <span className="truncate flex-1">{execute.name}</span>
+                <span className="text-[10px] text-[#6b6b8a] shrink-0">{execute.steps.length}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Radar */}
+          <div className="flex-1 min-w-0">
+            <div className="sticky top-8">
+              <MapRadar
+                mapName={mapName}
+                lineups={radarLineups}
+                selectedLineupId={selectedStep?.lineup.id ?? null}
+                onLineupClick={(l) => {
+                  const step = draft.steps.find((s) => s.lineup.id === l.id);
+                  setSelectedStepKey(step && step.key !== selectedStepKey ? step.key : null);
+                }}
+                markerLabels={markerLabels}
+                showAllTrajectories
+              />
+              {draft.steps.length > 0 && (
+                <ExecuteTimingBar steps={draft.steps} duration={totalDuration} selectedKey={selectedStepKey} onSelect={setSelectedStepKey} />
+              )}
+            </div>
+          </div>
+
+          {/* Editor */}
+          <motion.div
+            key={draft.id ?? 'new'}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="w-96 shrink-0 space-y-4"
+          >
+            <div className="glass rounded-xl p-4 space-y-3">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Execute name, e.g. A split"
+                className="w-full px-4 py-2.5 rounded-xl bg-[#12121a] border border-[#2a2a3e] text-[#e8e8e8] placeholder-[#6b6b8a] focus:outline-none focus:border-[#f0a500]/50 focus:ring-1 focus:ring-[#f0a500]/20 transition-all"
+              />
+              <textarea
+                value={draft.description}
+                onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="Description (optional)"
+                rows={2}
+                className="w-full px-4 py-2.5 rounded-xl bg-[#12121a] border border-[#2a2a3e] text-[#e8e8e8] placeholder-[#6b6b8a] focus:outline-none focus:border-[#f0a500]/50 focus:ring-1 focus:ring-[#f0a500]/20 transition-all resize-none text-sm"
+              />
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-gradient-to-r from-[#f0a500] to-[#d4920a] text-[#0a0a0f] text-sm font-semibold hover:shadow-lg hover:shadow-[#f0a500]/20 transition-all disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  {draft.id ? 'Save Changes' : 'Create Execute'}
+                </button>
+                {draft.id && user?.role === 'admin' && (
+                  <button
+                    onClick={handleDelete}
+                    disabled={deleting}
+                    className="p-2 rounded-xl bg-[#1a1a2e] text-[#6b6b8a] hover:text-[#ff4444] hover:border-[#ff4444]/30 border border-[#2a2a3e] transition-all disabled:opacity-50"
+                    title="Delete execute"
+                  >
+                    {deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Steps */}
+            <div className="glass rounded-xl p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold text-[#e8e8e8]">
+                  Steps <span className="text-[#6b6b8a] font-normal">({draft.steps.length})</span>
+                </h2>
+                {draft.steps.length > 1 && (
+                  <button
+                    onClick={sortByTiming}
+                    className="flex items-center gap-1 text-xs text-[#6b6b8a] hover:text-[#e8e8e8] transition-colors"
+                  >
+                    <Clock className="h-3.5 w-3.5" />
+                    Sort by timing
+                  </button>
+                )}
+              </div>
+              {draft.steps.length === 0 && (
+                <p className="text-sm text-[#6b6b8a] text-center py-4">Add lineups from the list below</p>
+              )}
+              <div className="space-y-1">
+                {draft.steps.map((step, index) => {
+                  const gt = GRENADE_TYPES[step.lineup.grenadeType];
+                  return (
+                    <div
+                      key={step.key}
+                      onClick={() => setSelectedStepKey(step.key === selectedStepKey ? null : step.key)}
+                      className={`flex items-center gap-2 px-2 py-1.5 rounded-lg cursor-pointer transition-colors ${
+                        step.key === selectedStepKey ? 'bg-[#1a1a2e] ring-1 ring-[#f0a500]/30' : 'hover:bg-[#1a1a2e]/50'
+                      }`}
+                    >
+                      <span className="text-xs text-[#6b6b8a] w-4 shrink-0 tabular-nums">{index + 1}</span>
+                      <select
+                        value={step.playerSlot}
+                        onChange={(e) => patchStep(step.key, { playerSlot: Number(e.target.value) as ExecutePlayerSlot })}
+                        onClick={(e) => e.stopPropagation()}
+                        className="appearance-none bg-transparent text-xs font-bold cursor-pointer focus:outline-none shrink-0"
+                        style={{ color: PLAYER_COLORS[step.playerSlot] }}
+                        title="Player slot"
+                      >
+                        {PLAYER_SLOTS.map((slot) => (
+                          <option key={slot} value={slot}>P{slot}</option>
+                        ))}
+                      </select>
+                      <span
+                        className="text-[9px] font-bold px-1.5 py-0.5 rounded-full uppercase shrink-0"
+                        style={{ backgroundColor: `${gt.color}18`, color: gt.color }}
+                      >
+                        {gt.label.slice(0, 2)}
+                      </span>
+                      <span className="text-sm text-[#e8e8e8] truncate flex-1">{step.lineup.name}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={step.timingOffset}
+                        onChange={(e) => patchStep(step.key, { timingOffset: Math.max(0, Number(e.target.value) || 0) })}
+                        onClick={(e) => e.stopPropagation()}
+                        className="w-14 px-1.5 py-0.5 rounded bg-[#12121a] border border-[#2a2a3e] text-xs text-[#e8e8e8] text-right tabular-nums focus:outline-none focus:border-[#f0a500]/50"
+                        title="Seconds after the execute starts"
+                      />
+                      <div className="flex items-center shrink-0" onClick={(e) => e.stopPropagation()}>
+                        <button
+                          onClick={() => moveStep(index, -1)}
+                          disabled={index === 0}
+                          className="p-0.5 text-[#6b6b8a] hover:text-[#e8e8e8] disabled:opacity-30 transition-colors"
+                        >
+                          <ArrowUp className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => moveStep(index, 1)}
+                          disabled={index === draft.steps.length - 1}
+                          className="p-0.5 text-[#6b6b8a] hover:text-[#e8e8e8] disabled:opacity-30 transition-colors"
+                        >
+                          <ArrowDown className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            updateSteps((steps) => steps.filter((s) => s.key !== step.key));
+                            if (selectedStepKey === step.key) setSelectedStepKey(null);
+                          }}
+                          className="p-0.5 text-[#6b6b8a] hover:text-[#ff4444] transition-colors"
+                          title="Remove step"
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Lineup picker */}
+            <div className="glass rounded-xl p-4">
+              <div className="relative mb-2">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[#6b6b8a]" />
+                <input
+                  type="text"
+                  value={pickerQuery}
+                  onChange={(e) => setPickerQuery(e.target.value)}
+                  placeholder="Search preset lineups..."
+                  className="w-full pl-9 pr-3 py-2 rounded-xl bg-[#12121a] border border-[#2a2a3e] text-sm text-[#e8e8e8] placeholder-[#6b6b8a] focus:outline-none focus:border-[#f0a500]/50 transition-all"
+                />
+              </div>
+              <div className="max-h-64 overflow-y-auto space-y-0.5">
+                {pickerResults.map((lineup) => {
+                  const gt = GRENADE_TYPES[lineup.grenadeType];
+                  return (
+                    <button
+                      key={lineup.id}
+                      onClick={() => addStep(lineup)}
+                      className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left hover:bg-[#1a1a2e] transition-colors group"
+                    >
+                      <span
+                        className="text-[9px] font-bold px-1.5 py-0.5 rounded-full uppercase shrink-0"
+                        style={{ backgroundColor: `${gt.color}18`, color: gt.color }}
+                      >
+                        {gt.label.slice(0, 2)}
+                      </span>
+                      <span className="text-sm text-[#e8e8e8] truncate flex-1">{lineup.name}</span>
+                      {lineup.playerName && (
+                        <span className="text-[10px] text-[#6b6b8a] shrink-0">{lineup.playerName}</span>
+                      )}
+                      <Plus className="h-3.5 w-3.5 text-[#6b6b8a] group-hover:text-[#f0a500] shrink-0" />
+                    </button>
+                  );
+                })}
+                {pickerResults.length === 0 && (
+                  <p className="text-sm text-[#6b6b8a] text-center py-4">No lineups match</p>
+                )}
+              </div>
+            </div>
+
+            {/* Courses */}
+            {draft.id && (
+              <div className="glass rounded-xl p-4">
+                <h2 className="text-sm font-semibold text-[#e8e8e8] mb-3">Used in courses</h2>
+                {courses.length === 0 && (
+                  <p className="text-sm text-[#6b6b8a]">No courses on this map</p>
+                )}
+                <div className="space-y-1">
+                  {courses.map((course) => {
+                    const attached = !!course.courseExecutes?.some((ce) => ce.executeId === draft.id);
+                    return (
+                      <label
+                        key={course.id}
+                        className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-[#1a1a2e] cursor-pointer transition-colors"
+                      >
+                        {togglingCourseId === course.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-[#f0a500]" />
+                        ) : (
+                          <input
+                            type="checkbox"
+                            checked={attached}
+                            onChange={() => toggleCourse(course)}
+                            disabled={togglingCourseId !== null}
+                            className="w-4 h-4 rounded border-[#2a2a3e] bg-[#12121a] text-[#f0a500] focus:ring-[#f0a500]/30"
+                          />
+                        )}
+                        <BookOpen className="h-3.5 w-3.5 text-[#6b6b8a]" />
+                        <span className="text-sm text-[#e8e8e8] truncate flex-1">{course.name}</span>
+                        {!course.isPublished && (
+                          <span className="text-[10px] font-medium px-2 py-0.5 rounded-full bg-[#6b6b8a]/15 text-[#6b6b8a]">
+                            DRAFT
+                          </span>
+                        )}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function ExecuteTimingBar({
+  steps, duration, selectedKey, onSelect,
+}: {
+  steps: DraftStep[];
+  duration: number;
+  selectedKey: string | null;
+  onSelect: (key: string) => void;
+}) {
+  // Leave room on the right so the last throw isn't drawn on the edge
+  const span = Math.max(duration * 1.1, 5);
+
+  return (
+    <div className="mt-3 rounded-xl bg-[#12121a] border border-[#2a2a3e] p-3">
+      {PLAYER_SLOTS.map((slot) => {
+        const slotSteps = steps.filter((s) => s.playerSlot === slot);
+        return (
+          <div key={slot} className="flex items-center gap-2 h-6">
+            <span className="w-5 text-[10px] font-bold shrink-0" style={{ color: PLAYER_COLORS[slot] }}>P{slot}</span>
+            <div className="relative flex-1 h-full border-b border-[#2a2a3e]/50">
+              {slotSteps.map((step) => {
+                const gt = GRENADE_TYPES[step.lineup.grenadeType];
+                return (
+                  <button
+                    key={step.key}
+                    onClick={() => onSelect(step.key)}
+                    className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 rounded-full transition-transform hover:scale-150 ${
+                      step.key === selectedKey ? 'ring-2 ring-white' : ''
+                    }`}
+                    style={{ left: `${(step.timingOffset / span) * 100}%`, backgroundColor: gt.color }}
+                    title={`${formatOffset(step.timingOffset)} · ${step.lineup.name}`}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex justify-between ml-7 mt-1 text-[9px] text-[#6b6b8a] tabular-nums">
+        <span>{formatOffset(0)}</span>
+        <span>{formatOffset(span)}</span>
+      </div>
+    </div>
+  );
+}
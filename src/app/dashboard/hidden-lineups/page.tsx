@@ -11,12 +11,14 @@ import {
   X,
 } from 'lucide-react';
 import { hiddenLineupsApi } from '@/lib/api';
-import { MAPS, GRENADE_TYPES } from '@/lib/constants';
+import { GRENADE_TYPES } from '@/lib/constants';
 import type { HiddenLineup } from '@/lib/types';
 import MapRadar from '@/components/ui/MapRadar';
+import { useMapRegistry } from '@/store/map-registry-store';
 import toast from 'react-hot-toast';
 
 export default function HiddenLineupsPage() {
+  const { maps, displayName } = useMapRegistry();
   const [items, setItems] = useState<HiddenLineup[]>([]);
   const [loading, setLoading] = useState(true);
   const [filterMap, setFilterMap] = useState<string>('all');
@@ -100,7 +102,7 @@ export default function HiddenLineupsPage() {
   }, [filtered, radarMapName]);
 
   const mapDisplayName = (name: string) =>
-    MAPS.find((m) => m.name === name)?.displayName || name;
+    displayName(name);
 
   if (loading) {
     return (
@@ -139,7 +141,7 @@ export default function HiddenLineupsPage() {
             className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-2 pr-10"
           >
             <option value="all">All Maps</option>
-            {MAPS.map((m) => (
+            {maps.map((m) => (
               <option key={m.name} value={m.name}>
                 {m.displayName}
               </option>
@@ -0,0 +1,655 @@
+'use client';
+
+import { useEffect, useState, useMemo, useCallback } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Crosshair,
+  ArrowLeft,
+  ArrowUp,
+  ArrowDown,
+  Loader2,
+  Plus,
+  X,
+  Trash2,
+  Check,
+  RotateCcw,
+  GitCompare,
+  ChevronDown,
+  Move,
+} from 'lucide-react';
+import { lineupsApi, apiErrorMessage } from '@/lib/api';
+import {
+  GRENADE_TYPES,
+  LINEUP_DIFFICULTIES,
+  THROW_TYPE_SUGGESTIONS,
+  THROW_STRENGTH_SUGGESTIONS,
+  TEAM_SIDES,
+} from '@/lib/constants';
+import {
+  LINEUP_FIELD_LABELS,
+  toLineupDraft,
+  validateLineupUpdate,
+  diffLineup,
+  changesToPayload,
+  formatFieldValue,
+} from '@/lib/lineup-validation';
+import type { Lineup, LineupUpdateData, EditableLineupField, LineupPositionField } from '@/lib/types';
+import MapRadar from '@/components/ui/MapRadar';
+import { useMapRegistry } from '@/store/map-registry-store';
+import toast from 'react-hot-toast';
+
+type NumericField =
+  | 'roundNumber'
+  | 'roundTimeSeconds'
+  | 'playersAliveCt'
+  | 'playersAliveT'
+  | 'totalDamage'
+  | 'enemiesBlinded'
+  | 'totalBlindDuration'
+  | 'flashAssists';
+
+const PRO_NUMERIC_FIELDS: { field: NumericField; step?: number }[] = [
+  { field: 'roundNumber' },
+  { field: 'roundTimeSeconds', step: 0.1 },
+  { field: 'playersAliveCt' },
+  { field: 'playersAliveT' },
+  { field: 'totalDamage' },
+  { field: 'enemiesBlinded' },
+  { field: 'totalBlindDuration', step: 0.1 },
+  { field: 'flashAssists' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 bg-[#12121a] border border-[#2a2a3e] rounded-lg text-sm text-white placeholder-[#555577] focus:border-[#f0a500] focus:outline-none';
+
+export default function LineupEditorPage() {
+  const { displayName, color } = useMapRegistry();
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+
+  const [lineup, setLineup] = useState<Lineup | null>(null);
+  const [draft, setDraft] = useState<LineupUpdateData>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [editingPositions, setEditingPositions] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    lineupsApi
+      .getById(id)
+      .then((data) => {
+        if (cancelled) return;
+        setLineup(data);
+        setDraft(toLineupDraft(data));
+      })
+      .catch(() => { if (!cancelled) toast.error('Failed to load lineup'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [id]);
+
+  const setField = useCallback(<K extends EditableLineupField>(field: K, value: LineupUpdateData[K]) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  }, []);
+
+  const errors = useMemo(() => validateLineupUpdate(draft), [draft]);
+  const hasErrors = Object.keys(errors).length > 0;
+  const changes = useMemo(() => (lineup ? diffLineup(lineup, draft) : []), [lineup, draft]);
+
+  // The radar shows the draft positions so dragged points stay where they were dropped
+  const radarLineup = useMemo(() => {
+    if (!lineup) return null;
+    return {
+      ...lineup,
+      throwPosition: draft.throwPosition ?? lineup.throwPosition,
+      landingPosition: draft.landingPosition ?? lineup.landingPosition,
+      releasePosition: draft.releasePosition ?? lineup.releasePosition,
+    };
+  }, [lineup, draft]);
+
+  const handlePositionChange = useCallback(
+    (_lineupId: string, field: LineupPositionField, position: { x: number; y: number; z: number }) => {
+      setField(field, position);
+    },
+    [setField],
+  );
+
+  const handleReset = () => {
+    if (!lineup) return;
+    setDraft(toLineupDraft(lineup));
+    setTagInput('');
+  };
+
+  const handleReview = () => {
+    if (hasErrors) {
+      toast.error('Fix the highlighted fields first');
+      return;
+    }
+    if (changes.length === 0) {
+      toast('No changes to save');
+      return;
+    }
+    setShowDiff(true);
+  };
+
+  const handleSave = async () => {
+    if (!lineup) return;
+    setSaving(true);
+    try {
+      const updated = await lineupsApi.update(lineup.id, changesToPayload(changes));
+      setLineup(updated);
+      setDraft(toLineupDraft(updated));
+      setShowDiff(false);
+      toast.success(`Saved ${changes.length} change${changes.length !== 1 ? 's' : ''}`);
+    } catch (err: unknown) {
+      toast.error(apiErrorMessage(err, 'Failed to save lineup'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // ── Instructions ──
+
+  const instructions = draft.instructions ?? [];
+
+  const updateInstruction = (index: number, value: string) => {
+    setField('instructions', instructions.map((step, i) => (i === index ? value : step)));
+  };
+
+  const moveInstruction = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= instructions.length) return;
+    const next = [...instructions];
+    [next[index], next[target]] = [next[target], next[index]];
+    setField('instructions', next);
+  };
+
+  // ── Tags ──
+
+  const tags = draft.tags ?? [];
+
+  const addTag = () => {
+    const tag = tagInput.trim();
+    if (!tag) return;
+    if (tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      toast.error('Tag already added');
+      return;
+    }
+    setField('tags', [...tags, tag]);
+    setTagInput('');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="flex flex-col items-center gap-4">
+          <Loader2 className="h-8 w-8 animate-spin text-[#f0a500]" />
+          <p className="text-[#6b6b8a]">Loading lineup...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!lineup) {
+    return (
+      <div className="text-center py-20">
+        <Crosshair className="w-16 h-16 text-[#6b6b8a]/30 mx-auto mb-4" />
+        <p className="text-[#e8e8e8] text-xl font-semibold mb-2">Lineup not found</p>
+        <button onClick={() => router.back()} className="btn-secondary mx-auto mt-4">
+          <ArrowLeft className="h-4 w-4" />
+          Go back
+        </button>
+      </div>
+    );
+  }
+
+  const mapColor = color(lineup.mapName);
+  const mapDisplay = displayName(lineup.mapName);
+  const teamSideOptions: string[] = [...TEAM_SIDES];
+  if (lineup.teamSide && !teamSideOptions.includes(lineup.teamSide)) teamSideOptions.push(lineup.teamSide);
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <button
+              onClick={() => router.back()}
+              className="p-2 rounded-lg bg-[#1a1a2e] text-[#6b6b8a] hover:text-[#e8e8e8] border border-[#2a2a3e] transition-all"
+              title="Back"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </button>
+            <div className="p-2.5 rounded-xl bg-[#f0a500]/10 border border-[#f0a500]/20">
+              <Crosshair className="w-6 h-6 text-[#f0a500]" />
+            </div>
+            <div className="min-w-0">
+              <h1 className="text-3xl font-bold text-gradient-gold truncate">Edit Lineup</h1>
+              <p className="text-sm text-[#6b6b8a] mt-0.5 truncate">
+                <span style={{ color: mapColor }}>{mapDisplay}</span>
+                {lineup.collectionName && <> · {lineup.collectionName}</>}
+                {' · '}{lineup.name}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {changes.length > 0 && (
+              <span className="text-xs text-[#f0a500]">
+                {changes.length} unsaved change{changes.length !== 1 ? 's' : ''}
+              </span>
+            )}
+            <button onClick={handleReset} disabled={changes.length === 0} className="btn-secondary">
+              <RotateCcw className="h-4 w-4" />
+              Reset
+            </button>
+            <button onClick={handleReview} disabled={changes.length === 0 || saving} className="btn-primary">
+              <GitCompare className="h-4 w-4" />
+              Review &amp; Save
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-6 items-start">
+        {/* ── Form ── */}
+        <div className="flex-1 min-w-0 space-y-5">
+          {/* General */}
+          <Section title="General">
+            <Field label={LINEUP_FIELD_LABELS.name} error={errors.name}>
+              <input
+                type="text"
+                value={draft.name ?? ''}
+                onChange={(e) => setField('name', e.target.value)}
+                className={inputClass}
+                maxLength={128}
+              />
+            </Field>
+            <Field label={LINEUP_FIELD_LABELS.description} error={errors.description}>
+              <textarea
+                value={draft.description ?? ''}
+                onChange={(e) => setField('description', e.target.value)}
+                className={`${inputClass} resize-none`}
+                rows={2}
+                placeholder="Optional description..."
+              />
+            </Field>
+            <div className="grid grid-cols-2 gap-4">
+              <Field label={LINEUP_FIELD_LABELS.grenadeType} error={errors.grenadeType}>
+                <SelectInput
+                  value={draft.grenadeType ?? ''}
+                  onChange={(v) => setField('grenadeType', v as Lineup['grenadeType'])}
+                  options={Object.entries(GRENADE_TYPES).map(([value, { label }]) => ({ value, label }))}
+                />
+              </Field>
+              <Field label={LINEUP_FIELD_LABELS.difficulty} error={errors.difficulty}>
+                <SelectInput
+                  value={draft.difficulty ?? ''}
+                  onChange={(v) => setField('difficulty', v as Lineup['difficulty'])}
+                  options={Object.entries(LINEUP_DIFFICULTIES).map(([value, { label }]) => ({ value, label }))}
+                />
+              </Field>
+            </div>
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!draft.isPublic}
+                onChange={(e) => setField('isPublic', e.target.checked)}
+                className="w-5 h-5 rounded border-[#2a2a3e] bg-[#12121a] text-[#f0a500] focus:ring-[#f0a500]/30"
+              />
+              <span className="text-sm text-[#e8e8e8]">Public lineup</span>
+            </label>
+          </Section>
+
+          {/* Throw */}
+          <Section title="Throw">
+            <div className="grid grid-cols-2 gap-4">
+              <Field label={LINEUP_FIELD_LABELS.throwType} error={errors.throwType}>
+                <input
+                  type="text"
+                  list="throw-type-suggestions"
+                  value={draft.throwType ?? ''}
+                  onChange={(e) => setField('throwType', e.target.value)}
+                  className={inputClass}
+                />
+                <datalist id="throw-type-suggestions">
+                  {THROW_TYPE_SUGGESTIONS.map((t) => <option key={t} value={t} />)}
+                </datalist>
+              </Field>
+              <Field label={LINEUP_FIELD_LABELS.throwStrength} error={errors.throwStrength}>
+                <input
+                  type="text"
+                  list="throw-strength-suggestions"
+                  value={draft.throwStrength ?? ''}
+                  onChange={(e) => setField('throwStrength', e.target.value)}
+                  className={inputClass}
+                  placeholder="Optional"
+                />
+                <datalist id="throw-strength-suggestions">
+                  {THROW_STRENGTH_SUGGESTIONS.map((t) => <option key={t} value={t} />)}
+                </datalist>
+              </Field>
+            </div>
+          </Section>
+
+          {/* Instructions */}
+          <Section title={`Instructions (${instructions.length})`}>
+            <div className="space-y-2">
+              {instructions.map((step, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <span className="w-5 text-xs text-[#6b6b8a] text-right shrink-0">{i + 1}.</span>
+                  <input
+                    type="text"
+                    value={step}
+                    onChange={(e) => updateInstruction(i, e.target.value)}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => moveInstruction(i, -1)}
+                    disabled={i === 0}
+                    className="p-1.5 rounded text-[#6b6b8a] hover:text-[#e8e8e8] disabled:opacity-30 transition-colors"
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => moveInstruction(i, 1)}
+                    disabled={i === instructions.length - 1}
+                    className="p-1.5 rounded text-[#6b6b8a] hover:text-[#e8e8e8] disabled:opacity-30 transition-colors"
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setField('instructions', instructions.filter((_, idx) => idx !== i))}
+                    className="p-1.5 rounded text-[#6b6b8a] hover:text-[#ff4444] hover:bg-[#ff4444]/10 transition-colors"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+              {errors.instructions && <p className="text-xs text-[#ff4444]">{errors.instructions}</p>}
+              <button
+                onClick={() => setField('instructions', [...instructions, ''])}
+                className="flex items-center gap-1.5 text-xs text-[#6b6b8a] hover:text-[#f0a500] transition-colors"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add step
+              </button>
+            </div>
+          </Section>
+
+          {/* Tags */}
+          <Section title="Tags">
+            <div className="flex flex-wrap gap-1.5">
+              {tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-[#f0a500]/10 text-[#f0a500] border border-[#f0a500]/20"
+                >
+                  {tag}
+                  <button
+                    onClick={() => setField('tags', tags.filter((t) => t !== tag))}
+                    className="hover:text-[#ff4444] transition-colors"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              {tags.length === 0 && <span className="text-xs text-[#555577]">No tags</span>}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addTag();
+                  }
+                }}
+                className={inputClass}
+                placeholder="Add tag and press Enter"
+              />
+              <button onClick={addTag} className="btn-secondary shrink-0">
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+            {errors.tags && <p className="text-xs text-[#ff4444]">{errors.tags}</p>}
+          </Section>
+
+          {/* Pro demo metadata */}
+          <Section title="Pro Demo Metadata">
+            <div className="grid grid-cols-3 gap-4">
+              <Field label={LINEUP_FIELD_LABELS.playerName}>
+                <input
+                  type="text"
+                  value={draft.playerName ?? ''}
+                  onChange={(e) => setField('playerName', e.target.value)}
+                  className={inputClass}
+                />
+              </Field>
+              <Field label={LINEUP_FIELD_LABELS.teamName}>
+                <input
+                  type="text"
+                  value={draft.teamName ?? ''}
+                  onChange={(e) => setField('teamName', e.target.value)}
+                  className={inputClass}
+                />
+              </Field>
+              <Field label={LINEUP_FIELD_LABELS.teamSide}>
+                <SelectInput
+                  value={draft.teamSide ?? ''}
+                  onChange={(v) => setField('teamSide', v || null)}
+                  options={[{ value: '', label: '—' }, ...teamSideOptions.map((s) => ({ value: s, label: s }))]}
+                />
+              </Field>
+            </div>
+            <div className="grid grid-cols-4 gap-4">
+              {PRO_NUMERIC_FIELDS.map(({ field, step }) => (
+                <Field key={field} label={LINEUP_FIELD_LABELS[field]} error={errors[field]}>
+                  <input
+                    type="number"
+                    step={step ?? 1}
+                    min={0}
+                    value={draft[field] ?? ''}
+                    onChange={(e) => setField(field, e.target.value === '' ? null : Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </Field>
+              ))}
+            </div>
+            <div className="flex items-center gap-6">
+              {(['roundWon', 'isPistolRound'] as const).map((field) => (
+                <label key={field} className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!draft[field]}
+                    onChange={(e) => setField(field, e.target.checked)}
+                    className="w-5 h-5 rounded border-[#2a2a3e] bg-[#12121a] text-[#f0a500] focus:ring-[#f0a500]/30"
+                  />
+                  <span className="text-sm text-[#e8e8e8]">{LINEUP_FIELD_LABELS[field]}</span>
+                </label>
+              ))}
+            </div>
+          </Section>
+        </div>
+
+        {/* ── Radar + read-only info ── */}
+        <div className="w-[420px] shrink-0 space-y-4 sticky top-8">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setEditingPositions((p) => !p)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                editingPositions
+                  ? 'bg-[#f0a500]/15 text-[#f0a500] border-[#f0a500]/50'
+                  : 'bg-[#1a1a2e] text-[#6b6b8a] border-[#2a2a3e] hover:text-[#e8e8e8]'
+              }`}
+            >
+              <Move className="h-3.5 w-3.5" />
+              {editingPositions ? 'Editing positions' : 'Edit positions'}
+            </button>
+            {editingPositions && (
+              <span className="text-[10px] text-[#6b6b8a]">Drag T / R / L · Z is kept</span>
+            )}
+          </div>
+          <MapRadar
+            mapName={lineup.mapName}
+            lineups={radarLineup ? [radarLineup] : []}
+            selectedLineupId={lineup.id}
+            editable={editingPositions}
+            onPositionChange={handlePositionChange}
+          />
+          <div className="glass rounded-xl p-4 space-y-1.5 text-xs">
+            {(['throwPosition', 'releasePosition', 'landingPosition'] as const).map((field) => {
+              const pos = radarLineup?.[field];
+              if (!pos) return null;
+              const changed = changes.some((c) => c.field === field);
+              return (
+                <InfoRow
+                  key={field}
+                  label={LINEUP_FIELD_LABELS[field].replace(' Position', '')}
+                  value={formatPosition(pos)}
+                  highlight={changed}
+                />
+              );
+            })}
+            <InfoRow
+              label="Angles"
+              value={`pitch ${lineup.throwAngles.pitch.toFixed(2)} · yaw ${lineup.throwAngles.yaw.toFixed(2)}`}
+            />
+            <InfoRow label="Movement" value={`${lineup.movementPath?.length ?? 0} samples`} />
+            <InfoRow label="Creator" value={lineup.creatorName || lineup.creatorId} />
+            <InfoRow label="Updated" value={new Date(lineup.updatedAt).toLocaleString()} />
+          </div>
+        </div>
+      </div>
+
+      {/* Diff Modal */}
+      <AnimatePresence>
+        {showDiff && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+            onClick={() => !saving && setShowDiff(false)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="glass rounded-2xl p-6 w-full max-w-2xl mx-4"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 rounded-lg bg-[#f0a500]/10">
+                  <GitCompare className="w-5 h-5 text-[#f0a500]" />
+                </div>
+                <h2 className="text-lg font-bold text-[#e8e8e8]">Review Changes</h2>
+              </div>
+
+              <div className="max-h-[50vh] overflow-y-auto rounded-xl border border-[#2a2a3e]">
+                <table className="admin-table w-full">
+                  <thead>
+                    <tr>
+                      <th>Field</th>
+                      <th>Before</th>
+                      <th>After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map(({ field, before, after }) => (
+                      <tr key={field}>
+                        <td className="text-[#6b6b8a] whitespace-nowrap">{LINEUP_FIELD_LABELS[field]}</td>
+                        <td className="text-[#ff4444]/80 line-through break-words">{formatFieldValue(before)}</td>
+                        <td className="text-[#22c55e] break-words">{formatFieldValue(after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex gap-3 mt-5">
+                <button onClick={() => setShowDiff(false)} className="btn-secondary flex-1" disabled={saving}>
+                  Cancel
+                </button>
+                <button onClick={handleSave} className="btn-primary flex-1" disabled={saving}>
+                  {saving ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Check className="h-4 w-4" />
+                      Save {changes.length} change{changes.length !== 1 ? 's' : ''}
+                    </>
+                  )}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function formatPosition(p: { x: number; y: number; z: number }) {
+  return `${p.x.toFixed(1)}, ${p.y.toFixed(1)}, ${p.z.toFixed(1)}`;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="glass rounded-xl p-5 space-y-4">
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-[#6b6b8a]">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function Field({ label, error, children }: { label: string; error?: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <label className="block text-xs text-[#6b6b8a] mb-1">{label}</label>
+      {children}
+      {error && <p className="text-xs text-[#ff4444] mt-1">{error}</p>}
+    </div>
+  );
+}
+
+function SelectInput({
+  value, onChange, options,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+}) {
+  return (
+    <div className="relative">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${inputClass} appearance-none cursor-pointer pr-10`}
+      >
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+      <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+    </div>
+  );
+}
+
+function InfoRow({ label, value, highlight = false }: { label: string; value: string; highlight?: boolean }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-[#6b6b8a]">{label}</span>
+      <span className={`font-mono truncate ${highlight ? 'text-[#f0a500]' : 'text-[#e8e8e8]'}`}>{value}</span>
+    </div>
+  );
+}
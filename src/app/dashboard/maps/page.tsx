@@ -0,0 +1,365 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  Globe,
+  ChevronUp,
+  ChevronDown,
+  Eye,
+  EyeOff,
+  Trash2,
+  Plus,
+  Upload,
+  RotateCcw,
+  Save,
+  Loader2,
+  Ruler,
+  X,
+} from 'lucide-react';
+import { apiErrorMessage } from '@/lib/api';
+import type { MapDefinition } from '@/lib/types';
+import { BUILT_IN_MAPS, DEFAULT_MAP_COLOR, parseCalibrationFile, validateMapDefinition } from '@/lib/map-registry';
+import { MAP_COORDINATES } from '@/lib/map-coordinates';
+import { useAuthStore } from '@/store/auth-store';
+import { useMapRegistry } from '@/store/map-registry-store';
+import toast from 'react-hot-toast';
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-[#12121a] border border-[#2a2a3e] text-sm text-[#e8e8e8] placeholder-[#6b6b8a] focus:outline-none focus:border-[#f0a500]/50 transition-all disabled:opacity-60';
+
+const emptyNewMap = { name: '', displayName: '', color: DEFAULT_MAP_COLOR };
+
+export default function MapsPage() {
+  const { user } = useAuthStore();
+  const { allMaps, source, loaded, save } = useMapRegistry();
+  const canEdit = user?.role === 'admin';
+  // Unsaved edits; null while the page shows the registry as loaded
+  const [draft, setDraft] = useState<MapDefinition[] | null>(null);
+  const [newMap, setNewMap] = useState(emptyNewMap);
+  const [saving, setSaving] = useState(false);
+  const [importTarget, setImportTarget] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = draft ?? allMaps;
+  const builtInNames = new Set(BUILT_IN_MAPS.map((m) => m.name));
+
+  const edit = (update: (maps: MapDefinition[]) => MapDefinition[]) =>
+    setDraft((prev) => update(prev ?? allMaps).map((m, i) => ({ ...m, sortOrder: i })));
+
+  const updateMap = (name: string, changes: Partial<MapDefinition>) =>
+    edit((maps) => maps.map((m) => (m.name === name ? { ...m, ...changes } : m)));
+
+  const moveMap = (index: number, delta: number) =>
+    edit((maps) => {
+      const next = [...maps];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + delta, 0, moved);
+      return next;
+    });
+
+  const handleAdd = () => {
+    const map: MapDefinition = {
+      name: newMap.name.trim(),
+      displayName: newMap.displayName.trim(),
+      color: newMap.color,
+      enabled: true,
+      sortOrder: rows.length,
+    };
+    const error = validateMapDefinition(map, [...rows, map]);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    edit((maps) => [...maps, map]);
+    setNewMap(emptyNewMap);
+  };
+
+  const handleRemove = (map: MapDefinition) => {
+    if (!confirm(`Remove ${map.displayName} from the registry? Lineups on it keep their map name.`)) return;
+    edit((maps) => maps.filter((m) => m.name !== map.name));
+  };
+
+  const openCalibrationImport = (name: string) => {
+    setImportTarget(name);
+    fileInputRef.current?.click();
+  };
+
+  const handleCalibrationFile = async (file: File) => {
+    if (!importTarget) return;
+    try {
+      const { mapName, config } = parseCalibrationFile(JSON.parse(await file.text()));
+      if (mapName && mapName !== importTarget) throw new Error(`This calibration is for ${mapName}`);
+      updateMap(importTarget, { calibration: config });
+      toast.success('Calibration imported — save to apply it');
+    } catch (err) {
+      toast.error(err instanceof SyntaxError ? 'File is not valid JSON' : (err as Error).message);
+    } finally {
+      setImportTarget(null);
+    }
+  };
+
+  const handleReset = () => {
+    if (!confirm('Replace the registry with the built-in map list? Custom maps and calibrations are dropped on save.')) return;
+    setDraft(BUILT_IN_MAPS);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    for (const map of draft) {
+      const error = validateMapDefinition(map, draft);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+    }
+    if (!draft.some((m) => m.enabled)) {
+      toast.error('At least one map must stay enabled');
+      return;
+    }
+    setSaving(true);
+    try {
+      await save(draft);
+      setDraft(null);
+      toast.success('Map registry saved');
+    } catch (err: unknown) {
+      toast.error(apiErrorMessage(err, 'Failed to save maps'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 rounded-xl bg-[#22c55e]/10 border border-[#22c55e]/20">
+              <Globe className="w-6 h-6 text-[#22c55e]" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gradient-gold">Maps</h1>
+            </div>
+          </div>
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              <button onClick={handleReset} className="btn-secondary flex items-center gap-2">
+                <RotateCcw className="h-4 w-4" />
+                Built-in maps
+              </button>
+              {draft && (
+                <button onClick={() => setDraft(null)} className="btn-secondary flex items-center gap-2">
+                  <X className="h-4 w-4" />
+                  Discard
+                </button>
+              )}
+              <button onClick={handleSave} disabled={!draft || saving} className="btn-primary flex items-center gap-2">
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save
+              </button>
+            </div>
+          )}
+        </div>
+        <p className="text-[#6b6b8a] text-lg ml-[52px] mt-2">
+          Choose which maps the dashboard offers, their order, colours and radar calibration
+        </p>
+      </div>
+
+      {loaded && source === 'built-in' && (
+        <p className="text-xs text-[#f59e0b] mb-4">
+          The server has no map registry yet; showing the built-in maps. Saving creates the registry.
+        </p>
+      )}
+
+      <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="glass rounded-xl overflow-hidden">
+        <div className="divide-y divide-[#2a2a3e]/60">
+          {rows.map((map, index) => (
+            <MapRow
+              key={map.name}
+              map={map}
+              index={index}
+              count={rows.length}
+              canEdit={canEdit}
+              builtIn={builtInNames.has(map.name)}
+              onChange={(changes) => updateMap(map.name, changes)}
+              onMove={(delta) => moveMap(index, delta)}
+              onRemove={() => handleRemove(map)}
+              onImportCalibration={() => openCalibrationImport(map.name)}
+            />
+          ))}
+        </div>
+
+        {canEdit && (
+          <div className="flex items-end gap-3 p-4 border-t border-[#2a2a3e] bg-[#0a0a0f]/40">
+            <div className="w-48">
+              <label className="block text-xs font-medium text-[#6b6b8a] mb-1">Map name</label>
+              <input
+                value={newMap.name}
+                onChange={(e) => setNewMap((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="de_newmap"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-[#6b6b8a] mb-1">Display name</label>
+              <input
+                value={newMap.displayName}
+                onChange={(e) => setNewMap((prev) => ({ ...prev, displayName: e.target.value }))}
+                placeholder="New Map"
+                className={inputClass}
+              />
+            </div>
+            <input
+              type="color"
+              value={newMap.color}
+              onChange={(e) => setNewMap((prev) => ({ ...prev, color: e.target.value }))}
+              className="h-9 w-12 rounded-lg bg-transparent border border-[#2a2a3e] cursor-pointer"
+              title="Map colour"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!newMap.name.trim()}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#f0a500]/10 text-sm font-medium text-[#f0a500] border border-[#f0a500]/30 hover:bg-[#f0a500]/20 transition-all disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              Add map
+            </button>
+          </div>
+        )}
+      </motion.div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleCalibrationFile(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
+
+// ─── Sub-components ───
+
+function MapRow({
+  map,
+  index,
+  count,
+  canEdit,
+  builtIn,
+  onChange,
+  onMove,
+  onRemove,
+  onImportCalibration,
+}: {
+  map: MapDefinition;
+  index: number;
+  count: number;
+  canEdit: boolean;
+  builtIn: boolean;
+  onChange: (changes: Partial<MapDefinition>) => void;
+  onMove: (delta: number) => void;
+  onRemove: () => void;
+  onImportCalibration: () => void;
+}) {
+  const calibrationLabel = map.calibration
+    ? 'Custom calibration'
+    : MAP_COORDINATES[map.name]
+      ? 'Built-in calibration'
+      : 'Not calibrated';
+
+  return (
+    <div className={`flex items-center gap-3 px-4 py-3 ${map.enabled ? '' : 'opacity-50'}`}>
+      <div className="flex flex-col">
+        <button
+          onClick={() => onMove(-1)}
+          disabled={!canEdit || index === 0}
+          className="p-0.5 text-[#6b6b8a] hover:text-[#e8e8e8] disabled:opacity-30 disabled:hover:text-[#6b6b8a]"
+          title="Move up"
+        >
+          <ChevronUp className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => onMove(1)}
+          disabled={!canEdit || index === count - 1}
+          className="p-0.5 text-[#6b6b8a] hover:text-[#e8e8e8] disabled:opacity-30 disabled:hover:text-[#6b6b8a]"
+          title="Move down"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </button>
+      </div>
+
+      <input
+        type="color"
+        value={map.color}
+        onChange={(e) => onChange({ color: e.target.value })}
+        disabled={!canEdit}
+        className="h-9 w-12 rounded-lg bg-transparent border border-[#2a2a3e] cursor-pointer disabled:cursor-default"
+        title="Map colour"
+      />
+
+      <div className="w-64">
+        <input
+          value={map.displayName}
+          onChange={(e) => onChange({ displayName: e.target.value })}
+          disabled={!canEdit}
+          className={inputClass}
+        />
+      </div>
+
+      <span className="w-36 font-mono text-xs text-[#6b6b8a] truncate">{map.name}</span>
+
+      <span
+        className={`flex items-center gap-1.5 text-xs ${
+          map.calibration ? 'text-[#06b6d4]' : MAP_COORDINATES[map.name] ? 'text-[#9b9bba]' : 'text-[#f59e0b]'
+        }`}
+      >
+        <Ruler className="h-3.5 w-3.5" />
+        {calibrationLabel}
+      </span>
+
+      {canEdit && (
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={onImportCalibration}
+            className="p-2 rounded-lg text-[#6b6b8a] hover:text-[#06b6d4] hover:bg-[#06b6d4]/10 transition-all"
+            title="Import calibration JSON"
+          >
+            <Upload className="h-4 w-4" />
+          </button>
+          {map.calibration && (
+            <button
+              onClick={() => onChange({ calibration: null })}
+              className="p-2 rounded-lg text-[#6b6b8a] hover:text-[#e8e8e8] hover:bg-[#2a2a3e] transition-all"
+              title="Drop custom calibration"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={() => onChange({ enabled: !map.enabled })}
+            className={`p-2 rounded-lg transition-all ${
+              map.enabled ? 'text-[#22c55e] hover:bg-[#22c55e]/10' : 'text-[#6b6b8a] hover:bg-[#2a2a3e]'
+            }`}
+            title={map.enabled ? 'Disable' : 'Enable'}
+          >
+            {map.enabled ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={onRemove}
+            disabled={builtIn}
+            className="p-2 rounded-lg text-[#6b6b8a] hover:text-[#ef4444] hover:bg-[#ef4444]/10 transition-all disabled:opacity-30 disabled:hover:text-[#6b6b8a] disabled:hover:bg-transparent"
+            title={builtIn ? 'Built-in maps can be disabled but not removed' : 'Remove'}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
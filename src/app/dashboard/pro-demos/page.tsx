@@ -0,0 +1,476 @@
+'use client';
+
+import { useEffect, useState, useMemo } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import {
+  Film,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  EyeOff,
+  Trash2,
+  Edit2,
+  CircleArrowUp,
+  Play,
+} from 'lucide-react';
+import { collectionsApi, hiddenLineupsApi, lineupsApi } from '@/lib/api';
+import { useAuthStore } from '@/store/auth-store';
+import { GRENADE_TYPES } from '@/lib/constants';
+import type { Lineup, LineupCollection } from '@/lib/types';
+import { formatRoundTime, groupProDemos, type ProDemoGroup, type ProRound } from '@/lib/pro-stats';
+import MapRadar from '@/components/ui/MapRadar';
+import RoundTimeline, { lineupsAtTime } from '@/components/ui/RoundTimeline';
+import { useMapRegistry, useSelectedMap } from '@/store/map-registry-store';
+import toast from 'react-hot-toast';
+
+type DemoAction = 'hide' | 'promote' | 'delete';
+
+const shortId = (id: string | null) => (id ? (id.length > 12 ? `${id.slice(0, 12)}…` : id) : 'Unknown');
+
+export default function ProDemosPage() {
+  const { maps } = useMapRegistry();
+  const { user } = useAuthStore();
+  const [mapName, setMapName] = useSelectedMap();
+  const [lineups, setLineups] = useState<Lineup[]>([]);
+  const [collections, setCollections] = useState<LineupCollection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedDemo, setExpandedDemo] = useState<string | null>(null);
+  const [selectedLineupId, setSelectedLineupId] = useState<string | null>(null);
+  // Round shown on the timeline, within the expanded demo
+  const [timelineRound, setTimelineRound] = useState<number | null | undefined>(undefined);
+  const [roundTime, setRoundTime] = useState(0);
+  // Collection that "Promote" adds a demo's lineups to
+  const [promoteTargetId, setPromoteTargetId] = useState('');
+  const [running, setRunning] = useState<{ action: DemoAction; demoKey: string; done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    loadData(mapName);
+  }, [mapName]);
+
+  const loadData = async (map: string) => {
+    setLoading(true);
+    setExpandedDemo(null);
+    setSelectedLineupId(null);
+    setTimelineRound(undefined);
+    try {
+      const [presets, cols] = await Promise.all([lineupsApi.getPresets(map), collectionsApi.getAll(map)]);
+      const colList = Array.isArray(cols) ? cols : [];
+      setLineups(Array.isArray(presets) ? presets : []);
+      setCollections(colList);
+      setPromoteTargetId((prev) =>
+        colList.some((c) => c.id === prev) ? prev : (colList.find((c) => c.isDefault) ?? colList[0])?.id ?? '',
+      );
+    } catch {
+      toast.error('Failed to load lineups');
+      setLineups([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const matches = useMemo(() => groupProDemos(lineups), [lineups]);
+  const demoCount = matches.reduce((sum, m) => sum + m.demos.length, 0);
+  const expanded = matches.flatMap((m) => m.demos).find((d) => d.key === expandedDemo) ?? null;
+  const activeRound =
+    timelineRound === undefined ? null : expanded?.rounds.find((r) => r.roundNumber === timelineRound) ?? null;
+
+  const radarLineups = useMemo(
+    () =>
+      (activeRound ? lineupsAtTime(activeRound.lineups, roundTime) : expanded?.lineups ?? []).map((l) => ({
+        id: l.id,
+        name: l.name,
+        grenadeType: l.grenadeType,
+        throwPosition: l.throwPosition,
+        landingPosition: l.landingPosition,
+        releasePosition: l.releasePosition,
+        movementPath: l.movementPath,
+      })),
+    [expanded, activeRound, roundTime],
+  );
+
+  const playRound = (round: ProRound) => {
+    setTimelineRound(round.roundNumber);
+    setRoundTime(0);
+    setSelectedLineupId(null);
+  };
+
+  // Acts on a whole demo, or on one of its rounds when given
+  const runAction = async (action: DemoAction, demo: ProDemoGroup, round?: ProRound) => {
+    const targets = round?.lineups ?? demo.lineups;
+    const count = targets.length;
+    const label = `${count} lineup${count !== 1 ? 's' : ''}`;
+    const scope = round ? 'round' : 'demo';
+    const target = collections.find((c) => c.id === promoteTargetId);
+    if (action === 'promote') {
+      if (!target) {
+        toast.error('Choose a collection to promote into');
+        return;
+      }
+      if (!confirm(`Add ${label} from this ${scope} to "${target.name}"?`)) return;
+    } else if (action === 'hide') {
+      if (!confirm(`Hide ${label} from this ${scope}? They will be skipped by future pro imports.`)) return;
+    } else {
+      if (user?.role !== 'admin') {
+        toast.error('Only admins can delete lineups');
+        return;
+      }
+      if (!confirm(`Delete ${label} from this ${scope}? This cannot be undone.`)) return;
+    }
+
+    setRunning({ action, demoKey: demo.key, done: 0, total: count });
+    const succeeded = new Set<string>();
+    for (const lineup of targets) {
+      try {
+        if (action === 'promote') {
+          await collectionsApi.addLineup(target!.id, lineup.id);
+        } else if (action === 'hide') {
+          await hiddenLineupsApi.hide(lineup.id, `Bad demo ${demo.demoId ?? demo.matchId ?? ''}`.trim());
+        } else {
+          await lineupsApi.delete(lineup.id);
+        }
+        succeeded.add(lineup.id);
+      } catch {
+        // Counted below; the lineup stays in the list
+      }
+      setRunning((prev) => (prev ? { ...prev, done: prev.done + 1 } : prev));
+    }
+
+    if (action === 'promote') {
+      setCollections((prev) =>
+        prev.map((c) => (c.id === target!.id ? { ...c, lineupCount: c.lineupCount + succeeded.size } : c)),
+      );
+    } else {
+      setLineups((prev) => prev.filter((l) => !succeeded.has(l.id)));
+      if (selectedLineupId && succeeded.has(selectedLineupId)) setSelectedLineupId(null);
+    }
+    const verb = action === 'promote' ? 'Added' : action === 'hide' ? 'Hid' : 'Deleted';
+    if (succeeded.size === count) {
+      toast.success(`${verb} ${label}`);
+    } else {
+      // Promoting fails for lineups already in the collection
+      toast.error(`${verb} ${succeeded.size} of ${label}`);
+    }
+    setRunning(null);
+  };
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-xl bg-[#a855f7]/10 border border-[#a855f7]/20">
+            <Film className="w-6 h-6 text-[#a855f7]" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient-gold">Pro Demos</h1>
+          </div>
+        </div>
+        <p className="text-[#6b6b8a] text-lg ml-[52px] mt-2">
+          Preset lineups grouped by the match and demo they were imported from
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="relative">
+          <select
+            value={mapName}
+            onChange={(e) => setMapName(e.target.value)}
+            className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-2 pr-10"
+          >
+            {maps.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.displayName}
+              </option>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+        </div>
+
+        <span className="text-sm text-[#6b6b8a]">
+          {matches.length} match{matches.length !== 1 ? 'es' : ''} · {demoCount} demo{demoCount !== 1 ? 's' : ''}
+        </span>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <span className="text-sm text-[#6b6b8a]">Promote into</span>
+          <div className="relative">
+            <select
+              value={promoteTargetId}
+              onChange={(e) => setPromoteTargetId(e.target.value)}
+              disabled={collections.length === 0}
+              className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-2 pr-10 disabled:opacity-50"
+            >
+              {collections.length === 0 && <option value="">No collections</option>}
+              {collections.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}{c.isDefault ? ' (preset)' : ''}
+                </option>
+              ))}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-[#f0a500]" />
+        </div>
+      ) : matches.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center py-20"
+        >
+          <Film className="w-16 h-16 text-[#6b6b8a]/30 mx-auto mb-4" />
+          <p className="text-[#e8e8e8] text-xl font-semibold mb-2">
+            No pro demos
+          </p>
+          <p className="text-[#6b6b8a]">
+            None of this map&apos;s preset lineups carry a match or demo reference
+          </p>
+        </motion.div>
+      ) : (
+        <div className="flex gap-6">
+          {/* Map Radar */}
+          <div className="w-96 shrink-0">
+            <div className="sticky top-8">
+              <MapRadar
+                mapName={mapName}
+                lineups={radarLineups}
+                selectedLineupId={selectedLineupId}
+                onLineupClick={(l) => setSelectedLineupId(l.id === selectedLineupId ? null : l.id)}
+              />
+              {expanded && activeRound && (
+                <div className="mt-3">
+                  <RoundTimeline
+                    lineups={activeRound.lineups}
+                    time={roundTime}
+                    onTimeChange={setRoundTime}
+                    selectedLineupId={selectedLineupId}
+                    onLineupClick={(l) => setSelectedLineupId(l.id)}
+                    title={`${activeRound.roundNumber !== null ? `Round ${activeRound.roundNumber}` : 'No round'}${
+                      expanded.teams.length > 0 ? ` · ${expanded.teams.join(' vs ')}` : ''
+                    }`}
+                    onPack={promoteTargetId && running === null ? () => runAction('promote', expanded, activeRound) : undefined}
+                  />
+                </div>
+              )}
+              {!expanded && (
+                <p className="text-xs text-[#6b6b8a] text-center mt-2">Expand a demo to show its lineups</p>
+              )}
+            </div>
+          </div>
+
+          {/* Matches */}
+          <div className="flex-1 min-w-0 space-y-4">
+            {matches.map((match) => (
+              <div key={match.key} className="glass rounded-xl p-4">
+                <div className="flex items-center gap-3 mb-3">
+                  <span className="text-sm font-semibold text-[#e8e8e8]">
+                    Match <span className="font-mono">{shortId(match.matchId)}</span>
+                  </span>
+                  <span className="text-xs text-[#6b6b8a]">
+                    {match.demos.length} demo{match.demos.length !== 1 ? 's' : ''} · {match.lineupCount} lineups
+                  </span>
+                </div>
+
+                <div className="space-y-2">
+                  {match.demos.map((demo) => (
+                    <DemoCard
+                      key={demo.key}
+                      demo={demo}
+                      isExpanded={demo.key === expandedDemo}
+                      onToggle={() => {
+                        setExpandedDemo(demo.key === expandedDemo ? null : demo.key);
+                        setSelectedLineupId(null);
+                        setTimelineRound(undefined);
+                      }}
+                      selectedLineupId={selectedLineupId}
+                      onSelectLineup={(id) => setSelectedLineupId(id === selectedLineupId ? null : id)}
+                      activeRound={demo.key === expandedDemo ? activeRound : null}
+                      onPlayRound={playRound}
+                      canDelete={user?.role === 'admin'}
+                      canPromote={!!promoteTargetId}
+                      running={running?.demoKey === demo.key ? running : null}
+                      busy={running !== null}
+                      onAction={(action) => runAction(action, demo)}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function DemoCard({
+  demo, isExpanded, onToggle, selectedLineupId, onSelectLineup, activeRound, onPlayRound, canDelete, canPromote, running, busy, onAction,
+}: {
+  demo: ProDemoGroup;
+  isExpanded: boolean;
+  onToggle: () => void;
+  selectedLineupId: string | null;
+  onSelectLineup: (id: string) => void;
+  activeRound: ProRound | null;
+  onPlayRound: (round: ProRound) => void;
+  canDelete: boolean;
+  canPromote: boolean;
+  running: { action: DemoAction; done: number; total: number } | null;
+  busy: boolean;
+  onAction: (action: DemoAction) => void;
+}) {
+  const buttons: { action: DemoAction; label: string; icon: typeof EyeOff; hover: string; title: string }[] = [
+    {
+      action: 'promote',
+      label: 'Promote',
+      icon: CircleArrowUp,
+      hover: 'hover:text-[#22c55e] hover:border-[#22c55e]/30',
+      title: 'Add every lineup from this demo to the chosen collection',
+    },
+    {
+      action: 'hide',
+      label: 'Hide',
+      icon: EyeOff,
+      hover: 'hover:text-[#6366f1] hover:border-[#6366f1]/30',
+      title: 'Hide every lineup from this demo from pro imports',
+    },
+  ];
+  if (canDelete) {
+    buttons.push({
+      action: 'delete',
+      label: 'Delete',
+      icon: Trash2,
+      hover: 'hover:text-[#ff4444] hover:border-[#ff4444]/30',
+      title: 'Delete every lineup from this demo',
+    });
+  }
+
+  return (
+    <div className={`rounded-xl border transition-all ${isExpanded ? 'border-[#f0a500]/30 bg-[#12121a]' : 'border-[#2a2a3e]'}`}>
+      <div onClick={onToggle} className="flex items-center gap-3 px-3 py-2.5 cursor-pointer">
+        <ChevronRight
+          className={`h-4 w-4 shrink-0 transition-transform ${isExpanded ? 'rotate-90 text-[#f0a500]' : 'text-[#6b6b8a]'}`}
+        />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-[#e8e8e8] font-medium">
+              Demo <span className="font-mono">{shortId(demo.demoId)}</span>
+            </span>
+            {demo.teams.length > 0 && (
+              <span className="text-xs text-[#9b9bba] truncate">{demo.teams.join(' vs ')}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-3 text-[11px] text-[#6b6b8a] mt-0.5">
+            <span>{demo.lineups.length} lineups</span>
+            <span>{demo.rounds.filter((r) => r.roundNumber !== null).length} rounds</span>
+            <span>{demo.players.length} players</span>
+            {(Object.keys(GRENADE_TYPES) as Lineup['grenadeType'][]).map((type) => {
+              const n = demo.lineups.filter((l) => l.grenadeType === type).length;
+              return n > 0 ? (
+                <span key={type} style={{ color: GRENADE_TYPES[type].color }}>
+                  {n} {GRENADE_TYPES[type].label.toLowerCase()}
+                </span>
+              ) : null;
+            })}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {buttons.map(({ action, label, icon: Icon, hover, title }) => (
+            <button
+              key={action}
+              onClick={(e) => {
+                e.stopPropagation();
+                onAction(action);
+              }}
+              disabled={busy || (action === 'promote' && !canPromote)}
+              className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[#1a1a2e] text-[#6b6b8a] border border-[#2a2a3e] transition-all disabled:opacity-50 ${hover}`}
+              title={title}
+            >
+              {running?.action === action ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Icon className="h-3.5 w-3.5" />}
+              {running?.action === action ? `${running.done}/${running.total}` : label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-[#2a2a3e] px-3 py-2 space-y-2">
+          {demo.rounds.map((round) => (
+            <div
+              key={round.roundNumber ?? 'none'}
+              className={`flex gap-3 rounded-lg ${round === activeRound ? 'bg-[#f0a500]/5' : ''}`}
+            >
+              <div className="w-20 shrink-0 pt-1 flex items-start gap-1">
+                {round.lineups.some((l) => l.roundTimeSeconds !== undefined) && (
+                  <button
+                    onClick={() => onPlayRound(round)}
+                    className={`p-0.5 rounded transition-colors ${
+                      round === activeRound ? 'text-[#f0a500]' : 'text-[#6b6b8a] hover:text-[#f0a500]'
+                    }`}
+                    title="Show on the round timeline"
+                  >
+                    <Play className="h-3 w-3" />
+                  </button>
+                )}
+                <span className="text-xs font-semibold text-[#e8e8e8]">
+                  {round.roundNumber !== null ? `R${round.roundNumber}` : 'No round'}
+                </span>
+                {round.roundWon !== null && (
+                  <span className={`ml-1.5 text-[10px] font-semibold ${round.roundWon ? 'text-[#22c55e]' : 'text-[#ff4444]'}`}>
+                    {round.roundWon ? 'W' : 'L'}
+                  </span>
+                )}
+              </div>
+              <div className="flex-1 min-w-0 space-y-0.5">
+                {round.lineups.map((lineup) => {
+                  const gt = GRENADE_TYPES[lineup.grenadeType];
+                  return (
+                    <div
+                      key={lineup.id}
+                      onClick={() => onSelectLineup(lineup.id)}
+                      className={`flex items-center gap-2 px-2 py-1 rounded-lg text-sm cursor-pointer transition-colors ${
+                        lineup.id === selectedLineupId ? 'bg-[#1a1a2e] ring-1 ring-[#f0a500]/30' : 'hover:bg-[#1a1a2e]/50'
+                      }`}
+                    >
+                      <span className="text-[10px] font-mono text-[#6b6b8a] w-9 shrink-0 tabular-nums">
+                        {formatRoundTime(lineup.roundTimeSeconds)}
+                      </span>
+                      <span
+                        className="text-[9px] font-bold px-1.5 py-0.5 rounded-full uppercase shrink-0"
+                        style={{ backgroundColor: `${gt.color}18`, color: gt.color }}
+                      >
+                        {gt.label.slice(0, 2)}
+                      </span>
+                      <span className="text-[#e8e8e8] truncate flex-1">{lineup.name}</span>
+                      {lineup.teamSide && (
+                        <span className="text-[10px] text-[#6b6b8a] shrink-0 uppercase">{lineup.teamSide}</span>
+                      )}
+                      {lineup.playerName && (
+                        <span className="text-xs text-[#6b6b8a] shrink-0">{lineup.playerName}</span>
+                      )}
+                      <Link
+                        href={`/dashboard/lineups/${lineup.id}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="text-[#6b6b8a] hover:text-[#f0a500] transition-colors shrink-0"
+                        title="Edit lineup"
+                      >
+                        <Edit2 className="h-3.5 w-3.5" />
+                      </Link>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
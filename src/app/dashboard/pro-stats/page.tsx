@@ -0,0 +1,516 @@
+'use client';
+
+import { useEffect, useState, useMemo } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import {
+  BarChart3,
+  ChevronDown,
+  Loader2,
+  Trophy,
+  Zap,
+  Eye,
+  Flame,
+  Target,
+} from 'lucide-react';
+import { lineupsApi } from '@/lib/api';
+import { GRENADE_TYPES, TEAM_SIDES } from '@/lib/constants';
+import type { Lineup } from '@/lib/types';
+import {
+  isProLineup,
+  summarizeLineups,
+  groupLineupStats,
+  formatWinRate,
+  type ProStatsGroup,
+} from '@/lib/pro-stats';
+import { useMapRegistry, useSelectedMap } from '@/store/map-registry-store';
+import toast from 'react-hot-toast';
+
+type GrenadeType = Lineup['grenadeType'];
+type SideFilter = 'all' | (typeof TEAM_SIDES)[number];
+type TableSortKey = 'count' | 'winRate' | 'flashAssists' | 'enemiesBlinded' | 'totalDamage' | 'pistol';
+
+const GRENADE_KEYS = Object.keys(GRENADE_TYPES) as GrenadeType[];
+const TOP_LIST_SIZE = 10;
+
+export default function ProStatsPage() {
+  const { maps, displayName } = useMapRegistry();
+  const [mapName, setMapName] = useSelectedMap(undefined, (value) => value === 'all');
+  const [lineups, setLineups] = useState<Lineup[]>([]);
+  // Map whose lineups are shown; loading until it matches the selection, which can also change when the registry loads
+  const [loadedMap, setLoadedMap] = useState<string | null>(null);
+  const loading = loadedMap !== mapName;
+  const [sideFilter, setSideFilter] = useState<SideFilter>('all');
+  const [pistolOnly, setPistolOnly] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    lineupsApi
+      .getPresets(mapName === 'all' ? undefined : mapName)
+      .then((data) => !cancelled && setLineups((Array.isArray(data) ? data : []).filter(isProLineup)))
+      .catch(() => {
+        if (cancelled) return;
+        toast.error('Failed to load lineups');
+        setLineups([]);
+      })
+      .finally(() => !cancelled && setLoadedMap(mapName));
+    return () => {
+      cancelled = true;
+    };
+  }, [mapName]);
+
+  const filtered = useMemo(
+    () =>
+      lineups.filter((l) => {
+        if (sideFilter !== 'all' && l.teamSide?.toUpperCase() !== sideFilter) return false;
+        if (pistolOnly && !l.isPistolRound) return false;
+        return true;
+      }),
+    [lineups, sideFilter, pistolOnly],
+  );
+
+  const totals = useMemo(() => summarizeLineups('all', filtered), [filtered]);
+  const players = useMemo(() => groupLineupStats(filtered, (l) => l.playerName), [filtered]);
+  const teams = useMemo(() => groupLineupStats(filtered, (l) => l.teamName), [filtered]);
+  const mapGroups = useMemo(() => groupLineupStats(filtered, (l) => l.mapName), [filtered]);
+  const bySide = useMemo(() => groupLineupStats(filtered, (l) => l.teamSide?.toUpperCase()), [filtered]);
+  const byGrenade = useMemo(() => groupLineupStats(filtered, (l) => l.grenadeType), [filtered]);
+
+  const topFlashes = useMemo(
+    () =>
+      filtered
+        .filter((l) => l.grenadeType === 'flash' && (l.flashAssists || l.enemiesBlinded))
+        .sort(
+          (a, b) =>
+            (b.flashAssists ?? 0) - (a.flashAssists ?? 0) ||
+            (b.enemiesBlinded ?? 0) - (a.enemiesBlinded ?? 0) ||
+            (b.totalBlindDuration ?? 0) - (a.totalBlindDuration ?? 0),
+        )
+        .slice(0, TOP_LIST_SIZE),
+    [filtered],
+  );
+
+  const topDamage = useMemo(
+    () =>
+      filtered
+        .filter((l) => (l.grenadeType === 'he' || l.grenadeType === 'molotov') && l.totalDamage)
+        .sort((a, b) => (b.totalDamage ?? 0) - (a.totalDamage ?? 0))
+        .slice(0, TOP_LIST_SIZE),
+    [filtered],
+  );
+
+  // Lineup names come from the zone resolver, so the same smoke thrown in many demos shares one name
+  const wonSmokes = useMemo(
+    () =>
+      groupLineupStats(filtered.filter((l) => l.grenadeType === 'smoke' && l.roundWon), (l) => l.name).slice(
+        0,
+        TOP_LIST_SIZE,
+      ),
+    [filtered],
+  );
+
+  const pistolUtility = useMemo(
+    () =>
+      groupLineupStats(filtered.filter((l) => l.isPistolRound), (l) => `${l.grenadeType}|${l.name}`).slice(
+        0,
+        TOP_LIST_SIZE,
+      ),
+    [filtered],
+  );
+
+  const summaryCards = [
+    { label: 'Pro Lineups', value: totals.count.toLocaleString(), icon: Target, color: '#e8e8e8' },
+    { label: 'Round Win Rate', value: formatWinRate(totals.winRate), icon: Trophy, color: '#22c55e' },
+    { label: 'Flash Assists', value: totals.flashAssists.toLocaleString(), icon: Zap, color: GRENADE_TYPES.flash.color },
+    { label: 'Enemies Blinded', value: totals.enemiesBlinded.toLocaleString(), icon: Eye, color: '#60a5fa' },
+    { label: 'Utility Damage', value: totals.totalDamage.toLocaleString(), icon: Flame, color: GRENADE_TYPES.he.color },
+  ];
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-xl bg-[#22c55e]/10 border border-[#22c55e]/20">
+            <BarChart3 className="w-6 h-6 text-[#22c55e]" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient-gold">Pro Stats</h1>
+          </div>
+        </div>
+        <p className="text-[#6b6b8a] text-lg ml-[52px] mt-2">
+          Utility usage and impact from imported pro demos
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="relative">
+          <select
+            value={mapName}
+            onChange={(e) => setMapName(e.target.value)}
+            className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-xl text-sm text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-4 py-2 pr-10"
+          >
+            <option value="all">All Maps</option>
+            {maps.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.displayName}
+              </option>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#6b6b8a] pointer-events-none" />
+        </div>
+
+        <div className="flex rounded-xl border border-[#2a2a3e] overflow-hidden">
+          {(['all', ...TEAM_SIDES] as const).map((side) => (
+            <button
+              key={side}
+              onClick={() => setSideFilter(side)}
+              className={`px-3 py-2 text-sm font-medium transition-colors ${
+                sideFilter === side ? 'bg-[#f0a500]/15 text-[#f0a500]' : 'text-[#6b6b8a] hover:text-[#e8e8e8]'
+              }`}
+            >
+              {side === 'all' ? 'Both Sides' : side}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer text-sm text-[#e8e8e8]">
+          <input
+            type="checkbox"
+            checked={pistolOnly}
+            onChange={(e) => setPistolOnly(e.target.checked)}
+            className="w-4 h-4 rounded border-[#2a2a3e] bg-[#12121a] text-[#f0a500] focus:ring-[#f0a500]/30"
+          />
+          Pistol rounds only
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-[#f0a500]" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center py-20"
+        >
+          <BarChart3 className="w-16 h-16 text-[#6b6b8a]/30 mx-auto mb-4" />
+          <p className="text-[#e8e8e8] text-xl font-semibold mb-2">
+            No pro lineups
+          </p>
+          <p className="text-[#6b6b8a]">
+            Import pro demos to see utility statistics for this map
+          </p>
+        </motion.div>
+      ) : (
+        <div className="space-y-6">
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            {summaryCards.map((card) => (
+              <div key={card.label} className="glass rounded-xl p-5">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-[#6b6b8a] text-sm font-medium mb-1">{card.label}</p>
+                    <p className="text-2xl font-bold" style={{ color: card.color }}>{card.value}</p>
+                  </div>
+                  <div className="p-2.5 rounded-xl" style={{ backgroundColor: `${card.color}1a` }}>
+                    <card.icon className="h-5 w-5" style={{ color: card.color }} />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Charts */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Panel title="Utility Mix by Side">
+              {bySide.length === 0 ? (
+                <p className="text-sm text-[#6b6b8a]">No side information</p>
+              ) : (
+                <div className="space-y-4">
+                  {bySide.map((group) => (
+                    <div key={group.key}>
+                      <div className="flex items-center justify-between text-xs mb-1.5">
+                        <span className="text-[#e8e8e8] font-medium">{group.key}</span>
+                        <span className="text-[#6b6b8a]">
+                          {group.count} lineups · {formatWinRate(group.winRate)} won
+                        </span>
+                      </div>
+                      <div className="flex h-3 rounded-full overflow-hidden bg-[#1a1a2e]">
+                        {GRENADE_KEYS.map((type) =>
+                          group.byGrenade[type] > 0 ? (
+                            <div
+                              key={type}
+                              style={{
+                                width: `${(group.byGrenade[type] / group.count) * 100}%`,
+                                backgroundColor: GRENADE_TYPES[type].color,
+                              }}
+                              title={`${GRENADE_TYPES[type].label}: ${group.byGrenade[type]}`}
+                            />
+                          ) : null,
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex flex-wrap gap-3 pt-1">
+                    {GRENADE_KEYS.map((type) => (
+                      <span key={type} className="flex items-center gap-1.5 text-xs text-[#6b6b8a]">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: GRENADE_TYPES[type].color }} />
+                        {GRENADE_TYPES[type].label}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </Panel>
+
+            <Panel title="Round Win Rate by Grenade">
+              <div className="space-y-3">
+                {byGrenade.map((group) => {
+                  const gt = GRENADE_TYPES[group.key as GrenadeType];
+                  return (
+                    <BarRow
+                      key={group.key}
+                      label={gt.label}
+                      color={gt.color}
+                      value={group.winRate ?? 0}
+                      display={`${formatWinRate(group.winRate)} of ${group.won + group.lost}`}
+                    />
+                  );
+                })}
+              </div>
+            </Panel>
+          </div>
+
+          {/* Top lists */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Panel title="Top Flashes by Flash Assists">
+              <LineupTopList
+                lineups={topFlashes}
+                metric={(l) => `${l.flashAssists ?? 0} assists · ${l.enemiesBlinded ?? 0} blinded`}
+                empty="No flash impact data"
+              />
+            </Panel>
+            <Panel title="Most-Used Smokes in Won Rounds">
+              <GroupTopList
+                groups={wonSmokes}
+                label={(g) => g.key}
+                metric={(g) => `${g.count}× · ${new Set(g.lineups.map((l) => l.playerName).filter(Boolean)).size} players`}
+                empty="No smokes in won rounds"
+              />
+            </Panel>
+            <Panel title="Pistol-Round Utility">
+              <GroupTopList
+                groups={pistolUtility}
+                label={(g) => g.lineups[0].name}
+                grenadeType={(g) => g.lineups[0].grenadeType}
+                metric={(g) => `${g.count}× · ${formatWinRate(g.winRate)} won`}
+                empty="No pistol-round lineups"
+              />
+            </Panel>
+            <Panel title="Top Damage (HE & Molotov)">
+              <LineupTopList
+                lineups={topDamage}
+                metric={(l) => `${l.totalDamage ?? 0} dmg`}
+                empty="No damage data"
+              />
+            </Panel>
+          </div>
+
+          {/* Tables */}
+          <Panel title={`Players (${players.length})`}>
+            <StatsTable groups={players} label="Player" />
+          </Panel>
+          <Panel title={`Teams (${teams.length})`}>
+            <StatsTable groups={teams} label="Team" />
+          </Panel>
+          {mapName === 'all' && (
+            <Panel title={`Maps (${mapGroups.length})`}>
+              <StatsTable groups={mapGroups} label="Map" formatKey={displayName} />
+            </Panel>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass rounded-xl p-6"
+    >
+      <h2 className="text-lg font-semibold text-[#e8e8e8] mb-4">{title}</h2>
+      {children}
+    </motion.div>
+  );
+}
+
+function BarRow({ label, color, value, display }: { label: string; color: string; value: number; display: string }) {
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-20 text-xs text-[#e8e8e8] shrink-0">{label}</span>
+      <div className="flex-1 h-3 rounded-full bg-[#1a1a2e] overflow-hidden">
+        <div className="h-full rounded-full" style={{ width: `${Math.round(value * 100)}%`, backgroundColor: color }} />
+      </div>
+      <span className="w-24 text-right text-xs text-[#6b6b8a] shrink-0">{display}</span>
+    </div>
+  );
+}
+
+function GrenadeBadge({ type }: { type: GrenadeType }) {
+  const gt = GRENADE_TYPES[type];
+  return (
+    <span
+      className="text-[10px] font-bold px-2 py-0.5 rounded-full uppercase shrink-0"
+      style={{ backgroundColor: `${gt.color}15`, color: gt.color }}
+    >
+      {gt.label}
+    </span>
+  );
+}
+
+function LineupTopList({
+  lineups, metric, empty,
+}: {
+  lineups: Lineup[];
+  metric: (lineup: Lineup) => string;
+  empty: string;
+}) {
+  if (lineups.length === 0) return <p className="text-sm text-[#6b6b8a]">{empty}</p>;
+  return (
+    <div className="space-y-1">
+      {lineups.map((lineup, i) => (
+        <Link
+          key={lineup.id}
+          href={`/dashboard/lineups/${lineup.id}`}
+          className="flex items-center gap-3 px-3 py-1.5 rounded-lg hover:bg-[#1a1a2e] transition-colors"
+        >
+          <span className="text-xs text-[#6b6b8a] w-5 shrink-0">{i + 1}.</span>
+          <GrenadeBadge type={lineup.grenadeType} />
+          <span className="text-sm text-[#e8e8e8] truncate flex-1">{lineup.name}</span>
+          {lineup.playerName && <span className="text-xs text-[#6b6b8a] shrink-0">{lineup.playerName}</span>}
+          <span className="text-xs text-[#f0a500] shrink-0 tabular-nums">{metric(lineup)}</span>
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+function GroupTopList({
+  groups, label, metric, grenadeType, empty,
+}: {
+  groups: ProStatsGroup[];
+  label: (group: ProStatsGroup) => string;
+  metric: (group: ProStatsGroup) => string;
+  grenadeType?: (group: ProStatsGroup) => GrenadeType;
+  empty: string;
+}) {
+  if (groups.length === 0) return <p className="text-sm text-[#6b6b8a]">{empty}</p>;
+  return (
+    <div className="space-y-1">
+      {groups.map((group, i) => (
+        <Link
+          key={group.key}
+          href={`/dashboard/lineups/${group.lineups[0].id}`}
+          className="flex items-center gap-3 px-3 py-1.5 rounded-lg hover:bg-[#1a1a2e] transition-colors"
+          title="Open the first lineup of this group"
+        >
+          <span className="text-xs text-[#6b6b8a] w-5 shrink-0">{i + 1}.</span>
+          {grenadeType && <GrenadeBadge type={grenadeType(group)} />}
+          <span className="text-sm text-[#e8e8e8] truncate flex-1">{label(group)}</span>
+          <span className="text-xs text-[#f0a500] shrink-0 tabular-nums">{metric(group)}</span>
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+const TABLE_COLUMNS: { key: TableSortKey; label: string }[] = [
+  { key: 'count', label: 'Lineups' },
+  { key: 'winRate', label: 'Win %' },
+  { key: 'pistol', label: 'Pistol' },
+  { key: 'flashAssists', label: 'Flash Assists' },
+  { key: 'enemiesBlinded', label: 'Blinded' },
+  { key: 'totalDamage', label: 'Damage' },
+];
+
+function StatsTable({
+  groups, label, formatKey,
+}: {
+  groups: ProStatsGroup[];
+  label: string;
+  formatKey?: (key: string) => string;
+}) {
+  const [sortKey, setSortKey] = useState<TableSortKey>('count');
+  const [showAll, setShowAll] = useState(false);
+
+  const sorted = useMemo(
+    () => [...groups].sort((a, b) => (b[sortKey] ?? -1) - (a[sortKey] ?? -1)),
+    [groups, sortKey],
+  );
+  const visible = showAll ? sorted : sorted.slice(0, 15);
+
+  if (groups.length === 0) return <p className="text-sm text-[#6b6b8a]">No {label.toLowerCase()} information</p>;
+
+  return (
+    <div>
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-[#2a2a3e] text-left">
+            <th className="px-3 py-2 text-xs font-semibold uppercase tracking-wider text-[#6b6b8a]">{label}</th>
+            <th className="px-3 py-2 text-xs font-semibold uppercase tracking-wider text-[#6b6b8a]">Utility</th>
+            {TABLE_COLUMNS.map((col) => (
+              <th key={col.key} className="px-3 py-2 text-right">
+                <button
+                  onClick={() => setSortKey(col.key)}
+                  className={`text-xs font-semibold uppercase tracking-wider transition-colors ${
+                    sortKey === col.key ? 'text-[#f0a500]' : 'text-[#6b6b8a] hover:text-[#e8e8e8]'
+                  }`}
+                >
+                  {col.label}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {visible.map((group) => (
+            <tr key={group.key} className="border-b border-[#2a2a3e]/50 hover:bg-[#1a1a2e]/50 transition-colors">
+              <td className="px-3 py-2 text-sm text-[#e8e8e8]">{formatKey ? formatKey(group.key) : group.key}</td>
+              <td className="px-3 py-2">
+                <div className="flex items-center gap-2 text-xs tabular-nums">
+                  {GRENADE_KEYS.map((type) => (
+                    <span key={type} style={{ color: GRENADE_TYPES[type].color }} title={GRENADE_TYPES[type].label}>
+                      {group.byGrenade[type]}
+                    </span>
+                  ))}
+                </div>
+              </td>
+              <td className="px-3 py-2 text-sm text-right text-[#e8e8e8] tabular-nums">{group.count}</td>
+              <td className="px-3 py-2 text-sm text-right text-[#22c55e] tabular-nums">{formatWinRate(group.winRate)}</td>
+              <td className="px-3 py-2 text-sm text-right text-[#6b6b8a] tabular-nums">{group.pistol}</td>
+              <td className="px-3 py-2 text-sm text-right text-[#6b6b8a] tabular-nums">{group.flashAssists}</td>
+              <td className="px-3 py-2 text-sm text-right text-[#6b6b8a] tabular-nums">{group.enemiesBlinded}</td>
+              <td className="px-3 py-2 text-sm text-right text-[#6b6b8a] tabular-nums">{group.totalDamage}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {sorted.length > 15 && (
+        <button
+          onClick={() => setShowAll((prev) => !prev)}
+          className="mt-3 text-xs text-[#6b6b8a] hover:text-[#f0a500] transition-colors"
+        >
+          {showAll ? 'Show top 15' : `Show all ${sorted.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
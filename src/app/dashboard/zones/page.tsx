@@ -21,11 +21,40 @@ import {
   ChevronUp,
   Eye,
   EyeOff,
+  Flame,
+  Layers,
+  ShieldCheck,
+  Undo2,
+  Redo2,
+  Magnet,
+  Download,
+  Upload,
 } from 'lucide-react';
-import { zonesApi } from '@/lib/api';
-import { MAP_COORDINATES, worldToRadar, radarToWorld } from '@/lib/map-coordinates';
-import { MAPS } from '@/lib/constants';
-import type { MapZone } from '@/lib/types';
+import { zonesApi, lineupsApi } from '@/lib/api';
+import { ZONE_PRIORITY_MIN, ZONE_PRIORITY_MAX } from '@/lib/constants';
+import { worldToRadar, radarToWorld, radarLayers, layerContainsZ, layerOverlapsRange, RADAR_SIZE } from '@/lib/map-coordinates';
+import type { MapZone, Lineup } from '@/lib/types';
+import { DEFAULT_HEATMAP_FILTERS, heatmapPoints, type HeatmapFilters } from '@/lib/lineup-heatmap';
+import { validateZones, type ZoneIssue } from '@/lib/zone-validation';
+import { applyLineupRenames, type LineupRename } from '@/lib/zone-naming';
+import { nearestVertex, simplifyPolygon, midpoint, type Vertex } from '@/lib/polygon-tools';
+import {
+  completeZoneHistoryStep,
+  emptyZoneHistory,
+  pushZoneHistory,
+  zoneData,
+  type ZoneChange,
+  type ZoneHistory,
+} from '@/lib/zone-history';
+import { exportZones, type ZoneImportAction } from '@/lib/zone-transfer';
+import { downloadJson, exportFileName } from '@/lib/collection-transfer';
+import { detectZClusters, clusterZRange, clusterLabel, dominantCluster, type ZClusterResult } from '@/lib/z-clusters';
+import HeatmapLayer from '@/components/ui/HeatmapLayer';
+import UncalibratedRadar from '@/components/ui/UncalibratedRadar';
+import ZoneRenamePreview from '@/components/ui/ZoneRenamePreview';
+import ZoneImportModal from '@/components/ui/ZoneImportModal';
+import HeatmapFilterBar from '@/components/ui/HeatmapFilterBar';
+import { useMapRegistry, useSelectedMap } from '@/store/map-registry-store';
 import toast from 'react-hot-toast';
 
 const ZONE_COLORS = [
@@ -37,20 +66,33 @@ const ZONE_COLORS = [
 const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 3.0;
 const ZOOM_STEP = 0.15;
+// Vertex snapping reach and default simplify tolerance, in % of the radar width at zoom 1
+const SNAP_RADIUS = 1.2;
+const DEFAULT_SIMPLIFY_TOLERANCE = 0.5;
+
+interface ZRangeSuggestion {
+  zone: MapZone;
+  result: ZClusterResult;
+}
 
 export default function ZonesPage() {
+  const { maps, displayName, calibration } = useMapRegistry();
   // Map selection
-  const [selectedMap, setSelectedMap] = useState('de_mirage');
-  const config = MAP_COORDINATES[selectedMap];
-  const hasLayers = !!config?.lowerRadarImage;
+  const [selectedMap, setSelectedMap] = useSelectedMap('de_mirage');
+  const config = calibration(selectedMap);
+  const layers = useMemo(() => (config ? radarLayers(config) : []), [config]);
+  const hasLayers = layers.length > 1;
 
   // Zone data
   const [zones, setZones] = useState<MapZone[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
 
-  // Layer toggle (Nuke)
-  const [showLower, setShowLower] = useState(false);
+  // Layer switcher (multi-level maps); clamped for the render before a map change resets it
+  const [layerIndex, setLayerIndex] = useState(0);
+  const layer = layers[Math.min(layerIndex, layers.length - 1)];
+  // Radar image that failed to load, so a missing file shows a placeholder
+  const [failedImage, setFailedImage] = useState<string | null>(null);
 
   // Zoom/pan
   const [zoom, setZoom] = useState(1);
@@ -72,6 +114,14 @@ export default function ZonesPage() {
   const draggingVertexIdx = useRef<number | null>(null);
   const mouseDownPos = useRef<{ x: number; y: number } | null>(null);
 
+  // Vertex editing: undo history of the edited polygon, selected handle, snapping
+  const [vertexHistory, setVertexHistory] = useState<{ past: Vertex[][]; future: Vertex[][] }>({ past: [], future: [] });
+  const [selectedVertex, setSelectedVertex] = useState<number | null>(null);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [simplifyTolerance, setSimplifyTolerance] = useState(DEFAULT_SIMPLIFY_TOLERANCE);
+  // Polygon before the current vertex drag; pushed to history on the first move
+  const dragSnapshot = useRef<Vertex[] | null>(null);
+
   // Zone form
   const [formOpen, setFormOpen] = useState(false);
   const [editingZone, setEditingZone] = useState<MapZone | null>(null);
@@ -82,16 +132,35 @@ export default function ZonesPage() {
   const [formZMax, setFormZMax] = useState('');
   const [saving, setSaving] = useState(false);
 
+  // Zone-level undo/redo; history kept for another map is treated as empty
+  const [zoneHistoryState, setZoneHistory] = useState<ZoneHistory>(() => emptyZoneHistory(selectedMap));
+  const zoneHistory = zoneHistoryState.mapName === selectedMap ? zoneHistoryState : emptyZoneHistory(selectedMap);
+  const [historyBusy, setHistoryBusy] = useState(false);
+
   // Z reference
   const [zValues, setZValues] = useState<{ throwZ: number[]; landZ: number[] } | null>(null);
   const [loadingZ, setLoadingZ] = useState(false);
 
   // Bulk rename
-  const [bulkRenaming, setBulkRenaming] = useState(false);
+  const [showRenamePreview, setShowRenamePreview] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  // Z range suggestions for zones spanning several floors
+  const [zScan, setZScan] = useState<{ done: number; total: number } | null>(null);
+  const [zSuggestions, setZSuggestions] = useState<ZRangeSuggestion[] | null>(null);
 
   // Guide
   const [showGuide, setShowGuide] = useState(false);
 
+  // Lineup density overlay (preset lineups of the selected map)
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapFilters, setHeatmapFilters] = useState<HeatmapFilters>(DEFAULT_HEATMAP_FILTERS);
+  const [heatmapData, setHeatmapData] = useState<{ mapName: string; lineups: Lineup[] } | null>(null);
+
+  // Validation panel; issues are indexed in the order validateZones returns them
+  const [showValidation, setShowValidation] = useState(false);
+  const [selectedIssue, setSelectedIssue] = useState<number | null>(null);
+
   const radarRef = useRef<HTMLDivElement>(null);
 
   // ── Data loading ──
@@ -115,19 +184,56 @@ export default function ZonesPage() {
     setIsDrawing(false);
     setDrawingVertices([]);
     setFormOpen(false);
-    setShowLower(false);
+    setLayerIndex(0);
+    setSelectedIssue(null);
     setZoom(1);
     setPan({ x: 0, y: 0 });
   }, [selectedMap, loadZones]);
 
+  // Preset lineups, shared by the heatmap, the validator's coverage check and the rename preview
+  useEffect(() => {
+    if ((!showHeatmap && !showValidation && !showRenamePreview) || heatmapData?.mapName === selectedMap) return;
+    lineupsApi
+      .getPresets(selectedMap)
+      .then((data) => setHeatmapData({ mapName: selectedMap, lineups: Array.isArray(data) ? data : [] }))
+      .catch(() => toast.error('Failed to load lineups'));
+  }, [showHeatmap, showValidation, showRenamePreview, selectedMap, heatmapData?.mapName]);
+
+  const lineupsLoaded = heatmapData?.mapName === selectedMap;
+  const issues = useMemo(
+    () => (showValidation ? validateZones(zones, lineupsLoaded ? heatmapData.lineups : []) : null),
+    [showValidation, zones, lineupsLoaded, heatmapData],
+  );
+
+  const heatmap = useMemo(() => {
+    if (!showHeatmap || !config || heatmapData?.mapName !== selectedMap) return null;
+    const points = heatmapPoints(heatmapData.lineups, heatmapFilters);
+    return points
+      .filter((p) => {
+        if (!hasLayers) return true;
+        return layerContainsZ(layer, p.z);
+      })
+      .map((p) => worldToRadar(p.x, p.y, config));
+  }, [showHeatmap, config, heatmapData, selectedMap, heatmapFilters, hasLayers, layer]);
+
   // ── Radar image ──
 
-  const radarImage = useMemo(() => {
-    if (!config) return null;
-    return showLower && config.lowerRadarImage
-      ? config.lowerRadarImage
-      : config.radarImage;
-  }, [config, showLower]);
+  const radarImage = layer?.radarImage ?? null;
+
+  // Zones drawn on the radar: toggled on in the list and overlapping the current layer's heights
+  const isZoneShown = (zone: MapZone) =>
+    (visibleZoneIds === 'all' || visibleZoneIds.has(zone.id)) &&
+    (!hasLayers || layerOverlapsRange(layer, zone.zMin, zone.zMax));
+
+  // Issue markers follow the layer: lineup points by their height, zone issues by the zones drawn
+  const isIssueShown = (issue: ZoneIssue) => {
+    if (issue.kind === 'uncovered') return !hasLayers || layerContainsZ(layer, issue.point.z);
+    const ids = issue.kind === 'overlap' ? issue.zoneIds : [issue.zoneId];
+    return ids.every((id) => {
+      const zone = zones.find((z) => z.id === id);
+      return !!zone && isZoneShown(zone);
+    });
+  };
 
   // ── Convert screen coordinates to radar % (accounting for zoom/pan) ──
 
@@ -149,6 +255,141 @@ export default function ZonesPage() {
     [zoom, pan],
   );
 
+  // ── Vertex editing ──
+
+  // Vertices of the other visible zones, so shared borders can line up exactly
+  const snapTargets = useMemo(
+    () =>
+      zones
+        .filter(
+          (z) =>
+            z.id !== editingZone?.id &&
+            (visibleZoneIds === 'all' || visibleZoneIds.has(z.id)) &&
+            (!hasLayers || layerOverlapsRange(layer, z.zMin, z.zMax)),
+        )
+        .flatMap((z) => z.polygon),
+    [zones, editingZone, visibleZoneIds, layer, hasLayers],
+  );
+
+  const snapVertex = useCallback(
+    (world: Vertex, bypass: boolean): Vertex => {
+      if (!snapEnabled || bypass || !config) return world;
+      const radius = ((SNAP_RADIUS / 100) * config.scale * RADAR_SIZE) / zoom;
+      return nearestVertex(world, snapTargets, radius) ?? world;
+    },
+    [snapEnabled, config, zoom, snapTargets],
+  );
+
+  // Replace the edited polygon as one undoable step
+  const commitVertices = useCallback(
+    (next: Vertex[]) => {
+      setVertexHistory((h) => ({ past: [...h.past, drawingVertices], future: [] }));
+      setDrawingVertices(next);
+    },
+    [drawingVertices],
+  );
+
+  const resetVertexEditing = useCallback(() => {
+    setVertexHistory({ past: [], future: [] });
+    setSelectedVertex(null);
+    dragSnapshot.current = null;
+  }, []);
+
+  const undoVertices = () => {
+    const previous = vertexHistory.past[vertexHistory.past.length - 1];
+    if (!previous) return;
+    setVertexHistory({ past: vertexHistory.past.slice(0, -1), future: [drawingVertices, ...vertexHistory.future] });
+    setDrawingVertices(previous);
+    setSelectedVertex(null);
+  };
+
+  const redoVertices = () => {
+    const [next, ...rest] = vertexHistory.future;
+    if (!next) return;
+    setVertexHistory({ past: [...vertexHistory.past, drawingVertices], future: rest });
+    setDrawingVertices(next);
+    setSelectedVertex(null);
+  };
+
+  const deleteVertex = (index: number) => {
+    if (drawingVertices.length <= 3) {
+      toast.error('Minimum 3 vertices required');
+      return;
+    }
+    commitVertices(drawingVertices.filter((_, i) => i !== index));
+    setSelectedVertex(null);
+  };
+
+  // Adds a vertex halfway along the edge after the given one
+  const insertVertexAfter = (index: number) => {
+    const next = [...drawingVertices];
+    next.splice(index + 1, 0, midpoint(drawingVertices[index], drawingVertices[(index + 1) % drawingVertices.length]));
+    commitVertices(next);
+    setSelectedVertex(index + 1);
+  };
+
+  const simplifyTolerancePx = config ? (simplifyTolerance / 100) * config.scale * RADAR_SIZE : 0;
+  const simplifiedCount = useMemo(
+    () => simplifyPolygon(drawingVertices, simplifyTolerancePx).length,
+    [drawingVertices, simplifyTolerancePx],
+  );
+
+  const handleSimplify = () => {
+    const next = simplifyPolygon(drawingVertices, simplifyTolerancePx);
+    if (next.length === drawingVertices.length) {
+      toast('Nothing to simplify at this tolerance');
+      return;
+    }
+    commitVertices(next);
+    setSelectedVertex(null);
+  };
+
+  const nudgeVertex = (index: number, dx: number, dy: number) =>
+    commitVertices(drawingVertices.map((v, i) => (i === index ? { x: v.x + dx, y: v.y + dy } : v)));
+
+  // Shortcuts while a polygon is being edited; ignored while typing in the form
+  useEffect(() => {
+    if (!formOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+        e.preventDefault();
+        if (key === 'y' || e.shiftKey) redoVertices();
+        else undoVertices();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (key === 's') {
+        if (e.shiftKey) handleSimplify();
+        else setSnapEnabled((prev) => !prev);
+        return;
+      }
+      if (selectedVertex === null) return;
+      if (key === 'delete' || key === 'backspace') {
+        e.preventDefault();
+        deleteVertex(selectedVertex);
+      } else if (key === 'i') {
+        insertVertexAfter(selectedVertex);
+      } else if (key === 'escape') {
+        setSelectedVertex(null);
+      } else if (key === 'tab') {
+        e.preventDefault();
+        const count = drawingVertices.length;
+        setSelectedVertex((selectedVertex + (e.shiftKey ? count - 1 : 1)) % count);
+      } else if (key.startsWith('arrow')) {
+        e.preventDefault();
+        // One game unit per press, ten with Shift
+        const step = e.shiftKey ? 10 : 1;
+        const [dx, dy] = { arrowleft: [-step, 0], arrowright: [step, 0], arrowup: [0, step], arrowdown: [0, -step] }[key] ?? [0, 0];
+        nudgeVertex(selectedVertex, dx, dy);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   // ── Zoom/pan handlers ──
 
   const handleWheel = useCallback((e: React.WheelEvent) => {
@@ -190,7 +431,12 @@ export default function ZonesPage() {
       if (draggingVertexIdx.current !== null && config) {
         const r = clientToRadar(e.clientX, e.clientY);
         if (!r) return;
-        const world = radarToWorld(r.x, r.y, config);
+        const world = snapVertex(radarToWorld(r.x, r.y, config), e.altKey);
+        const snapshot = dragSnapshot.current;
+        if (snapshot) {
+          dragSnapshot.current = null;
+          setVertexHistory((h) => ({ past: [...h.past, snapshot], future: [] }));
+        }
         setDrawingVertices((prev) => {
           const next = [...prev];
           next[draggingVertexIdx.current!] = world;
@@ -216,7 +462,7 @@ export default function ZonesPage() {
         y: panStart.current.y + dy,
       });
     },
-    [config, clientToRadar],
+    [config, clientToRadar, snapVertex],
   );
 
   // ── Z values loading (must be before handleMouseUp) ──
@@ -241,6 +487,7 @@ export default function ZonesPage() {
     // Vertex drag end
     if (draggingVertexIdx.current !== null) {
       draggingVertexIdx.current = null;
+      dragSnapshot.current = null;
       mouseDownPos.current = null;
       return;
     }
@@ -263,7 +510,7 @@ export default function ZonesPage() {
         if (!r) return;
         const rx = r.x;
         const ry = r.y;
-        const clickWorld = radarToWorld(rx, ry, config);
+        const clickWorld = snapVertex(radarToWorld(rx, ry, config), e.altKey);
 
         // Find closest edge to insert on
         let bestDist = Infinity;
@@ -289,11 +536,10 @@ export default function ZonesPage() {
           }
         }
 
-        setDrawingVertices((prev) => {
-          const next = [...prev];
-          next.splice(insertAfter + 1, 0, clickWorld);
-          return next;
-        });
+        const next = [...drawingVertices];
+        next.splice(insertAfter + 1, 0, clickWorld);
+        commitVertices(next);
+        setSelectedVertex(insertAfter + 1);
         return;
       }
     } else {
@@ -331,6 +577,7 @@ export default function ZonesPage() {
       ];
 
       setDrawingVertices(worldVerts);
+      resetVertexEditing();
       setIsDrawing(false);
       drawingReadyRef.current = false;
       setDragCenter(null);
@@ -350,7 +597,7 @@ export default function ZonesPage() {
     }
 
     isDragging.current = false;
-  }, [dragCenter, config, zones.length, loadZValuesForPolygon, formOpen, isDrawing, drawingVertices, clientToRadar]);
+  }, [dragCenter, config, zones.length, loadZValuesForPolygon, formOpen, isDrawing, drawingVertices, clientToRadar, snapVertex, commitVertices, resetVertexEditing]);
 
   const isZoomed = zoom !== 1;
 
@@ -361,10 +608,11 @@ export default function ZonesPage() {
     drawingReadyRef.current = false;
     isDragCreating.current = false;
     setDrawingVertices([]);
+    resetVertexEditing();
     setDragCenter(null);
     setCursorRadar(null);
     cursorRadarRef.current = null;
-  }, []);
+  }, [resetVertexEditing]);
 
   const startDrawing = useCallback(() => {
     setSelectedZoneId(null);
@@ -379,6 +627,73 @@ export default function ZonesPage() {
     });
   }, []);
 
+  // ── Zone history ──
+
+  const recordZoneChange = useCallback(
+    (label: string, changes: ZoneChange[]) =>
+      setZoneHistory((prev) =>
+        pushZoneHistory(prev.mapName === selectedMap ? prev : emptyZoneHistory(selectedMap), { label, changes }),
+      ),
+    [selectedMap],
+  );
+
+  const stepZoneHistory = async (direction: 'undo' | 'redo') => {
+    const undoing = direction === 'undo';
+    const entry = undoing ? zoneHistory.past[zoneHistory.past.length - 1] : zoneHistory.future[0];
+    if (!entry || historyBusy) return;
+    setHistoryBusy(true);
+    // Old id → id of the zone created again when a delete is undone
+    const ids: Record<string, string> = {};
+    let applied = 0;
+    try {
+      // Batched changes unwind in reverse order
+      for (const change of undoing ? [...entry.changes].reverse() : entry.changes) {
+        const from = undoing ? change.after : change.before;
+        const to = undoing ? change.before : change.after;
+        if (!to) {
+          if (from) await zonesApi.delete(from.id);
+        } else if (!from) {
+          const created = await zonesApi.create({ mapName: to.mapName, ...zoneData(to) });
+          ids[to.id] = created.id;
+        } else {
+          await zonesApi.update(to.id, zoneData(to));
+        }
+        applied++;
+      }
+      toast.success(`${undoing ? 'Undid' : 'Redid'} ${entry.label}`);
+    } catch {
+      toast.error(
+        applied > 0
+          ? `Failed to ${direction} part of ${entry.label}; ${direction} again to retry the rest`
+          : `Failed to ${direction} ${entry.label}`,
+      );
+    } finally {
+      // Whatever was applied leaves the entry, with its new ids, so a retry never repeats it
+      setZoneHistory(completeZoneHistoryStep(zoneHistory, direction, applied, ids));
+      // Restored zones stay visible when only some zones are shown
+      const restored = Object.values(ids);
+      if (restored.length > 0) {
+        setVisibleZoneIds((prev) => (prev === 'all' ? prev : new Set([...prev, ...restored])));
+      }
+      setHistoryBusy(false);
+      loadZones();
+    }
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z outside the zone form; inside it they undo vertex edits
+  useEffect(() => {
+    if (formOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+      e.preventDefault();
+      stepZoneHistory(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   // ── Zone form handlers ──
 
   const handleEditZone = useCallback(
@@ -391,10 +706,11 @@ export default function ZonesPage() {
       setFormZMin(zone.zMin !== null ? String(zone.zMin) : '');
       setFormZMax(zone.zMax !== null ? String(zone.zMax) : '');
       setDrawingVertices(zone.polygon);
+      resetVertexEditing();
       setFormOpen(true);
       loadZValuesForPolygon(zone.polygon);
     },
-    [loadZValuesForPolygon],
+    [loadZValuesForPolygon, resetVertexEditing],
   );
 
   const handleSave = useCallback(async () => {
@@ -421,10 +737,12 @@ export default function ZonesPage() {
       };
 
       if (editingZone) {
-        await zonesApi.update(editingZone.id, data);
+        const updated = await zonesApi.update(editingZone.id, data);
+        recordZoneChange(`edit of ${updated.name}`, [{ before: editingZone, after: updated }]);
         toast.success('Zone updated');
       } else {
         const created = await zonesApi.create(data);
+        recordZoneChange(`creation of ${created.name}`, [{ before: null, after: created }]);
         // If zones are hidden, make the new one visible
         if (visibleZoneIds !== 'all') {
           setVisibleZoneIds((prev) => {
@@ -440,6 +758,7 @@ export default function ZonesPage() {
       setFormOpen(false);
       setEditingZone(null);
       setDrawingVertices([]);
+      resetVertexEditing();
       setZValues(null);
       loadZones();
     } catch {
@@ -447,13 +766,15 @@ export default function ZonesPage() {
     } finally {
       setSaving(false);
     }
-  }, [editingZone, drawingVertices, formName, formColor, formPriority, formZMin, formZMax, selectedMap, loadZones, visibleZoneIds]);
+  }, [editingZone, drawingVertices, formName, formColor, formPriority, formZMin, formZMax, selectedMap, loadZones, visibleZoneIds, resetVertexEditing, recordZoneChange]);
 
   const handleDelete = useCallback(
     async (id: string) => {
       if (!confirm('Delete this zone?')) return;
+      const zone = zones.find((z) => z.id === id);
       try {
         await zonesApi.delete(id);
+        if (zone) recordZoneChange(`deletion of ${zone.name}`, [{ before: zone, after: null }]);
         toast.success('Zone deleted');
         if (selectedZoneId === id) {
           setSelectedZoneId(null);
@@ -464,31 +785,97 @@ export default function ZonesPage() {
         toast.error('Failed to delete zone');
       }
     },
-    [selectedZoneId, loadZones],
+    [zones, selectedZoneId, loadZones, recordZoneChange],
   );
 
   const handleCancelForm = useCallback(() => {
     setFormOpen(false);
     setEditingZone(null);
     setDrawingVertices([]);
+    resetVertexEditing();
     setZValues(null);
-  }, []);
+  }, [resetVertexEditing]);
 
-  // ── Bulk rename ──
+  // ── Import / export ──
+
+  const handleExport = () => {
+    downloadJson(exportZones(selectedMap, zones), exportFileName(`${selectedMap} zones`));
+  };
 
-  const handleBulkRename = useCallback(async () => {
-    const mapDisplay = MAPS.find((m) => m.name === selectedMap)?.displayName ?? selectedMap;
-    if (!confirm(`Re-resolve names for all preset lineups on ${mapDisplay}?`)) return;
-    setBulkRenaming(true);
+  const handleImport = async (actions: ZoneImportAction[]) => {
+    const changes: ZoneChange[] = [];
+    let failure: unknown = null;
     try {
-      const result = await zonesApi.bulkRename(selectedMap);
-      toast.success(`Renamed ${result.updated} of ${result.total} lineups`);
-    } catch {
+      // Stops at the first failure, so a replace never deletes zones before all new ones exist
+      for (const action of actions) {
+        if (action.kind === 'delete') {
+          await zonesApi.delete(action.existing.id);
+          changes.push({ before: action.existing, after: null });
+        } else if (action.kind === 'update') {
+          const updated = await zonesApi.update(action.existing.id, action.data);
+          changes.push({ before: action.existing, after: updated });
+        } else {
+          const created = await zonesApi.create({ mapName: selectedMap, ...action.data });
+          changes.push({ before: null, after: created });
+        }
+      }
+    } catch (err) {
+      // Reported below; what was applied can still be undone
+      failure = err;
+    }
+    // The whole import is one undo step
+    if (changes.length > 0) recordZoneChange('zone import', changes);
+    const createdIds = changes.flatMap((c) => (c.before === null && c.after ? [c.after.id] : []));
+    if (createdIds.length > 0) {
+      setVisibleZoneIds((prev) => (prev === 'all' ? prev : new Set([...prev, ...createdIds])));
+    }
+    loadZones();
+    if (failure) {
+      toast.error(`Import stopped after ${changes.length} of ${actions.length} zone changes`);
+      // Keeps the preview open; it re-plans against the reloaded zones, so a retry skips what was applied
+      throw failure;
+    }
+    toast.success(`Imported zones (${actions.length} change${actions.length !== 1 ? 's' : ''})`);
+  };
+
+  // ── Bulk rename ──
+
+  const handleBulkRename = useCallback(async (renames: LineupRename[]) => {
+    const failed = await applyLineupRenames(renames);
+    if (failed === renames.length) {
       toast.error('Bulk rename failed');
-    } finally {
-      setBulkRenaming(false);
+      throw new Error('Bulk rename failed');
     }
-  }, [selectedMap]);
+    if (failed > 0) toast.error(`Renamed ${renames.length - failed} of ${renames.length} lineups`);
+    else toast.success(`Renamed ${renames.length} lineup${renames.length !== 1 ? 's' : ''}`);
+    // Reload so the next preview starts from the saved names
+    setHeatmapData(null);
+  }, []);
+
+  // ── Z range suggestions ──
+
+  const handleSuggestZRanges = async () => {
+    const suggestions: ZRangeSuggestion[] = [];
+    let failed = 0;
+    setZScan({ done: 0, total: zones.length });
+    for (const [i, zone] of zones.entries()) {
+      try {
+        const data = await zonesApi.getZValues(selectedMap, zone.polygon);
+        const result = detectZClusters([...data.throwZ, ...data.landZ]);
+        if (result && result.clusters.length >= 2) suggestions.push({ zone, result });
+      } catch {
+        failed++;
+      }
+      setZScan({ done: i + 1, total: zones.length });
+    }
+    setZScan(null);
+    if (failed > 0) toast.error(`Could not scan ${failed} zone${failed !== 1 ? 's' : ''}`);
+    if (suggestions.length === 0) {
+      toast.success('No zone has lineups on more than one floor');
+      return;
+    }
+    setZSuggestions(suggestions);
+  };
 
   // ── Polygon rendering helpers ──
 
@@ -522,99 +909,10 @@ export default function ZonesPage() {
 
   // ── Z cluster detection (Otsu's method for ground-level split) ──
 
-  const zClusters = useMemo(() => {
-    if (!zValues) return null;
-    const allZ = [...zValues.throwZ, ...zValues.landZ].sort((a, b) => a - b);
-    if (allZ.length === 0) return null;
-
-    // Separate ground-level (Z < 200) from airborne nades
-    const groundZ = allZ.filter((z) => z < 200);
-    if (groundZ.length < 4) {
-      return { clusters: [], total: allZ.length, splitPoints: [] };
-    }
-
-    // Otsu's method: find the Z threshold that maximizes between-class variance
-    function otsuSplit(values: number[]): { lower: number[]; upper: number[]; splitZ: number } | null {
-      if (values.length < 4) return null;
-      const range = values[values.length - 1] - values[0];
-      if (range < 80) return null;
-
-      let bestThreshold = values[0];
-      let bestVariance = -1;
-
-      for (let i = 1; i < values.length; i++) {
-        if (values[i] === values[i - 1]) continue;
-        const threshold = (values[i - 1] + values[i]) / 2;
-        const lower = values.filter((z) => z <= threshold);
-        const upper = values.filter((z) => z > threshold);
-        if (lower.length < 2 || upper.length < 2) continue;
-
-        const w0 = lower.length / values.length;
-        const w1 = upper.length / values.length;
-        const mean0 = lower.reduce((s, v) => s + v, 0) / lower.length;
-        const mean1 = upper.reduce((s, v) => s + v, 0) / upper.length;
-        const variance = w0 * w1 * (mean0 - mean1) ** 2;
-        if (variance > bestVariance) {
-          bestVariance = variance;
-          bestThreshold = threshold;
-        }
-      }
-
-      const lower = values.filter((z) => z <= bestThreshold);
-      const upper = values.filter((z) => z > bestThreshold);
-      if (lower.length < 2 || upper.length < 2) return null;
-
-      const mean0 = lower.reduce((s, v) => s + v, 0) / lower.length;
-      const mean1 = upper.reduce((s, v) => s + v, 0) / upper.length;
-      if (Math.abs(mean1 - mean0) < 60) return null;
-
-      return { lower, upper, splitZ: Math.round(bestThreshold) };
-    }
-
-    function makeCluster(values: number[]) {
-      const mean = values.reduce((s, v) => s + v, 0) / values.length;
-      return { values, min: values[0], max: values[values.length - 1], mean: Math.round(mean) };
-    }
-
-    // First split
-    const split1 = otsuSplit(groundZ);
-    if (!split1) {
-      return { clusters: [], total: allZ.length, splitPoints: [] };
-    }
-
-    // Try to split each half again for 3-level maps (e.g., Nuke)
-    const subLower = otsuSplit(split1.lower);
-    const subUpper = otsuSplit(split1.upper);
-
-    let clusters: { values: number[]; min: number; max: number; mean: number }[];
-    let splitPoints: number[];
-
-    if (subLower && subUpper) {
-      // Both halves can split — pick the more meaningful one (larger mean gap)
-      const lowerGap = Math.abs(makeCluster(subLower.upper).mean - makeCluster(subLower.lower).mean);
-      const upperGap = Math.abs(makeCluster(subUpper.upper).mean - makeCluster(subUpper.lower).mean);
-      if (lowerGap >= upperGap) {
-        clusters = [makeCluster(subLower.lower), makeCluster(subLower.upper), makeCluster(split1.upper)];
-        splitPoints = [subLower.splitZ, split1.splitZ];
-      } else {
-        clusters = [makeCluster(split1.lower), makeCluster(subUpper.lower), makeCluster(subUpper.upper)];
-        splitPoints = [split1.splitZ, subUpper.splitZ];
-      }
-    } else if (subLower) {
-      clusters = [makeCluster(subLower.lower), makeCluster(subLower.upper), makeCluster(split1.upper)];
-      splitPoints = [subLower.splitZ, split1.splitZ];
-    } else if (subUpper) {
-      clusters = [makeCluster(split1.lower), makeCluster(subUpper.lower), makeCluster(subUpper.upper)];
-      splitPoints = [split1.splitZ, subUpper.splitZ];
-    } else {
-      clusters = [makeCluster(split1.lower), makeCluster(split1.upper)];
-      splitPoints = [split1.splitZ];
-    }
-
-    return { clusters, total: allZ.length, splitPoints };
-  }, [zValues]);
-
-  if (!config) return null;
+  const zClusters = useMemo(
+    () => (zValues ? detectZClusters([...zValues.throwZ, ...zValues.landZ]) : null),
+    [zValues],
+  );
 
   return (
     <div className="space-y-6">
@@ -665,7 +963,10 @@ export default function ZonesPage() {
                       to create a rectangular zone. Release to finalize the shape. You can then drag any vertex to adjust
                       the shape, <span className="text-white">click</span> on an edge to add a new vertex,
                       or <span className="text-white">right-click</span> a vertex to delete it (minimum 3).
-                      The same controls appear when editing an existing zone.
+                      Vertices snap to neighbouring zones&apos; vertices so shared borders have no gaps (hold
+                      <span className="text-white"> Alt</span> to place freely, <span className="text-white">S</span> toggles
+                      snapping). <span className="text-white">Ctrl+Z</span> / <span className="text-white">Ctrl+Shift+Z</span> undo
+                      and redo vertex edits. The same controls appear when editing an existing zone.
                     </p>
                   </div>
                   <div>
@@ -703,6 +1004,8 @@ export default function ZonesPage() {
                       and auto-detects height clusters. If two levels are found (e.g. Underpass vs Ladder Room),
                       you&apos;ll see <span className="text-white">Lower</span> and <span className="text-white">Upper</span> buttons
                       — just click the one this zone represents. If only one level exists, no Z range is needed.
+                      <span className="text-white"> Suggest Z Ranges</span> runs the same check on every zone of the map
+                      and lets you review the proposed ranges before saving.
                     </p>
                   </div>
                   <div>
@@ -710,9 +1013,28 @@ export default function ZonesPage() {
                     <p>
                       Re-resolves names for all <span className="text-white">preset/pro lineups</span> on the selected map
                       using the current zones. Use this after adding or modifying zones to update existing nade names.
+                      A preview lists each old and new name first; untick any lineup that should keep its name.
                       Community and user collections are never affected.
                     </p>
                   </div>
+                  <div>
+                    <h4 className="text-[#e8e8e8] font-semibold mb-1">Undo &amp; Redo</h4>
+                    <p>
+                      Zone creation, edits, deletions and applied Z range suggestions can be undone with the arrows next
+                      to the zone count or <span className="text-white">Ctrl+Z</span> /
+                      <span className="text-white"> Ctrl+Shift+Z</span>. Undoing a deletion restores the zone with the
+                      same shape and settings. History is kept per map until the page is reloaded.
+                    </p>
+                  </div>
+                  <div>
+                    <h4 className="text-[#e8e8e8] font-semibold mb-1">Import &amp; Export</h4>
+                    <p>
+                      The download button saves every zone on the map as a GeoJSON-style JSON file, suitable for version
+                      control or copying zones to another environment. Importing a file either merges it (zones with an
+                      existing name can overwrite, be skipped or be added alongside) or replaces all zones. The preview
+                      lists conflicts before anything is saved, and the whole import undoes in one step.
+                    </p>
+                  </div>
                 </div>
               </div>
             </motion.div>
@@ -727,7 +1049,7 @@ export default function ZonesPage() {
           onChange={(e) => setSelectedMap(e.target.value)}
           className="px-3 py-2 bg-[#12121a] border border-[#2a2a3e] rounded-lg text-white text-sm focus:border-[#f0a500] focus:outline-none cursor-pointer"
         >
-          {MAPS.map((m) => (
+          {maps.map((m) => (
             <option key={m.name} value={m.name}>
               {m.displayName}
             </option>
@@ -754,6 +1076,44 @@ export default function ZonesPage() {
         )}
 
         <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => setShowHeatmap((prev) => !prev)}
+            className={`p-1.5 rounded-lg transition-colors ${
+              showHeatmap
+                ? 'text-[#ef4444] bg-[#ef4444]/15 border border-[#ef4444]/50'
+                : 'text-[#6b6b8a] hover:text-[#e8e8e8] border border-transparent'
+            }`}
+            title={showHeatmap ? 'Hide lineup heatmap' : 'Show lineup heatmap'}
+          >
+            <Flame className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => { setShowValidation((prev) => !prev); setSelectedIssue(null); }}
+            className={`p-1.5 rounded-lg transition-colors ${
+              showValidation
+                ? 'text-[#22c55e] bg-[#22c55e]/15 border border-[#22c55e]/50'
+                : 'text-[#6b6b8a] hover:text-[#e8e8e8] border border-transparent'
+            }`}
+            title={showValidation ? 'Hide zone validation' : 'Validate zones'}
+          >
+            <ShieldCheck className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={zones.length === 0}
+            className="p-1.5 rounded-lg text-[#6b6b8a] hover:text-[#e8e8e8] border border-transparent transition-colors disabled:opacity-30"
+            title="Export zones as JSON"
+          >
+            <Download className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            disabled={formOpen || historyBusy}
+            className="p-1.5 rounded-lg text-[#6b6b8a] hover:text-[#e8e8e8] border border-transparent transition-colors disabled:opacity-30"
+            title="Import zones from a JSON export"
+          >
+            <Upload className="h-4 w-4" />
+          </button>
           <button
             onClick={() => setVisibleZoneIds((prev) => prev === 'all' ? new Set<string>() : 'all')}
             className={`p-1.5 rounded-lg transition-colors ${
@@ -766,243 +1126,335 @@ export default function ZonesPage() {
             {visibleZoneIds !== 'all' ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
           </button>
           <span className="text-xs text-[#6b6b8a]">{zones.length} zone{zones.length !== 1 ? 's' : ''}</span>
+          <div className="flex items-center">
+            <button
+              onClick={() => stepZoneHistory('undo')}
+              disabled={historyBusy || formOpen || zoneHistory.past.length === 0}
+              className="p-1.5 rounded-lg text-[#6b6b8a] hover:text-[#e8e8e8] transition-colors disabled:opacity-30 disabled:hover:text-[#6b6b8a]"
+              title={
+                zoneHistory.past.length > 0
+                  ? `Undo ${zoneHistory.past[zoneHistory.past.length - 1].label} (Ctrl+Z)`
+                  : 'Nothing to undo'
+              }
+            >
+              <Undo2 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => stepZoneHistory('redo')}
+              disabled={historyBusy || formOpen || zoneHistory.future.length === 0}
+              className="p-1.5 rounded-lg text-[#6b6b8a] hover:text-[#e8e8e8] transition-colors disabled:opacity-30 disabled:hover:text-[#6b6b8a]"
+              title={zoneHistory.future.length > 0 ? `Redo ${zoneHistory.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <Redo2 className="h-4 w-4" />
+            </button>
+          </div>
+          <button
+            onClick={() => setShowRenamePreview(true)}
+            disabled={zones.length === 0}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-[#1a1a2e] border border-[#2a2a3e] text-[#e8e8e8] hover:border-[#f0a500]/50 transition-colors disabled:opacity-40"
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+            Bulk Rename
+          </button>
           <button
-            onClick={handleBulkRename}
-            disabled={bulkRenaming || zones.length === 0}
+            onClick={handleSuggestZRanges}
+            disabled={zScan !== null || zones.length === 0}
             className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-[#1a1a2e] border border-[#2a2a3e] text-[#e8e8e8] hover:border-[#f0a500]/50 transition-colors disabled:opacity-40"
+            title="Propose Z ranges for zones whose lineups sit on several floors"
           >
-            {bulkRenaming ? (
+            {zScan ? (
               <Loader2 className="h-3.5 w-3.5 animate-spin" />
             ) : (
-              <RefreshCw className="h-3.5 w-3.5" />
+              <Layers className="h-3.5 w-3.5" />
             )}
-            Bulk Rename
+            {zScan ? `Scanning ${zScan.done}/${zScan.total}` : 'Suggest Z Ranges'}
           </button>
         </div>
       </div>
 
+      {showHeatmap && (
+        <HeatmapFilterBar filters={heatmapFilters} onChange={setHeatmapFilters} count={heatmap?.length} />
+      )}
+
       {/* Main content: Radar + Zone list */}
       <div className="flex gap-5">
         {/* Radar */}
         <div className="flex-1 min-w-0 max-w-[640px]">
-          <div
-            ref={radarRef}
-            className={`relative aspect-square w-full overflow-hidden rounded-xl bg-[#0a0a0f] border border-[#2a2a3e] ${
-              isDrawing ? 'cursor-crosshair' : formOpen && drawingVertices.length >= 3 ? 'cursor-crosshair' : zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''
-            }`}
-            onWheel={handleWheel}
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={(e) => {
-              // Reset drag state on leave without adding vertex
-              draggingVertexIdx.current = null;
-              mouseDownPos.current = null;
-              isDragCreating.current = false;
-              isDragging.current = false;
-              setCursorRadar(null);
-            }}
-          >
+          {!config || !radarImage || failedImage === radarImage ? (
+            <UncalibratedRadar
+              mapName={selectedMap}
+              reason={config ? 'image-missing' : 'uncalibrated'}
+              imagePath={radarImage}
+            />
+          ) : (
             <div
-              className="absolute inset-0 origin-center"
-              style={{
-                transform: `scale(${zoom}) translate(${pan.x / zoom}px, ${pan.y / zoom}px)`,
-                transition: isDragging.current ? 'none' : 'transform 0.15s ease-out',
+              ref={radarRef}
+              className={`relative aspect-square w-full overflow-hidden rounded-xl bg-[#0a0a0f] border border-[#2a2a3e] ${
+                isDrawing ? 'cursor-crosshair' : formOpen && drawingVertices.length >= 3 ? 'cursor-crosshair' : zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''
+              }`}
+              onWheel={handleWheel}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={(e) => {
+                // Reset drag state on leave without adding vertex
+                draggingVertexIdx.current = null;
+                mouseDownPos.current = null;
+                isDragCreating.current = false;
+                isDragging.current = false;
+                setCursorRadar(null);
               }}
             >
-              <Image
-                src={radarImage!}
-                alt={`${selectedMap} radar`}
-                fill
-                className="object-contain"
-                unoptimized
-                draggable={false}
-              />
-
-              {/* SVG overlay for zones */}
-              <svg
-                className="absolute inset-0 w-full h-full pointer-events-none"
-                viewBox="0 0 100 100"
-                preserveAspectRatio="none"
+              <div
+                className="absolute inset-0 origin-center"
+                style={{
+                  transform: `scale(${zoom}) translate(${pan.x / zoom}px, ${pan.y / zoom}px)`,
+                  transition: isDragging.current ? 'none' : 'transform 0.15s ease-out',
+                }}
               >
-                {/* Existing zones */}
-                {zones.map((zone) => {
-                  const isVisible = visibleZoneIds === 'all' || visibleZoneIds.has(zone.id);
-                  if (!isVisible) return null;
-                  const isSelected = zone.id === selectedZoneId;
-                  const points = polygonToSvgPoints(zone.polygon);
-                  return (
-                    <g key={zone.id}>
+                <Image
+                  src={radarImage!}
+                  alt={`${selectedMap} radar`}
+                  fill
+                  className="object-contain"
+                  unoptimized
+                  draggable={false}
+                  onError={() => setFailedImage(radarImage)}
+                />
+
+                {heatmap && <HeatmapLayer points={heatmap} />}
+
+                {/* SVG overlay for zones */}
+                <svg
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                  viewBox="0 0 100 100"
+                  preserveAspectRatio="none"
+                >
+                  {/* Existing zones */}
+                  {zones.map((zone) => {
+                    if (!isZoneShown(zone)) return null;
+                    const isSelected = zone.id === selectedZoneId;
+                    const points = polygonToSvgPoints(zone.polygon);
+                    return (
+                      <g key={zone.id}>
+                        <polygon
+                          points={points}
+                          fill={zone.color}
+                          fillOpacity={isSelected ? 0.4 : 0.2}
+                          stroke={zone.color}
+                          strokeWidth={isSelected ? 0.4 : 0.2}
+                          strokeLinejoin="round"
+                        />
+                      </g>
+                    );
+                  })}
+
+                  {/* Validation issues */}
+                  {issues?.map((issue, i) => {
+                    if (!isIssueShown(issue)) return null;
+                    const r = worldToRadar(issue.point.x, issue.point.y, config);
+                    const isSelected = i === selectedIssue;
+                    const color = issueColor(issue);
+                    if (issue.kind === 'uncovered') {
+                      return (
+                        <circle key={`issue-${i}`} cx={r.x} cy={r.y} r={isSelected ? 1 : 0.45} fill={color} fillOpacity={0.85} />
+                      );
+                    }
+                    return (
+                      <circle
+                        key={`issue-${i}`}
+                        cx={r.x}
+                        cy={r.y}
+                        r={isSelected ? 2 : 1.2}
+                        fill="none"
+                        stroke={color}
+                        strokeWidth={isSelected ? 0.5 : 0.3}
+                      />
+                    );
+                  })}
+                  {selectedIssue !== null && issues?.[selectedIssue] && isIssueShown(issues[selectedIssue]) && (() => {
+                    const issue = issues[selectedIssue];
+                    const ids = issue.kind === 'overlap' ? issue.zoneIds : issue.kind === 'self-intersection' ? [issue.zoneId] : [];
+                    return zones
+                      .filter((zone) => ids.includes(zone.id))
+                      .map((zone) => (
+                        <polygon
+                          key={`issue-zone-${zone.id}`}
+                          points={polygonToSvgPoints(zone.polygon)}
+                          fill="none"
+                          stroke={issueColor(issue)}
+                          strokeWidth={0.4}
+                          strokeDasharray="1 0.6"
+                          strokeLinejoin="round"
+                        />
+                      ));
+                  })()}
+
+                  {/* Drag-create preview (rectangle) */}
+                  {isDrawing && dragCenter && cursorRadar && (() => {
+                    const x1 = Math.min(dragCenter.x, cursorRadar.x);
+                    const y1 = Math.min(dragCenter.y, cursorRadar.y);
+                    const x2 = Math.max(dragCenter.x, cursorRadar.x);
+                    const y2 = Math.max(dragCenter.y, cursorRadar.y);
+                    if (x2 - x1 < 0.5 && y2 - y1 < 0.5) return null;
+                    const points = `${x1},${y1} ${x2},${y1} ${x2},${y2} ${x1},${y2}`;
+                    return (
                       <polygon
                         points={points}
-                        fill={zone.color}
-                        fillOpacity={isSelected ? 0.4 : 0.2}
-                        stroke={zone.color}
-                        strokeWidth={isSelected ? 0.4 : 0.2}
+                        fill="#f0a500"
+                        fillOpacity={0.15}
+                        stroke="#f0a500"
+                        strokeWidth={0.25}
+                        strokeDasharray="0.5 0.3"
                         strokeLinejoin="round"
                       />
-                    </g>
-                  );
-                })}
-
-                {/* Drag-create preview (rectangle) */}
-                {isDrawing && dragCenter && cursorRadar && (() => {
-                  const x1 = Math.min(dragCenter.x, cursorRadar.x);
-                  const y1 = Math.min(dragCenter.y, cursorRadar.y);
-                  const x2 = Math.max(dragCenter.x, cursorRadar.x);
-                  const y2 = Math.max(dragCenter.y, cursorRadar.y);
-                  if (x2 - x1 < 0.5 && y2 - y1 < 0.5) return null;
-                  const points = `${x1},${y1} ${x2},${y1} ${x2},${y2} ${x1},${y2}`;
-                  return (
-                    <polygon
-                      points={points}
-                      fill="#f0a500"
-                      fillOpacity={0.15}
-                      stroke="#f0a500"
-                      strokeWidth={0.25}
-                      strokeDasharray="0.5 0.3"
-                      strokeLinejoin="round"
-                    />
-                  );
-                })()}
-
-                {/* Polygon preview (new zone or editing existing) */}
-                {!isDrawing && drawingVertices.length > 0 && formOpen && (() => {
-                  const points = drawingVertices
-                    .map((p) => {
-                      const r = worldToRadar(p.x, p.y, config);
-                      return `${r.x},${r.y}`;
-                    })
-                    .join(' ');
+                    );
+                  })()}
+
+                  {/* Polygon preview (new zone or editing existing) */}
+                  {!isDrawing && drawingVertices.length > 0 && formOpen && (() => {
+                    const points = drawingVertices
+                      .map((p) => {
+                        const r = worldToRadar(p.x, p.y, config);
+                        return `${r.x},${r.y}`;
+                      })
+                      .join(' ');
+                    return (
+                      <polygon
+                        points={points}
+                        fill="#f0a500"
+                        fillOpacity={0.25}
+                        stroke="#f0a500"
+                        strokeWidth={0.3}
+                        strokeLinejoin="round"
+                      />
+                    );
+                  })()}
+                </svg>
+
+                {/* Draggable vertex handles (left-click select/drag, right-click delete) */}
+                {formOpen && drawingVertices.length > 0 && drawingVertices.map((v, i) => {
+                  const r = worldToRadar(v.x, v.y, config);
+                  const isSelected = i === selectedVertex;
                   return (
-                    <polygon
-                      points={points}
-                      fill="#f0a500"
-                      fillOpacity={0.25}
-                      stroke="#f0a500"
-                      strokeWidth={0.3}
-                      strokeLinejoin="round"
+                    <div
+                      key={`vtx-${i}`}
+                      className={`absolute z-30 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 cursor-move hover:scale-150 transition-transform ${
+                        isSelected ? 'border-[#f0a500] bg-white scale-125' : 'border-white bg-[#f0a500]'
+                      }`}
+                      style={{ left: `${r.x}%`, top: `${r.y}%`, width: `${Math.max(6, 12 / zoom)}px`, height: `${Math.max(6, 12 / zoom)}px` }}
+                      onMouseDown={(e) => {
+                        e.stopPropagation();
+                        e.preventDefault();
+                        draggingVertexIdx.current = i;
+                        dragSnapshot.current = drawingVertices;
+                        setSelectedVertex(i);
+                      }}
+                      onContextMenu={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        deleteVertex(i);
+                      }}
                     />
                   );
-                })()}
-              </svg>
-
-              {/* Draggable vertex handles (left-click drag, right-click delete) */}
-              {formOpen && drawingVertices.length > 0 && drawingVertices.map((v, i) => {
-                const r = worldToRadar(v.x, v.y, config);
-                return (
-                  <div
-                    key={`vtx-${i}`}
-                    className="absolute z-30 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-[#f0a500] cursor-move hover:scale-150 transition-transform"
-                    style={{ left: `${r.x}%`, top: `${r.y}%`, width: `${Math.max(6, 12 / zoom)}px`, height: `${Math.max(6, 12 / zoom)}px` }}
-                    onMouseDown={(e) => {
-                      e.stopPropagation();
-                      e.preventDefault();
-                      draggingVertexIdx.current = i;
-                    }}
-                    onContextMenu={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      if (drawingVertices.length <= 3) {
-                        toast.error('Minimum 3 vertices required');
-                        return;
-                      }
-                      setDrawingVertices((prev) => prev.filter((_, idx) => idx !== i));
-                    }}
-                  />
-                );
-              })}
+                })}
 
-              {/* Zone name labels */}
-              {zones.map((zone) => {
-                const isVisible = visibleZoneIds === 'all' || visibleZoneIds.has(zone.id);
-                if (!isVisible) return null;
-                const center = getPolygonCenter(zone.polygon);
-                const isSelected = zone.id === selectedZoneId;
-                return (
-                  <div
-                    key={`label-${zone.id}`}
-                    className="absolute z-10 -translate-x-1/2 -translate-y-1/2 pointer-events-none"
-                    style={{ left: `${center.x}%`, top: `${center.y}%` }}
-                  >
-                    <span
-                      className={`px-1.5 py-0.5 rounded text-[9px] font-bold whitespace-nowrap uppercase tracking-wider ${
-                        isSelected ? 'bg-[#0a0a0f]/95 border border-white/30' : 'bg-[#0a0a0f]/80'
-                      }`}
-                      style={{ color: zone.color }}
+                {/* Zone name labels */}
+                {zones.map((zone) => {
+                  if (!isZoneShown(zone)) return null;
+                  const center = getPolygonCenter(zone.polygon);
+                  const isSelected = zone.id === selectedZoneId;
+                  return (
+                    <div
+                      key={`label-${zone.id}`}
+                      className="absolute z-10 -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+                      style={{ left: `${center.x}%`, top: `${center.y}%` }}
                     >
-                      {zone.name}
-                    </span>
-                  </div>
-                );
-              })}
-            </div>
+                      <span
+                        className={`px-1.5 py-0.5 rounded text-[9px] font-bold whitespace-nowrap uppercase tracking-wider ${
+                          isSelected ? 'bg-[#0a0a0f]/95 border border-white/30' : 'bg-[#0a0a0f]/80'
+                        }`}
+                        style={{ color: zone.color }}
+                      >
+                        {zone.name}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
 
-            {/* Zoom controls */}
-            <div className="absolute bottom-2 left-2 z-40 flex flex-col gap-1">
-              <button
-                onClick={(e) => { e.stopPropagation(); setZoom((p) => Math.min(MAX_ZOOM, p + ZOOM_STEP)); }}
-                className="flex items-center justify-center h-7 w-7 rounded bg-[#0a0a0f]/80 text-white/70 hover:text-white hover:bg-[#0a0a0f] border border-[#2a2a3e]/50 transition-colors"
-              >
-                <Plus className="h-3.5 w-3.5" />
-              </button>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  setZoom((p) => {
-                    const n = Math.max(MIN_ZOOM, p - ZOOM_STEP);
-                    if (n <= 1) setPan({ x: 0, y: 0 });
-                    return n;
-                  });
-                }}
-                className="flex items-center justify-center h-7 w-7 rounded bg-[#0a0a0f]/80 text-white/70 hover:text-white hover:bg-[#0a0a0f] border border-[#2a2a3e]/50 transition-colors"
-              >
-                <Minus className="h-3.5 w-3.5" />
-              </button>
-              {isZoomed && (
+              {/* Zoom controls */}
+              <div className="absolute bottom-2 left-2 z-40 flex flex-col gap-1">
                 <button
-                  onClick={(e) => { e.stopPropagation(); setZoom(1); setPan({ x: 0, y: 0 }); }}
+                  onClick={(e) => { e.stopPropagation(); setZoom((p) => Math.min(MAX_ZOOM, p + ZOOM_STEP)); }}
                   className="flex items-center justify-center h-7 w-7 rounded bg-[#0a0a0f]/80 text-white/70 hover:text-white hover:bg-[#0a0a0f] border border-[#2a2a3e]/50 transition-colors"
                 >
-                  <Maximize2 className="h-3.5 w-3.5" />
+                  <Plus className="h-3.5 w-3.5" />
                 </button>
-              )}
-            </div>
-
-            {/* Layer toggle (Nuke) */}
-            {hasLayers && (
-              <div className="absolute top-2 right-2 z-40 flex gap-1">
                 <button
-                  className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
-                    !showLower ? 'bg-white/20 text-white' : 'bg-white/5 text-white/40 hover:bg-white/10'
-                  }`}
-                  onClick={(e) => { e.stopPropagation(); setShowLower(false); }}
-                >
-                  Upper
-                </button>
-                <button
-                  className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
-                    showLower ? 'bg-white/20 text-white' : 'bg-white/5 text-white/40 hover:bg-white/10'
-                  }`}
-                  onClick={(e) => { e.stopPropagation(); setShowLower(true); }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setZoom((p) => {
+                      const n = Math.max(MIN_ZOOM, p - ZOOM_STEP);
+                      if (n <= 1) setPan({ x: 0, y: 0 });
+                      return n;
+                    });
+                  }}
+                  className="flex items-center justify-center h-7 w-7 rounded bg-[#0a0a0f]/80 text-white/70 hover:text-white hover:bg-[#0a0a0f] border border-[#2a2a3e]/50 transition-colors"
                 >
-                  Lower
+                  <Minus className="h-3.5 w-3.5" />
                 </button>
+                {isZoomed && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setZoom(1); setPan({ x: 0, y: 0 }); }}
+                    className="flex items-center justify-center h-7 w-7 rounded bg-[#0a0a0f]/80 text-white/70 hover:text-white hover:bg-[#0a0a0f] border border-[#2a2a3e]/50 transition-colors"
+                  >
+                    <Maximize2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
               </div>
-            )}
 
-            {/* Drawing mode indicator */}
-            {isDrawing && (
-              <div className="absolute top-2 left-2 z-40 flex items-center gap-2 px-2.5 py-1 rounded-lg bg-[#f0a500]/20 border border-[#f0a500]/40">
-                <MousePointer className="h-3.5 w-3.5 text-[#f0a500]" />
-                <span className="text-xs font-medium text-[#f0a500]">Drawing</span>
-              </div>
-            )}
-          </div>
+              {/* Layer switcher (multi-level maps) */}
+              {hasLayers && (
+                <div className="absolute top-2 right-2 z-40 flex gap-1">
+                  {layers.map((l, i) => (
+                    <button
+                      key={l.label}
+                      className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                        l === layer ? 'bg-white/20 text-white' : 'bg-white/5 text-white/40 hover:bg-white/10'
+                      }`}
+                      onClick={(e) => { e.stopPropagation(); setLayerIndex(i); }}
+                      title={l.minZ !== undefined || l.maxZ !== undefined ? `Z ${l.minZ ?? '−∞'} to ${l.maxZ ?? '∞'}` : undefined}
+                    >
+                      {l.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Drawing mode indicator */}
+              {isDrawing && (
+                <div className="absolute top-2 left-2 z-40 flex items-center gap-2 px-2.5 py-1 rounded-lg bg-[#f0a500]/20 border border-[#f0a500]/40">
+                  <MousePointer className="h-3.5 w-3.5 text-[#f0a500]" />
+                  <span className="text-xs font-medium text-[#f0a500]">Drawing</span>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Zone list + form sidebar */}
         <div className="w-80 shrink-0 space-y-4">
+          {issues && (
+            <ZoneValidationPanel
+              issues={issues}
+              zones={zones}
+              lineupsLoaded={lineupsLoaded}
+              selectedIssue={selectedIssue}
+              onSelect={setSelectedIssue}
+            />
+          )}
+
           {/* Zone form */}
           <AnimatePresence>
             {formOpen && (
@@ -1057,9 +1509,13 @@ export default function ZonesPage() {
                     <input
                       type="number"
                       value={formPriority}
-                      onChange={(e) => setFormPriority(Math.max(1, Math.min(20, parseInt(e.target.value) || 1)))}
-                      min={1}
-                      max={20}
+                      onChange={(e) =>
+                        setFormPriority(
+                          Math.max(ZONE_PRIORITY_MIN, Math.min(ZONE_PRIORITY_MAX, parseInt(e.target.value) || ZONE_PRIORITY_MIN)),
+                        )
+                      }
+                      min={ZONE_PRIORITY_MIN}
+                      max={ZONE_PRIORITY_MAX}
                       className="w-full px-2 py-2 bg-[#12121a] border border-[#2a2a3e] rounded-lg text-sm text-white text-center focus:border-[#f0a500] focus:outline-none"
                     />
                   </div>
@@ -1112,15 +1568,10 @@ export default function ZonesPage() {
                               {zClusters.clusters.map((c, i) => `Z ${c.mean}`).join(' / ')}
                             </div>
                             {zClusters.clusters.map((cluster, idx) => {
-                              const isLast = idx === zClusters.clusters.length - 1;
-                              const label = zClusters.clusters.length === 2
-                                ? (idx === 0 ? 'Lower' : 'Upper')
-                                : (idx === 0 ? 'Lower' : idx === 1 ? 'Middle' : 'Upper');
-                              const margin = 15;
-                              const rangeMin = idx === 0
-                                ? Math.round(cluster.min - margin)
-                                : zClusters.splitPoints[idx - 1];
-                              const rangeMax = isLast ? '' : String(zClusters.splitPoints[idx]);
+                              const label = clusterLabel(zClusters.clusters.length, idx);
+                              const range = clusterZRange(zClusters, idx);
+                              const rangeMin = range.zMin;
+                              const rangeMax = range.zMax === null ? '' : String(range.zMax);
                               const isActive = formZMin === String(rangeMin) && formZMax === rangeMax;
                               return (
                                 <button
@@ -1129,6 +1580,7 @@ export default function ZonesPage() {
                                     setFormZMin(String(rangeMin));
                                     setFormZMax(rangeMax);
                                   }}
+                                  title="Apply this cluster's Z range"
                                   className={`flex items-center justify-between px-2.5 py-1.5 rounded-lg text-xs transition-colors border ${
                                     isActive
                                       ? 'border-[#f0a500] bg-[#f0a500]/15 text-[#f0a500]'
@@ -1159,6 +1611,66 @@ export default function ZonesPage() {
                   </div>
                 )}
 
+                {/* Vertex tools */}
+                <div className="space-y-2">
+                  <div className="flex items-center gap-1.5">
+                    <label className="text-xs text-[#6b6b8a] mr-auto">
+                      Vertices ({drawingVertices.length})
+                    </label>
+                    <button
+                      onClick={undoVertices}
+                      disabled={vertexHistory.past.length === 0}
+                      className="p-1 rounded text-[#6b6b8a] hover:text-[#e8e8e8] disabled:opacity-30 disabled:hover:text-[#6b6b8a]"
+                      title="Undo vertex edit (Ctrl+Z)"
+                    >
+                      <Undo2 className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={redoVertices}
+                      disabled={vertexHistory.future.length === 0}
+                      className="p-1 rounded text-[#6b6b8a] hover:text-[#e8e8e8] disabled:opacity-30 disabled:hover:text-[#6b6b8a]"
+                      title="Redo vertex edit (Ctrl+Shift+Z)"
+                    >
+                      <Redo2 className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => setSnapEnabled((prev) => !prev)}
+                      className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium border transition-colors ${
+                        snapEnabled
+                          ? 'border-[#f0a500]/50 bg-[#f0a500]/15 text-[#f0a500]'
+                          : 'border-[#2a2a3e] text-[#6b6b8a] hover:text-[#e8e8e8]'
+                      }`}
+                      title="Snap dragged and inserted vertices to other zones' vertices (S, hold Alt to bypass)"
+                    >
+                      <Magnet className="h-3 w-3" />
+                      Snap
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      min={0.1}
+                      max={3}
+                      step={0.1}
+                      value={simplifyTolerance}
+                      onChange={(e) => setSimplifyTolerance(Number(e.target.value))}
+                      className="flex-1 accent-[#f0a500]"
+                      title={`Simplify tolerance: ${simplifyTolerance}% of the radar`}
+                    />
+                    <button
+                      onClick={handleSimplify}
+                      disabled={simplifiedCount === drawingVertices.length}
+                      className="px-2 py-1 rounded-lg text-[10px] font-medium bg-[#1a1a2e] border border-[#2a2a3e] text-[#e8e8e8] hover:border-[#f0a500]/50 transition-colors disabled:opacity-40"
+                      title="Remove vertices that barely change the outline (Shift+S)"
+                    >
+                      Simplify → {simplifiedCount}
+                    </button>
+                  </div>
+                  <p className="text-[10px] text-[#555577] leading-relaxed">
+                    Click a vertex to select it: Del removes, I inserts after it, arrows nudge (Shift ×10), Tab cycles.
+                  </p>
+                </div>
+
                 {/* Save/Cancel */}
                 <div className="flex gap-2 pt-1">
                   <button
@@ -1284,6 +1796,288 @@ export default function ZonesPage() {
           </div>
         </div>
       </div>
+
+      <AnimatePresence>
+        {showRenamePreview && (
+          <ZoneRenamePreview
+            title={`Rename ${displayName(selectedMap)} preset lineups`}
+            lineups={lineupsLoaded ? heatmapData.lineups : null}
+            zones={zones}
+            onApply={handleBulkRename}
+            onClose={() => setShowRenamePreview(false)}
+          />
+        )}
+        {showImport && (
+          <ZoneImportModal
+            mapName={selectedMap}
+            mapLabel={displayName(selectedMap)}
+            zones={zones}
+            onApply={handleImport}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+        {zSuggestions && (
+          <ZRangeReviewModal
+            suggestions={zSuggestions}
+            onClose={() => setZSuggestions(null)}
+            onSaved={(changes) => {
+              if (changes.length > 0) recordZoneChange('Z range suggestions', changes);
+              loadZones();
+            }}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// ─── Sub-components ───
+
+const issueColor = (issue: ZoneIssue) => {
+  if (issue.kind === 'overlap') return issue.samePriority ? '#f59e0b' : '#60a5fa';
+  return '#ff4444';
+};
+
+// Uncovered points can run into the hundreds; the radar shows them all, the list a page
+const ISSUE_LIST_LIMIT = 50;
+
+function ZoneValidationPanel({
+  issues,
+  zones,
+  lineupsLoaded,
+  selectedIssue,
+  onSelect,
+}: {
+  issues: ZoneIssue[];
+  zones: MapZone[];
+  lineupsLoaded: boolean;
+  selectedIssue: number | null;
+  onSelect: (index: number | null) => void;
+}) {
+  const zoneName = (id: string) => zones.find((z) => z.id === id)?.name ?? 'Unknown zone';
+  const indexed = issues.map((issue, index) => ({ issue, index }));
+  const sections = [
+    { title: 'Self-intersecting polygons', items: indexed.filter(({ issue }) => issue.kind === 'self-intersection') },
+    { title: 'Overlapping zones', items: indexed.filter(({ issue }) => issue.kind === 'overlap') },
+    { title: 'Lineup points outside every zone', items: indexed.filter(({ issue }) => issue.kind === 'uncovered'), needsLineups: true },
+  ];
+
+  const describe = (issue: ZoneIssue) => {
+    switch (issue.kind) {
+      case 'self-intersection':
+        return zoneName(issue.zoneId);
+      case 'overlap':
+        return `${zoneName(issue.zoneIds[0])} × ${zoneName(issue.zoneIds[1])}`;
+      case 'uncovered':
+        return `${issue.lineupName} (${issue.field})`;
+    }
+  };
+
+  return (
+    <div className="glass rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4 text-[#22c55e]" />
+        <h3 className="text-sm font-semibold text-[#e8e8e8]">Validation</h3>
+        <span className="ml-auto text-xs text-[#6b6b8a]">
+          {issues.length === 0 ? 'No problems' : `${issues.length} problem${issues.length !== 1 ? 's' : ''}`}
+        </span>
+      </div>
+
+      {sections.map(({ title, items, needsLineups }) => (
+        <div key={title}>
+          <div className="text-[10px] uppercase tracking-wider text-[#6b6b8a] mb-1">
+            {title} ({items.length})
+          </div>
+          {needsLineups && !lineupsLoaded ? (
+            <div className="flex items-center gap-2 text-xs text-[#555577]">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Loading lineups...
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-xs text-[#555577]">None</div>
+          ) : (
+            <div className="max-h-40 overflow-y-auto space-y-0.5">
+              {items.slice(0, ISSUE_LIST_LIMIT).map(({ issue, index }) => (
+                <button
+                  key={index}
+                  onClick={() => onSelect(index === selectedIssue ? null : index)}
+                  className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs transition-colors ${
+                    index === selectedIssue ? 'bg-white/10 text-[#e8e8e8]' : 'text-[#9999aa] hover:bg-white/5'
+                  }`}
+                >
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: issueColor(issue) }} />
+                  <span className="truncate">{describe(issue)}</span>
+                  {issue.kind === 'overlap' && issue.samePriority && (
+                    <span className="ml-auto shrink-0 text-[10px] text-[#f59e0b]">same priority</span>
+                  )}
+                </button>
+              ))}
+              {items.length > ISSUE_LIST_LIMIT && (
+                <div className="px-2 text-[10px] text-[#555577]">
+                  and {items.length - ISSUE_LIST_LIMIT} more on the radar
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
     </div>
   );
 }
+
+const formatZRange = (zMin: number | null, zMax: number | null) =>
+  zMin === null && zMax === null ? 'Any' : `${zMin ?? '∞'}..${zMax ?? '∞'}`;
+
+function ZRangeReviewModal({
+  suggestions,
+  onClose,
+  onSaved,
+}: {
+  suggestions: ZRangeSuggestion[];
+  onClose: () => void;
+  // Receives the zones that were actually updated
+  onSaved: (changes: ZoneChange[]) => void;
+}) {
+  // Chosen level per zone; null leaves the zone's range as it is
+  const [choices, setChoices] = useState<Record<string, number | null>>(() =>
+    Object.fromEntries(suggestions.map((s) => [s.zone.id, dominantCluster(s.result)])),
+  );
+  const [saving, setSaving] = useState(false);
+
+  const changes = suggestions.flatMap(({ zone, result }) => {
+    const choice = choices[zone.id];
+    if (choice === null) return [];
+    const range = clusterZRange(result, choice);
+    if (range.zMin === zone.zMin && range.zMax === zone.zMax) return [];
+    return [{ zone, range }];
+  });
+
+  const handleSave = async () => {
+    setSaving(true);
+    let failed = 0;
+    const applied: ZoneChange[] = [];
+    for (const { zone, range } of changes) {
+      try {
+        const updated = await zonesApi.update(zone.id, range);
+        applied.push({ before: zone, after: updated });
+      } catch {
+        failed++;
+      }
+    }
+    setSaving(false);
+    if (failed > 0) {
+      toast.error(`Updated ${changes.length - failed} of ${changes.length} zones`);
+    } else {
+      toast.success(`Updated Z range on ${changes.length} zone${changes.length !== 1 ? 's' : ''}`);
+    }
+    onSaved(applied);
+    onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={() => !saving && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="glass rounded-2xl p-6 w-full max-w-3xl mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 rounded-lg bg-[#f0a500]/10">
+            <Layers className="w-5 h-5 text-[#f0a500]" />
+          </div>
+          <h2 className="text-lg font-bold text-[#e8e8e8]">Review Z Ranges</h2>
+        </div>
+        <p className="text-sm text-[#6b6b8a] mb-4">
+          These zones contain lineups on more than one floor. Pick the floor each zone stands for;
+          the busiest one is preselected.
+        </p>
+
+        <div className="max-h-[50vh] overflow-y-auto rounded-xl border border-[#2a2a3e]">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-[#12121a] text-[#6b6b8a]">
+              <tr>
+                <th className="text-left font-medium px-3 py-2">Zone</th>
+                <th className="text-left font-medium px-3 py-2">Levels found</th>
+                <th className="text-left font-medium px-3 py-2">Current</th>
+                <th className="text-left font-medium px-3 py-2">Apply</th>
+                <th className="text-left font-medium px-3 py-2">New range</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[#2a2a3e]/60">
+              {suggestions.map(({ zone, result }) => {
+                const choice = choices[zone.id];
+                const range = choice === null ? null : clusterZRange(result, choice);
+                const unchanged = !range || (range.zMin === zone.zMin && range.zMax === zone.zMax);
+                return (
+                  <tr key={zone.id}>
+                    <td className="px-3 py-2">
+                      <span className="flex items-center gap-2 text-[#e8e8e8]">
+                        <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ backgroundColor: zone.color }} />
+                        {zone.name}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-[#9999aa]">
+                      {result.clusters
+                        .map((c, i) => `${clusterLabel(result.clusters.length, i)} ${c.values.length}`)
+                        .join(' · ')}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-[#9999aa]">{formatZRange(zone.zMin, zone.zMax)}</td>
+                    <td className="px-3 py-2">
+                      <div className="relative">
+                        <select
+                          value={choice === null ? '' : String(choice)}
+                          onChange={(e) =>
+                            setChoices((prev) => ({
+                              ...prev,
+                              [zone.id]: e.target.value === '' ? null : Number(e.target.value),
+                            }))
+                          }
+                          disabled={saving}
+                          className="appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-lg text-xs text-[#e8e8e8] focus:outline-none focus:border-[#f0a500]/50 cursor-pointer px-2 py-1 pr-7"
+                        >
+                          {result.clusters.map((c, i) => (
+                            <option key={i} value={i}>
+                              {clusterLabel(result.clusters.length, i)} (avg Z {c.mean})
+                            </option>
+                          ))}
+                          <option value="">Leave unchanged</option>
+                        </select>
+                        <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-[#6b6b8a] pointer-events-none" />
+                      </div>
+                    </td>
+                    <td className={`px-3 py-2 font-mono ${unchanged ? 'text-[#555577]' : 'text-[#f0a500]'}`}>
+                      {range ? formatZRange(range.zMin, range.zMax) : '—'}
+                      {range && unchanged && <span className="font-sans ml-1.5">(no change)</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-3 mt-4">
+          <button onClick={onClose} className="btn-secondary flex-1" disabled={saving}>
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || changes.length === 0}
+            className="btn-primary flex-1 flex items-center justify-center gap-2"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save {changes.length} change{changes.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { usePathname, useRouter } from 'next/navigation';
@@ -19,19 +20,32 @@ import {
   BookOpen,
   Trophy,
   Crosshair,
+  Copy,
+  BarChart3,
+  Film,
+  Swords,
+  Ruler,
+  Globe,
 } from 'lucide-react';
 import { useAuthStore } from '@/store/auth-store';
+import { useMapRegistry } from '@/store/map-registry-store';
 
 const NAV_ITEMS = [
   { href: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
   { href: '/dashboard/users', icon: Users, label: 'Users' },
   { href: '/dashboard/collections', icon: FolderOpen, label: 'Collections' },
   { href: '/dashboard/browse', icon: Crosshair, label: 'Browse' },
+  { href: '/dashboard/duplicates', icon: Copy, label: 'Duplicates' },
+  { href: '/dashboard/pro-stats', icon: BarChart3, label: 'Pro Stats' },
+  { href: '/dashboard/pro-demos', icon: Film, label: 'Pro Demos' },
   { href: '/dashboard/courses', icon: BookOpen, label: 'Courses' },
+  { href: '/dashboard/executes', icon: Swords, label: 'Executes' },
   { href: '/dashboard/achievements', icon: Trophy, label: 'Achievements' },
   { href: '/dashboard/sessions', icon: Activity, label: 'Sessions' },
   { href: '/dashboard/editor', icon: Server, label: 'Editor' },
+  { href: '/dashboard/maps', icon: Globe, label: 'Maps' },
   { href: '/dashboard/zones', icon: Map, label: 'Map Zones' },
+  { href: '/dashboard/calibration', icon: Ruler, label: 'Calibration' },
   { href: '/dashboard/hidden-lineups', icon: EyeOff, label: 'Hidden Lineups' },
   { href: '/dashboard/redis', icon: Database, label: 'Redis' },
 ];
@@ -41,6 +55,11 @@ export default function Sidebar() {
   const router = useRouter();
   const { user, logout } = useAuthStore();
 
+  // The sidebar mounts once per dashboard session, after auth, so the map registry loads here
+  useEffect(() => {
+    if (!useMapRegistry.getState().loaded) useMapRegistry.getState().load();
+  }, []);
+
   const handleLogout = () => {
     logout();
     router.replace('/login');
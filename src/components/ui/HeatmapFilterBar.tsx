@@ -0,0 +1,73 @@
+'use client';
+
+import { GRENADE_TYPES, TEAM_SIDES } from '@/lib/constants';
+import type { HeatmapFilters } from '@/lib/lineup-heatmap';
+
+interface HeatmapFilterBarProps {
+  filters: HeatmapFilters;
+  onChange: (filters: HeatmapFilters) => void;
+  // Number of lineups plotted with the current filters
+  count?: number;
+  // Hide the grenade select when the page already filters by grenade
+  hideGrenadeType?: boolean;
+}
+
+const selectClass =
+  'appearance-none bg-[#12121a] border border-[#2a2a3e] rounded-lg text-xs text-[#e8e8e8] cursor-pointer hover:border-[#3a3a5e] transition-colors focus:outline-none focus:border-[#f0a500]/40 px-2.5 py-1.5';
+
+export default function HeatmapFilterBar({ filters, onChange, count, hideGrenadeType }: HeatmapFilterBarProps) {
+  const set = <K extends keyof HeatmapFilters>(key: K, value: HeatmapFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex rounded-lg border border-[#2a2a3e] overflow-hidden">
+        {(['throw', 'landing'] as const).map((source) => (
+          <button
+            key={source}
+            onClick={() => set('source', source)}
+            className={`px-2.5 py-1.5 text-xs font-medium transition-colors ${
+              filters.source === source ? 'bg-[#f0a500]/15 text-[#f0a500]' : 'text-[#6b6b8a] hover:text-[#e8e8e8]'
+            }`}
+          >
+            {source === 'throw' ? 'Thrown from' : 'Lands at'}
+          </button>
+        ))}
+      </div>
+      {!hideGrenadeType && (
+        <select
+          value={filters.grenadeType}
+          onChange={(e) => set('grenadeType', e.target.value as HeatmapFilters['grenadeType'])}
+          className={selectClass}
+        >
+          <option value="all">All grenades</option>
+          {Object.entries(GRENADE_TYPES).map(([key, gt]) => (
+            <option key={key} value={key}>{gt.label}</option>
+          ))}
+        </select>
+      )}
+      <select
+        value={filters.teamSide}
+        onChange={(e) => set('teamSide', e.target.value as HeatmapFilters['teamSide'])}
+        className={selectClass}
+      >
+        <option value="all">Both sides</option>
+        {TEAM_SIDES.map((side) => (
+          <option key={side} value={side}>{side} side</option>
+        ))}
+      </select>
+      <select
+        value={filters.roundWon}
+        onChange={(e) => set('roundWon', e.target.value as HeatmapFilters['roundWon'])}
+        className={selectClass}
+      >
+        <option value="all">Any result</option>
+        <option value="won">Rounds won</option>
+        <option value="lost">Rounds lost</option>
+      </select>
+      {count !== undefined && (
+        <span className="text-xs text-[#6b6b8a]">{count} lineup{count !== 1 ? 's' : ''}</span>
+      )}
+    </div>
+  );
+}
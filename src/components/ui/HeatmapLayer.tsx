@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+interface HeatmapLayerProps {
+  // Radar % coordinates
+  points: { x: number; y: number }[];
+  // Blob radius in radar %
+  radius?: number;
+}
+
+const CANVAS_SIZE = 512;
+
+const RAMP_STOPS: [number, string][] = [
+  [0, '#3b82f6'],
+  [0.4, '#22c55e'],
+  [0.7, '#f59e0b'],
+  [1, '#ef4444'],
+];
+
+let rampCache: Uint8ClampedArray | null = null;
+
+// 256-entry RGBA lookup from density to colour
+const getRamp = () => {
+  if (rampCache) return rampCache;
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  for (const [offset, color] of RAMP_STOPS) gradient.addColorStop(offset, color);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  rampCache = ctx.getImageData(0, 0, 256, 1).data;
+  return rampCache;
+};
+
+export default function HeatmapLayer({ points, radius = 2.5 }: HeatmapLayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+    if (points.length === 0) return;
+
+    // Density pass: soft blobs stacked in the alpha channel
+    const r = (radius / 100) * CANVAS_SIZE;
+    for (const p of points) {
+      const x = (p.x / 100) * CANVAS_SIZE;
+      const y = (p.y / 100) * CANVAS_SIZE;
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, r);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 0.2)');
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(x - r, y - r, r * 2, r * 2);
+    }
+
+    // Colour pass: normalise to the densest pixel and map through the ramp
+    const image = ctx.getImageData(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+    const data = image.data;
+    let max = 0;
+    for (let i = 3; i < data.length; i += 4) max = Math.max(max, data[i]);
+    if (max === 0) return;
+    const ramp = getRamp();
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = data[i + 3];
+      if (alpha === 0) continue;
+      const level = Math.round((alpha / max) * 255);
+      data[i] = ramp[level * 4];
+      data[i + 1] = ramp[level * 4 + 1];
+      data[i + 2] = ramp[level * 4 + 2];
+      data[i + 3] = Math.min(255, 60 + level);
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [points, radius]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={CANVAS_SIZE}
+      height={CANVAS_SIZE}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      style={{ opacity: 0.75 }}
+    />
+  );
+}
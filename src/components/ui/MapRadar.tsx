@@ -1,10 +1,14 @@
 'use client';
 
-import { useState, useMemo, useCallback, useRef } from 'react';
+import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import Image from 'next/image';
-import { Plus, Minus, Maximize2 } from 'lucide-react';
-import { MAP_COORDINATES, worldToRadar } from '@/lib/map-coordinates';
+import { Plus, Minus, Maximize2, Play, Pause, Lasso, BoxSelect } from 'lucide-react';
+import { worldToRadar, radarToWorld, pointInPolygon, radarLayers, layerContainsZ } from '@/lib/map-coordinates';
+import { useMapRegistry } from '@/store/map-registry-store';
 import { GRENADE_TYPES } from '@/lib/constants';
+import type { LineupPositionField } from '@/lib/types';
+import UncalibratedRadar from './UncalibratedRadar';
+import HeatmapLayer from './HeatmapLayer';
 
 interface Position {
   x: number;
@@ -18,6 +22,8 @@ interface MapLineup {
   grenadeType: string;
   throwPosition: Position;
   landingPosition: Position;
+  releasePosition?: Position;
+  movementPath?: (Position & { pitch: number; yaw: number })[];
 }
 
 interface MapRadarProps {
@@ -26,8 +32,32 @@ interface MapRadarProps {
   selectedLineupId?: string | null;
   onLineupClick?: (lineup: MapLineup) => void;
   mini?: boolean;
+  // Edit mode: the selected lineup's points become draggable handles.
+  // Dropped points keep their original Z.
+  editable?: boolean;
+  onPositionChange?: (lineupId: string, field: LineupPositionField, position: Position) => void;
+  // Multi-selection: checked markers are outlined, and the lasso/rectangle
+  // tools report every visible lineup inside the drawn area. Shift adds to
+  // the current selection.
+  checkedLineupIds?: Set<string>;
+  onLassoSelect?: (lineupIds: string[], additive: boolean) => void;
+  // World positions drawn as a density layer under the markers
+  heatmapPoints?: Position[];
+  // Short text drawn beside a lineup's throw marker, by lineup id
+  markerLabels?: Record<string, string>;
+  // Draw the throw->landing line of every marker, not only the selected one
+  showAllTrajectories?: boolean;
 }
 
+type LassoTool = 'lasso' | 'rect';
+type LassoTarget = 'throw' | 'landing' | 'either';
+
+const LASSO_TARGETS: { target: LassoTarget; label: string; title: string }[] = [
+  { target: 'throw', label: 'T', title: 'Select by throw position' },
+  { target: 'landing', label: 'L', title: 'Select by landing position' },
+  { target: 'either', label: 'T+L', title: 'Select by either position' },
+];
+
 const GRENADE_COLORS: Record<string, string> = {
   smoke: GRENADE_TYPES.smoke.color,
   flash: GRENADE_TYPES.flash.color,
@@ -39,46 +69,117 @@ const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 3.0;
 const ZOOM_STEP = 0.15;
 
+const PLAYBACK_INTERVAL_MS = 32;
+const PATH_ARROW_SPACING = 6;
+
+const EDIT_HANDLES: { field: LineupPositionField; label: string; color: string }[] = [
+  { field: 'throwPosition', label: 'T', color: '#f0a500' },
+  { field: 'releasePosition', label: 'R', color: '#a78bfa' },
+  { field: 'landingPosition', label: 'L', color: '#22c55e' },
+];
+
+const rectCorners = (points: { x: number; y: number }[]) => {
+  const [a, b] = [points[0], points[points.length - 1]];
+  return [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+};
+
 export default function MapRadar({
   mapName,
   lineups,
   selectedLineupId,
   onLineupClick,
   mini = false,
+  editable = false,
+  onPositionChange,
+  checkedLineupIds,
+  onLassoSelect,
+  heatmapPoints,
+  markerLabels,
+  showAllTrajectories = false,
 }: MapRadarProps) {
-  const config = MAP_COORDINATES[mapName];
-  const hasLayers = !!config?.lowerRadarImage;
-  const [showLower, setShowLower] = useState(false);
+  const config = useMapRegistry().calibration(mapName);
+  const layers = useMemo(() => (config ? radarLayers(config) : []), [config]);
+  const hasLayers = layers.length > 1;
+  const [layerIndex, setLayerIndex] = useState(0);
+  // Clamped so switching to a map with fewer levels falls back to its lowest one
+  const layer = layers[Math.min(layerIndex, layers.length - 1)];
 
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const isDragging = useRef(false);
   const dragStart = useRef({ x: 0, y: 0 });
   const panStart = useRef({ x: 0, y: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [draggingHandle, setDraggingHandle] = useState<LineupPositionField | null>(null);
+  const [handlePreview, setHandlePreview] = useState<{ x: number; y: number } | null>(null);
+  const [lassoTool, setLassoTool] = useState<LassoTool | null>(null);
+  const [lassoTarget, setLassoTarget] = useState<LassoTarget>('landing');
+  const [lasso, setLasso] = useState<{ points: { x: number; y: number }[]; additive: boolean } | null>(null);
+  // Radar image that failed to load; compared against the current one so switching maps retries
+  const [failedImage, setFailedImage] = useState<string | null>(null);
 
-  const radarImage = useMemo(() => {
-    if (!config) return null;
-    return showLower && config.lowerRadarImage
-      ? config.lowerRadarImage
-      : config.radarImage;
-  }, [config, showLower]);
+  const radarImage = layer?.radarImage ?? null;
 
   const markers = useMemo(() => {
     if (!config) return [];
     return lineups
       .filter((l) => {
-        if (!hasLayers || !config.zSplitThreshold) return true;
-        const z = l.throwPosition.z;
-        return showLower
-          ? z < config.zSplitThreshold
-          : z >= config.zSplitThreshold;
+        if (!hasLayers) return true;
+        return layerContainsZ(layer, l.throwPosition.z);
       })
       .map((l) => {
         const throwPos = worldToRadar(l.throwPosition.x, l.throwPosition.y, config);
         const landingPos = worldToRadar(l.landingPosition.x, l.landingPosition.y, config);
         return { lineup: l, throwPos, landingPos };
       });
-  }, [lineups, config, showLower, hasLayers]);
+  }, [lineups, config, layer, hasLayers]);
+
+  const heatmap = useMemo(() => {
+    if (!config || !heatmapPoints) return null;
+    return heatmapPoints
+      .filter((p) => {
+        if (!hasLayers) return true;
+        return layerContainsZ(layer, p.z);
+      })
+      .map((p) => worldToRadar(p.x, p.y, config));
+  }, [heatmapPoints, config, layer, hasLayers]);
+
+  // ── Movement path playback (selected lineup) ──
+
+  const movementPath = useMemo(() => {
+    if (!config || mini) return [];
+    const lineup = lineups.find((l) => l.id === selectedLineupId);
+    return (lineup?.movementPath ?? []).map((p) => ({ ...p, ...worldToRadar(p.x, p.y, config) }));
+  }, [lineups, selectedLineupId, config, mini]);
+
+  // Scrubber state is tied to the lineup it was set for, so selecting another lineup starts at the end
+  const [scrub, setScrub] = useState<{ lineupId: string | null; index: number; playing: boolean }>({
+    lineupId: null,
+    index: 0,
+    playing: false,
+  });
+  const scrubActive = scrub.lineupId === selectedLineupId;
+  const scrubIndex = scrubActive ? Math.min(scrub.index, movementPath.length - 1) : movementPath.length - 1;
+  const isPlaying = scrubActive && scrub.playing;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(() => {
+      setScrub((prev) => {
+        if (prev.index >= movementPath.length - 1) return { ...prev, playing: false };
+        return { ...prev, index: prev.index + 1 };
+      });
+    }, PLAYBACK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, movementPath.length]);
+
+  const togglePlayback = useCallback(() => {
+    setScrub((prev) => {
+      if (prev.lineupId === selectedLineupId && prev.playing) return { ...prev, playing: false };
+      const atEnd = prev.lineupId !== selectedLineupId || prev.index >= movementPath.length - 1;
+      return { lineupId: selectedLineupId ?? null, index: atEnd ? 0 : prev.index, playing: true };
+    });
+  }, [selectedLineupId, movementPath.length]);
 
   const handleWheel = useCallback((e: React.WheelEvent) => {
     if (mini) return;
@@ -91,14 +192,54 @@ export default function MapRadar({
     });
   }, [mini]);
 
+  // Convert screen coordinates to radar % (inverting the zoom/pan transform)
+  const clientToRadar = useCallback(
+    (clientX: number, clientY: number): { x: number; y: number } | null => {
+      if (!containerRef.current) return null;
+      const rect = containerRef.current.getBoundingClientRect();
+      const scale = mini ? 1 : zoom;
+      const offset = mini ? { x: 0, y: 0 } : pan;
+      const contentX = (clientX - rect.left - (1 - scale) * rect.width / 2 - offset.x) / scale;
+      const contentY = (clientY - rect.top - (1 - scale) * rect.height / 2 - offset.y) / scale;
+      return {
+        x: Math.max(0, Math.min(100, (contentX / rect.width) * 100)),
+        y: Math.max(0, Math.min(100, (contentY / rect.height) * 100)),
+      };
+    },
+    [mini, zoom, pan],
+  );
+
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
-    if (mini || zoom <= 1) return;
+    if (mini) return;
+    if (lassoTool) {
+      const point = clientToRadar(e.clientX, e.clientY);
+      if (point) setLasso({ points: [point], additive: e.shiftKey });
+      return;
+    }
+    if (zoom <= 1) return;
     isDragging.current = true;
     dragStart.current = { x: e.clientX, y: e.clientY };
     panStart.current = { ...pan };
-  }, [mini, zoom, pan]);
+  }, [mini, zoom, pan, lassoTool, clientToRadar]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
+    if (lasso) {
+      const point = clientToRadar(e.clientX, e.clientY);
+      if (!point) return;
+      setLasso((prev) => {
+        if (!prev) return prev;
+        if (lassoTool === 'rect') return { ...prev, points: [prev.points[0], point] };
+        const last = prev.points[prev.points.length - 1];
+        // Skip points closer than 0.3% to keep the polygon small
+        if (Math.hypot(point.x - last.x, point.y - last.y) < 0.3) return prev;
+        return { ...prev, points: [...prev.points, point] };
+      });
+      return;
+    }
+    if (draggingHandle) {
+      setHandlePreview(clientToRadar(e.clientX, e.clientY));
+      return;
+    }
     if (!isDragging.current) return;
     const dx = e.clientX - dragStart.current.x;
     const dy = e.clientY - dragStart.current.y;
@@ -106,11 +247,45 @@ export default function MapRadar({
       x: panStart.current.x + dx,
       y: panStart.current.y + dy,
     });
-  }, []);
+  }, [lasso, lassoTool, draggingHandle, clientToRadar]);
 
   const handleMouseUp = useCallback(() => {
     isDragging.current = false;
-  }, []);
+    if (lasso) {
+      // A click without dragging draws nothing and leaves the selection alone
+      const polygon = lassoTool === 'rect'
+        ? (lasso.points.length >= 2 ? rectCorners(lasso.points) : [])
+        : lasso.points;
+      if (polygon.length >= 3 && onLassoSelect) {
+        const ids = markers
+          .filter(({ throwPos, landingPos }) => {
+            const throwInside = lassoTarget !== 'landing' && pointInPolygon(throwPos, polygon);
+            const landingInside = lassoTarget !== 'throw' && pointInPolygon(landingPos, polygon);
+            return throwInside || landingInside;
+          })
+          .map(({ lineup }) => lineup.id);
+        onLassoSelect(ids, lasso.additive);
+      }
+      setLasso(null);
+      return;
+    }
+    if (!draggingHandle) return;
+    const lineup = lineups.find((l) => l.id === selectedLineupId);
+    const original = lineup?.[draggingHandle];
+    if (lineup && original && handlePreview && config && onPositionChange) {
+      const world = radarToWorld(handlePreview.x, handlePreview.y, config);
+      onPositionChange(lineup.id, draggingHandle, {
+        x: Math.round(world.x * 100) / 100,
+        y: Math.round(world.y * 100) / 100,
+        z: original.z,
+      });
+    }
+    setDraggingHandle(null);
+    setHandlePreview(null);
+  }, [
+    lasso, lassoTool, lassoTarget, markers, onLassoSelect,
+    draggingHandle, handlePreview, lineups, selectedLineupId, config, onPositionChange,
+  ]);
 
   const handleZoomIn = useCallback(() => {
     setZoom((prev) => Math.min(MAX_ZOOM, prev + ZOOM_STEP));
@@ -130,22 +305,44 @@ export default function MapRadar({
   }, []);
 
   if (!config) {
-    return (
-      <div className="aspect-square bg-[#0a0a0f] rounded-xl flex items-center justify-center text-[#666]">
-        No radar available
-      </div>
-    );
+    return <UncalibratedRadar mapName={mapName} reason="uncalibrated" mini={mini} />;
   }
+  if (radarImage && failedImage === radarImage) {
+    return <UncalibratedRadar mapName={mapName} reason="image-missing" imagePath={radarImage} mini={mini} />;
+  }
+
+  const baseSelectedMarker = markers.find((m) => m.lineup.id === selectedLineupId);
+  const isEditing = editable && !mini && !!baseSelectedMarker;
+
+  // Radar positions of the editable points, with the handle being dragged following the cursor
+  const editPoints = isEditing
+    ? EDIT_HANDLES.flatMap(({ field, label, color }) => {
+        const pos = baseSelectedMarker.lineup[field];
+        if (!pos) return [];
+        const radar = draggingHandle === field && handlePreview
+          ? handlePreview
+          : worldToRadar(pos.x, pos.y, config);
+        return [{ field, label, color, ...radar }];
+      })
+    : [];
+  const editPoint = (field: LineupPositionField) => editPoints.find((p) => p.field === field);
 
-  const selectedMarker = markers.find((m) => m.lineup.id === selectedLineupId);
+  const selectedMarker = baseSelectedMarker && isEditing
+    ? {
+        ...baseSelectedMarker,
+        throwPos: editPoint('throwPosition') ?? baseSelectedMarker.throwPos,
+        landingPos: editPoint('landingPosition') ?? baseSelectedMarker.landingPos,
+      }
+    : baseSelectedMarker;
   const dotSize = mini ? 6 : 10;
   const selectedDotSize = mini ? 8 : 16;
   const isZoomed = zoom !== 1;
 
   return (
     <div
+      ref={containerRef}
       className={`relative aspect-square w-full overflow-hidden rounded-xl bg-[#0a0a0f] ${
-        !mini && zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''
+        lassoTool ? 'cursor-crosshair' : draggingHandle ? 'cursor-grabbing' : !mini && zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''
       }`}
       onWheel={handleWheel}
       onMouseDown={handleMouseDown}
@@ -171,8 +368,33 @@ export default function MapRadar({
           className="object-contain"
           unoptimized
           draggable={false}
+          onError={() => setFailedImage(radarImage)}
         />
 
+        {heatmap && <HeatmapLayer points={heatmap} radius={mini ? 4 : 2.5} />}
+
+        {!mini && showAllTrajectories && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none z-10">
+            {markers.map(({ lineup, throwPos, landingPos }) => {
+              const color = GRENADE_COLORS[lineup.grenadeType] || '#fff';
+              return (
+                <g key={lineup.id} opacity={lineup.id === selectedLineupId ? 0 : 0.45}>
+                  <line
+                    x1={`${throwPos.x}%`}
+                    y1={`${throwPos.y}%`}
+                    x2={`${landingPos.x}%`}
+                    y2={`${landingPos.y}%`}
+                    stroke={color}
+                    strokeWidth="1.5"
+                    strokeDasharray="4 4"
+                  />
+                  <circle cx={`${landingPos.x}%`} cy={`${landingPos.y}%`} r="4" fill="none" stroke={color} strokeWidth="1.5" />
+                </g>
+              );
+            })}
+          </svg>
+        )}
+
         {/* Throw->landing line for selected */}
         {!mini && selectedMarker && (
           <svg className="absolute inset-0 w-full h-full pointer-events-none z-10">
@@ -219,6 +441,8 @@ export default function MapRadar({
         {/* Markers */}
         {markers.map(({ lineup, throwPos }) => {
           const isSelected = lineup.id === selectedLineupId;
+          if (isSelected && isEditing) return null;
+          const isChecked = !!checkedLineupIds?.has(lineup.id);
           const color = GRENADE_COLORS[lineup.grenadeType] || '#fff';
           const size = isSelected ? selectedDotSize : dotSize;
 
@@ -227,7 +451,7 @@ export default function MapRadar({
               key={lineup.id}
               className={`absolute z-20 -translate-x-1/2 -translate-y-1/2 rounded-full transition-all duration-200 ${
                 !mini ? 'cursor-pointer hover:scale-125' : ''
-              } ${isSelected ? 'ring-2 ring-white/50' : ''}`}
+              } ${isSelected ? 'ring-2 ring-white/50' : isChecked ? 'ring-2 ring-[#f0a500]' : ''}`}
               style={{
                 left: `${throwPos.x}%`,
                 top: `${throwPos.y}%`,
@@ -243,10 +467,146 @@ export default function MapRadar({
                 if (!mini && onLineupClick) onLineupClick(lineup);
               }}
               title={!mini ? lineup.name : undefined}
-            />
+            >
+              {markerLabels?.[lineup.id] && (
+                <span className="absolute left-full top-1/2 -translate-y-1/2 ml-1 px-1 rounded bg-black/70 text-[9px] font-bold text-white whitespace-nowrap pointer-events-none">
+                  {markerLabels[lineup.id]}
+                </span>
+              )}
+            </div>
           );
         })}
 
+        {/* Movement path with direction arrows and playhead */}
+        {movementPath.length >= 2 && (() => {
+          const color = GRENADE_COLORS[selectedMarker?.lineup.grenadeType ?? ''] || '#fff';
+          const toPoints = (pts: { x: number; y: number }[]) => pts.map((p) => `${p.x},${p.y}`).join(' ');
+          const head = movementPath[scrubIndex];
+          const yawRad = (head.yaw * Math.PI) / 180;
+          const arrows = movementPath
+            .map((p, i) => ({ p, next: movementPath[i + 1], i }))
+            .filter(({ next, i }) => next && i % PATH_ARROW_SPACING === PATH_ARROW_SPACING - 1)
+            .map(({ p, next, i }) => {
+              const angle = Math.atan2(next.y - p.y, next.x - p.x);
+              const s = 0.7 / zoom;
+              const tip = { x: p.x + Math.cos(angle) * s, y: p.y + Math.sin(angle) * s };
+              const left = { x: p.x + Math.cos(angle + 2.5) * s, y: p.y + Math.sin(angle + 2.5) * s };
+              const right = { x: p.x + Math.cos(angle - 2.5) * s, y: p.y + Math.sin(angle - 2.5) * s };
+              return <polygon key={i} points={toPoints([tip, left, right])} fill={color} opacity={i <= scrubIndex ? 0.9 : 0.35} />;
+            });
+          return (
+            <svg
+              className="absolute inset-0 w-full h-full pointer-events-none z-10"
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+            >
+              <polyline
+                points={toPoints(movementPath)}
+                fill="none"
+                stroke={color}
+                strokeWidth={1.5}
+                strokeOpacity={0.3}
+                vectorEffect="non-scaling-stroke"
+                strokeLinejoin="round"
+              />
+              <polyline
+                points={toPoints(movementPath.slice(0, scrubIndex + 1))}
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+                strokeLinejoin="round"
+              />
+              {arrows}
+              <line
+                x1={head.x}
+                y1={head.y}
+                x2={head.x + Math.cos(yawRad) * (2.5 / zoom)}
+                y2={head.y - Math.sin(yawRad) * (2.5 / zoom)}
+                stroke="#ffffff"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+              <circle
+                cx={head.x}
+                cy={head.y}
+                r={0.6 / zoom}
+                fill="#ffffff"
+                stroke={color}
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          );
+        })()}
+
+        {/* Edit handles: throw -> release -> landing */}
+        {isEditing && (
+          <>
+            <svg className="absolute inset-0 w-full h-full pointer-events-none z-10">
+              {editPoints.slice(1).map((p, i) => (
+                <line
+                  key={p.field}
+                  x1={`${editPoints[i].x}%`}
+                  y1={`${editPoints[i].y}%`}
+                  x2={`${p.x}%`}
+                  y2={`${p.y}%`}
+                  stroke="#ffffff"
+                  strokeWidth="1"
+                  strokeDasharray="3 3"
+                  opacity="0.5"
+                />
+              ))}
+            </svg>
+            {editPoints.map((p) => (
+              <div
+                key={p.field}
+                className={`absolute z-30 -translate-x-1/2 -translate-y-1/2 flex items-center justify-center rounded-full border-2 border-white text-[9px] font-bold text-[#0a0a0f] select-none ${
+                  draggingHandle === p.field ? 'cursor-grabbing scale-125' : 'cursor-grab hover:scale-125'
+                } transition-transform`}
+                style={{
+                  left: `${p.x}%`,
+                  top: `${p.y}%`,
+                  width: 18 / zoom,
+                  height: 18 / zoom,
+                  backgroundColor: p.color,
+                  boxShadow: `0 0 10px ${p.color}`,
+                }}
+                onMouseDown={(e) => {
+                  e.stopPropagation();
+                  e.preventDefault();
+                  setDraggingHandle(p.field);
+                  setHandlePreview({ x: p.x, y: p.y });
+                }}
+                title={`Drag to move ${p.field.replace('Position', '')} point`}
+              >
+                {p.label}
+              </div>
+            ))}
+          </>
+        )}
+
+        {/* Lasso / rectangle being drawn */}
+        {lasso && lasso.points.length >= 2 && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none z-30"
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+          >
+            <polygon
+              points={(lassoTool === 'rect' ? rectCorners(lasso.points) : lasso.points)
+                .map((p) => `${p.x},${p.y}`)
+                .join(' ')}
+              fill="#f0a500"
+              fillOpacity={0.1}
+              stroke="#f0a500"
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+
         {/* Selected label */}
         {!mini && selectedMarker && (() => {
           const dx = selectedMarker.landingPos.x - selectedMarker.throwPos.x;
@@ -271,6 +631,35 @@ export default function MapRadar({
         })()}
       </div>
 
+      {/* Movement path scrubber */}
+      {movementPath.length >= 2 && (
+        <div
+          className="absolute bottom-2 right-2 z-40 flex items-center gap-2 w-[60%] px-2 py-1.5 rounded bg-[#0a0a0f]/85 border border-[#2a2a3e]/50"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={togglePlayback}
+            className="flex items-center justify-center h-5 w-5 shrink-0 text-white/70 hover:text-white transition-colors"
+            title={isPlaying ? 'Pause' : 'Play movement'}
+          >
+            {isPlaying ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={movementPath.length - 1}
+            value={scrubIndex}
+            onChange={(e) =>
+              setScrub({ lineupId: selectedLineupId ?? null, index: Number(e.target.value), playing: false })
+            }
+            className="flex-1 min-w-0 accent-[#f0a500] cursor-pointer"
+          />
+          <span className="text-[10px] font-mono text-white/60 shrink-0 tabular-nums">
+            {scrubIndex + 1}/{movementPath.length} · z {Math.round(movementPath[scrubIndex].z)}
+          </span>
+        </div>
+      )}
+
       {/* Zoom controls */}
       {!mini && (
         <div className="absolute bottom-2 left-2 z-40 flex flex-col gap-1">
@@ -300,29 +689,64 @@ export default function MapRadar({
         </div>
       )}
 
-      {/* Nuke layer toggle */}
+      {/* Lasso tools */}
+      {!mini && onLassoSelect && (
+        <div
+          className="absolute top-2 left-2 z-40 flex items-center gap-1"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          {([
+            { tool: 'lasso', icon: Lasso, title: 'Lasso select (shift adds)' },
+            { tool: 'rect', icon: BoxSelect, title: 'Rectangle select (shift adds)' },
+          ] as const).map(({ tool, icon: Icon, title }) => (
+            <button
+              key={tool}
+              onClick={() => setLassoTool((prev) => (prev === tool ? null : tool))}
+              className={`flex items-center justify-center h-7 w-7 rounded border transition-colors ${
+                lassoTool === tool
+                  ? 'bg-[#f0a500]/20 text-[#f0a500] border-[#f0a500]/50'
+                  : 'bg-[#0a0a0f]/80 text-white/70 hover:text-white border-[#2a2a3e]/50'
+              }`}
+              title={title}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </button>
+          ))}
+          {lassoTool && (
+            <div className="flex rounded bg-[#0a0a0f]/80 border border-[#2a2a3e]/50 overflow-hidden">
+              {LASSO_TARGETS.map(({ target, label, title }) => (
+                <button
+                  key={target}
+                  onClick={() => setLassoTarget(target)}
+                  className={`px-1.5 h-7 text-[10px] font-bold transition-colors ${
+                    lassoTarget === target ? 'bg-white/20 text-white' : 'text-white/40 hover:text-white/70'
+                  }`}
+                  title={title}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Layer switcher (multi-level maps) */}
       {hasLayers && !mini && (
         <div className="absolute top-2 right-2 z-40 flex gap-1">
-          <button
-            className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
-              !showLower
-                ? 'bg-white/20 text-white'
-                : 'bg-white/5 text-white/40 hover:bg-white/10'
-            }`}
-            onClick={() => setShowLower(false)}
-          >
-            Upper
-          </button>
-          <button
-            className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
-              showLower
-                ? 'bg-white/20 text-white'
-                : 'bg-white/5 text-white/40 hover:bg-white/10'
-            }`}
-            onClick={() => setShowLower(true)}
-          >
-            Lower
-          </button>
+          {layers.map((l, i) => (
+            <button
+              key={l.label}
+              className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                l === layer
+                  ? 'bg-white/20 text-white'
+                  : 'bg-white/5 text-white/40 hover:bg-white/10'
+              }`}
+              onClick={() => setLayerIndex(i)}
+            >
+              {l.label}
+            </button>
+          ))}
         </div>
       )}
     </div>
@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Play, Pause, SkipBack, PackagePlus } from 'lucide-react';
+import { GRENADE_TYPES } from '@/lib/constants';
+import { formatRoundTime } from '@/lib/pro-stats';
+import type { Lineup } from '@/lib/types';
+
+type GrenadeType = Lineup['grenadeType'];
+
+interface RoundTimelineProps {
+  // Lineups of one round; those without roundTimeSeconds are left off the axis
+  lineups: Lineup[];
+  // Seconds into the round
+  time: number;
+  onTimeChange: (time: number) => void;
+  selectedLineupId?: string | null;
+  onLineupClick?: (lineup: Lineup) => void;
+  title?: string;
+  // Adds the round's lineups to a collection; the button is hidden without it
+  onPack?: () => void;
+}
+
+// Round clock length; longer rounds (bomb planted) stretch the axis
+const ROUND_SECONDS = 115;
+const SPEEDS = [1, 2, 4, 8];
+const GRENADE_LANES = Object.keys(GRENADE_TYPES) as GrenadeType[];
+
+export const lineupsAtTime = (lineups: Lineup[], time: number) =>
+  lineups.filter((l) => l.roundTimeSeconds !== undefined && l.roundTimeSeconds <= time);
+
+export default function RoundTimeline({
+  lineups, time, onTimeChange, selectedLineupId, onLineupClick, title, onPack,
+}: RoundTimelineProps) {
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1]);
+  // Where playback started, so each frame can work out the time without reading state
+  const playbackRef = useRef({ time: 0, stamp: 0, speed: SPEEDS[1] });
+  const timed = lineups.filter((l) => l.roundTimeSeconds !== undefined);
+  const duration = Math.max(ROUND_SECONDS, ...timed.map((l) => Math.ceil(l.roundTimeSeconds!) + 5));
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = requestAnimationFrame(function tick(now) {
+      const { time: from, stamp, speed: rate } = playbackRef.current;
+      const next = from + ((now - stamp) / 1000) * rate;
+      if (next >= duration) {
+        onTimeChange(duration);
+        setPlaying(false);
+        return;
+      }
+      onTimeChange(next);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing, duration, onTimeChange]);
+
+  const startFrom = (from: number, rate = speed) => {
+    playbackRef.current = { time: from, stamp: performance.now(), speed: rate };
+  };
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    const from = time >= duration ? 0 : time;
+    if (from !== time) onTimeChange(from);
+    startFrom(from);
+    setPlaying(true);
+  };
+
+  const seek = (to: number) => {
+    onTimeChange(to);
+    startFrom(to);
+  };
+
+  const changeSpeed = (rate: number) => {
+    setSpeed(rate);
+    startFrom(time, rate);
+  };
+
+  const ticks = Array.from({ length: Math.floor(duration / 15) + 1 }, (_, i) => i * 15);
+  const pct = (seconds: number) => `${(seconds / duration) * 100}%`;
+
+  return (
+    <div className="rounded-xl bg-[#12121a] border border-[#2a2a3e] p-3">
+      <div className="flex items-center gap-2 mb-3">
+        <button
+          onClick={togglePlay}
+          disabled={timed.length === 0}
+          className="p-1.5 rounded-lg bg-[#f0a500]/15 text-[#f0a500] hover:bg-[#f0a500]/25 transition-colors disabled:opacity-40"
+          title={playing ? 'Pause' : 'Play round'}
+        >
+          {playing ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+        </button>
+        <button
+          onClick={() => seek(0)}
+          className="p-1.5 rounded-lg text-[#6b6b8a] hover:text-[#e8e8e8] transition-colors"
+          title="Back to round start"
+        >
+          <SkipBack className="h-3.5 w-3.5" />
+        </button>
+        <span className="text-xs font-mono text-[#e8e8e8] tabular-nums w-10">{formatRoundTime(time)}</span>
+        {title && <span className="text-xs text-[#9b9bba] truncate flex-1">{title}</span>}
+        <div className="flex rounded-lg border border-[#2a2a3e] overflow-hidden ml-auto">
+          {SPEEDS.map((rate) => (
+            <button
+              key={rate}
+              onClick={() => changeSpeed(rate)}
+              className={`px-1.5 py-0.5 text-[10px] font-medium transition-colors ${
+                speed === rate ? 'bg-[#f0a500]/15 text-[#f0a500]' : 'text-[#6b6b8a] hover:text-[#e8e8e8]'
+              }`}
+            >
+              {rate}×
+            </button>
+          ))}
+        </div>
+        {onPack && (
+          <button
+            onClick={onPack}
+            className="p-1.5 rounded-lg text-[#6b6b8a] hover:text-[#22c55e] transition-colors"
+            title="Add this round's lineups to the chosen collection"
+          >
+            <PackagePlus className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+
+      {/* Grenade lanes */}
+      <div className="relative">
+        {GRENADE_LANES.map((type) => (
+          <div key={type} className="relative h-5 border-b border-[#2a2a3e]/50 last:border-b-0">
+            <span className="absolute left-0 top-1/2 -translate-y-1/2 text-[9px] font-bold uppercase" style={{ color: GRENADE_TYPES[type].color }}>
+              {GRENADE_TYPES[type].label.slice(0, 2)}
+            </span>
+            <div className="absolute left-6 right-0 inset-y-0">
+              {timed
+                .filter((l) => l.grenadeType === type)
+                .map((lineup) => {
+                  const thrown = lineup.roundTimeSeconds! <= time;
+                  return (
+                    <button
+                      key={lineup.id}
+                      onClick={() => {
+                        seek(lineup.roundTimeSeconds!);
+                        onLineupClick?.(lineup);
+                      }}
+                      className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-2.5 h-2.5 rounded-full transition-all hover:scale-150 ${
+                        lineup.id === selectedLineupId ? 'ring-2 ring-white' : ''
+                      }`}
+                      style={{
+                        left: pct(lineup.roundTimeSeconds!),
+                        backgroundColor: GRENADE_TYPES[type].color,
+                        opacity: thrown ? 1 : 0.3,
+                      }}
+                      title={`${formatRoundTime(lineup.roundTimeSeconds)} · ${lineup.name}${lineup.playerName ? ` (${lineup.playerName})` : ''}`}
+                    />
+                  );
+                })}
+            </div>
+          </div>
+        ))}
+        {/* Playhead */}
+        <div className="absolute left-6 right-0 inset-y-0 pointer-events-none">
+          <div className="absolute inset-y-0 w-px bg-[#f0a500]" style={{ left: pct(Math.min(time, duration)) }} />
+        </div>
+      </div>
+
+      {/* Scrubber */}
+      <div className="ml-6 mt-2">
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={Math.min(time, duration)}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="w-full accent-[#f0a500] cursor-pointer"
+        />
+        <div className="relative h-3">
+          {ticks.map((t) => (
+            <span
+              key={t}
+              className="absolute -translate-x-1/2 text-[9px] text-[#6b6b8a] tabular-nums"
+              style={{ left: pct(t) }}
+            >
+              {formatRoundTime(t)}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
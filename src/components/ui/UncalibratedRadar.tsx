@@ -0,0 +1,37 @@
+'use client';
+
+import { MapPinOff, ImageOff } from 'lucide-react';
+import { useMapRegistry } from '@/store/map-registry-store';
+
+interface UncalibratedRadarProps {
+  mapName: string;
+  // 'uncalibrated': no position/scale entry; 'image-missing': the radar image failed to load
+  reason: 'uncalibrated' | 'image-missing';
+  imagePath?: string | null;
+  mini?: boolean;
+}
+
+/** Placeholder shown instead of a radar that cannot be drawn. */
+export default function UncalibratedRadar({ mapName, reason, imagePath, mini = false }: UncalibratedRadarProps) {
+  const { displayName } = useMapRegistry();
+  const mapLabel = displayName(mapName);
+  const Icon = reason === 'uncalibrated' ? MapPinOff : ImageOff;
+
+  return (
+    <div className="relative aspect-square w-full rounded-xl bg-[#0a0a0f] border border-dashed border-[#2a2a3e] flex items-center justify-center p-4">
+      <div className="text-center">
+        <Icon className={`${mini ? 'h-6 w-6' : 'h-10 w-10'} text-[#6b6b8a]/50 mx-auto mb-2`} />
+        <p className={`${mini ? 'text-xs' : 'text-sm font-medium'} text-[#e8e8e8]`}>
+          {reason === 'uncalibrated' ? `${mapLabel} is not calibrated` : `No radar image for ${mapLabel}`}
+        </p>
+        {!mini && (
+          <p className="text-xs text-[#6b6b8a] mt-1 max-w-xs">
+            {reason === 'uncalibrated'
+              ? 'Lineups and zones cannot be placed until the map has a radar position and scale.'
+              : <>Expected at <span className="font-mono">{imagePath}</span></>}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
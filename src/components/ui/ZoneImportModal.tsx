@@ -0,0 +1,224 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Upload, Loader2, FileJson, AlertTriangle, X, ChevronDown } from 'lucide-react';
+import type { MapZone } from '@/lib/types';
+import {
+  findZoneConflicts,
+  parseZoneFile,
+  planZoneImport,
+  type ParsedZoneFile,
+  type ZoneConflictResolution,
+  type ZoneImportAction,
+  type ZoneImportMode,
+} from '@/lib/zone-transfer';
+
+interface ZoneImportModalProps {
+  mapName: string;
+  mapLabel: string;
+  zones: MapZone[];
+  // Runs the planned calls; the modal closes when it resolves and stays open if it throws
+  onApply: (actions: ZoneImportAction[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const RESOLUTION_LABELS: Record<ZoneConflictResolution, string> = {
+  overwrite: 'Overwrite',
+  skip: 'Keep existing',
+  'keep-both': 'Keep both',
+};
+
+/** Loads a zone export file and previews a merge or replace against the map's current zones. */
+export default function ZoneImportModal({ mapName, mapLabel, zones, onApply, onClose }: ZoneImportModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedZoneFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ZoneImportMode>('merge');
+  const [resolutions, setResolutions] = useState<Record<number, ZoneConflictResolution>>({});
+  const [applying, setApplying] = useState(false);
+
+  const imported = useMemo(() => parsed?.zones ?? [], [parsed]);
+  const invalid = imported.filter((z) => !z.data);
+  const conflicts = useMemo(() => findZoneConflicts(zones, imported), [zones, imported]);
+  const actions = useMemo(
+    () => planZoneImport(zones, imported, mode, resolutions),
+    [zones, imported, mode, resolutions],
+  );
+  const counts = { create: 0, update: 0, delete: 0 };
+  for (const action of actions) counts[action.kind]++;
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setParsed(null);
+    setParseError(null);
+    setResolutions({});
+    try {
+      setParsed(parseZoneFile(JSON.parse(await file.text()), mapName));
+    } catch (err) {
+      setParseError(err instanceof SyntaxError ? 'File is not valid JSON' : (err as Error).message);
+    }
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      await onApply(actions);
+      onClose();
+    } catch {
+      // onApply reports the error; keep the preview open to retry
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={() => !applying && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="glass rounded-2xl p-6 w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 mb-4">
+          <div className="p-2 rounded-lg bg-[#f0a500]/10">
+            <Upload className="w-5 h-5 text-[#f0a500]" />
+          </div>
+          <h2 className="text-lg font-bold text-[#e8e8e8]">Import {mapLabel} zones</h2>
+          <button onClick={onClose} disabled={applying} className="ml-auto text-[#6b6b8a] hover:text-[#e8e8e8]">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <label className="flex items-center gap-3 px-4 py-3 rounded-xl border border-dashed border-[#2a2a3e] hover:border-[#f0a500]/40 cursor-pointer transition-colors mb-4">
+          <FileJson className="h-5 w-5 text-[#6b6b8a]" />
+          <span className="text-sm text-[#e8e8e8]">{fileName || 'Choose an exported zones .json file'}</span>
+          <input
+            type="file"
+            accept="application/json,application/geo+json,.json,.geojson"
+            className="hidden"
+            disabled={applying}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {parseError && (
+          <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-[#ff4444]/10 border border-[#ff4444]/30 text-sm text-[#ff4444] mb-4">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {parseError}
+          </div>
+        )}
+
+        {parsed && (
+          <div className="space-y-4">
+            <p className="text-xs text-[#6b6b8a]">
+              {imported.length} zone{imported.length !== 1 ? 's' : ''} in file
+              {invalid.length > 0 && ` · ${invalid.length} invalid (skipped)`} · {zones.length} on the map now
+            </p>
+
+            {invalid.length > 0 && (
+              <ul className="space-y-1 text-xs max-h-28 overflow-y-auto rounded-xl bg-[#ff4444]/5 border border-[#ff4444]/20 px-3 py-2">
+                {invalid.map((zone) => (
+                  <li key={zone.index} className="text-[#ff8888]">
+                    <span className="text-[#e8e8e8]">{zone.name}</span>: {zone.errors.join(', ')}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-2">
+              {(['merge', 'replace'] as const).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  disabled={applying}
+                  className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    mode === m
+                      ? 'border-[#f0a500]/50 bg-[#f0a500]/15 text-[#f0a500]'
+                      : 'border-[#2a2a3e] text-[#6b6b8a] hover:text-[#e8e8e8]'
+                  }`}
+                >
+                  {m === 'merge' ? 'Merge into current zones' : 'Replace all zones'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'replace' ? (
+              <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-[#f59e0b]/10 border border-[#f59e0b]/30 text-sm text-[#f59e0b]">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                Creates the file&apos;s zones, then deletes all {zones.length} current zone{zones.length !== 1 ? 's' : ''}.
+                Nothing is deleted if a create fails, and undo restores them.
+              </div>
+            ) : conflicts.length === 0 ? (
+              <p className="text-sm text-[#6b6b8a] text-center py-4">No name conflicts; every zone is added as new</p>
+            ) : (
+              <div>
+                <h3 className="text-sm font-medium text-[#e8e8e8] mb-2">
+                  {conflicts.length} name conflict{conflicts.length !== 1 ? 's' : ''}
+                </h3>
+                <div className="max-h-[40vh] overflow-y-auto rounded-xl border border-[#2a2a3e] divide-y divide-[#2a2a3e]/60">
+                  {conflicts.map(({ imported: zone, existing, differs }) => (
+                    <div key={zone.index} className="flex items-center gap-3 px-3 py-2 text-xs">
+                      <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: existing.color }} />
+                      <span className="text-[#e8e8e8] truncate">{existing.name}</span>
+                      <span className={differs ? 'text-[#f59e0b]' : 'text-[#555577]'}>
+                        {differs ? 'differs' : 'identical'}
+                      </span>
+                      <div className="relative ml-auto">
+                        <select
+                          value={resolutions[zone.index] ?? 'overwrite'}
+                          onChange={(e) =>
+                            setResolutions((prev) => ({
+                              ...prev,
+                              [zone.index]: e.target.value as ZoneConflictResolution,
+                            }))
+                          }
+                          disabled={applying}
+                          className="appearance-none bg-[#0a0a12] border border-[#2a2a3e] rounded-lg text-xs text-[#e8e8e8] pl-2 pr-7 py-1 focus:outline-none focus:border-[#f0a500]/40"
+                        >
+                          {(Object.keys(RESOLUTION_LABELS) as ZoneConflictResolution[]).map((r) => (
+                            <option key={r} value={r}>{RESOLUTION_LABELS[r]}</option>
+                          ))}
+                        </select>
+                        <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3 h-3 text-[#6b6b8a] pointer-events-none" />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-[#6b6b8a]">
+              {counts.create} to create · {counts.update} to overwrite · {counts.delete} to delete
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-4">
+          <button onClick={onClose} className="btn-secondary flex-1" disabled={applying}>
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!parsed || applying || actions.length === 0}
+            className="btn-primary flex-1 flex items-center justify-center gap-2"
+          >
+            {applying && <Loader2 className="h-4 w-4 animate-spin" />}
+            {mode === 'replace' ? 'Replace zones' : 'Import zones'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
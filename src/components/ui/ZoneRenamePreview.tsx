@@ -0,0 +1,179 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { RefreshCw, Loader2, ArrowRight } from 'lucide-react';
+import { GRENADE_TYPES } from '@/lib/constants';
+import type { Lineup, MapZone } from '@/lib/types';
+import { previewZoneRenames, type LineupRename } from '@/lib/zone-naming';
+
+interface ZoneRenamePreviewProps {
+  title: string;
+  // Null while loading
+  lineups: Lineup[] | null;
+  zones: MapZone[] | null;
+  // Saves the ticked names; the modal closes when it resolves and stays open if it throws
+  onApply: (renames: LineupRename[]) => Promise<void>;
+  onClose: () => void;
+}
+
+/** Before/after table of zone-resolved lineup names, with per-row opt-out. */
+export default function ZoneRenamePreview({ title, lineups, zones, onApply, onClose }: ZoneRenamePreviewProps) {
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [applying, setApplying] = useState(false);
+
+  const rows = useMemo(() => (lineups && zones ? previewZoneRenames(zones, lineups) : null), [lineups, zones]);
+  const changedRows = rows?.filter((r) => r.changed) ?? [];
+  const unresolved = rows?.filter((r) => r.name === null).length ?? 0;
+  const visibleRows = (changedOnly ? changedRows : rows) ?? [];
+  const renameCount = changedRows.filter((r) => !excluded.has(r.lineup.id)).length;
+
+  const toggle = (id: string) =>
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const handleApply = async () => {
+    if (!rows) return;
+    // Only the ticked rows are saved, with the names shown in the table
+    const renames = changedRows.flatMap((r) =>
+      r.name !== null && !excluded.has(r.lineup.id) ? [{ id: r.lineup.id, name: r.name }] : [],
+    );
+    setApplying(true);
+    try {
+      await onApply(renames);
+      onClose();
+    } catch {
+      // onApply reports the error; keep the table open to retry
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={() => !applying && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="glass rounded-2xl p-6 w-full max-w-3xl mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 rounded-lg bg-[#f0a500]/10">
+            <RefreshCw className="w-5 h-5 text-[#f0a500]" />
+          </div>
+          <h2 className="text-lg font-bold text-[#e8e8e8]">{title}</h2>
+        </div>
+
+        {!rows ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-sm text-[#6b6b8a]">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading lineups and zones...
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 text-xs text-[#6b6b8a] mb-3">
+              <span>
+                {changedRows.length} of {rows.length} lineups get a new name
+                {unresolved > 0 && ` · ${unresolved} outside every zone (kept)`}
+              </span>
+              <label className="ml-auto flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={changedOnly}
+                  onChange={(e) => setChangedOnly(e.target.checked)}
+                  className="accent-[#f0a500]"
+                />
+                Changed only
+              </label>
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto rounded-xl border border-[#2a2a3e]">
+              {visibleRows.length === 0 ? (
+                <p className="text-sm text-[#6b6b8a] text-center py-8">Every name already matches the zones</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-[#12121a] text-[#6b6b8a]">
+                    <tr>
+                      <th className="w-8 px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={changedRows.length > 0 && changedRows.every((r) => !excluded.has(r.lineup.id))}
+                          onChange={(e) =>
+                            setExcluded(e.target.checked ? new Set() : new Set(changedRows.map((r) => r.lineup.id)))
+                          }
+                          className="accent-[#f0a500]"
+                          title="Rename all"
+                        />
+                      </th>
+                      <th className="text-left font-medium px-3 py-2">Current name</th>
+                      <th className="w-6" />
+                      <th className="text-left font-medium px-3 py-2">From zones</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[#2a2a3e]/60">
+                    {visibleRows.map(({ lineup, name, changed }) => (
+                      <tr key={lineup.id} className={changed && !excluded.has(lineup.id) ? '' : 'opacity-50'}>
+                        <td className="px-3 py-1.5">
+                          {changed && (
+                            <input
+                              type="checkbox"
+                              checked={!excluded.has(lineup.id)}
+                              onChange={() => toggle(lineup.id)}
+                              disabled={applying}
+                              className="accent-[#f0a500]"
+                            />
+                          )}
+                        </td>
+                        <td className="px-3 py-1.5">
+                          <span className="flex items-center gap-2 text-[#9999aa]">
+                            <span
+                              className="w-2 h-2 rounded-full shrink-0"
+                              style={{ backgroundColor: GRENADE_TYPES[lineup.grenadeType].color }}
+                            />
+                            <span className="truncate">{lineup.name}</span>
+                          </span>
+                        </td>
+                        <td className="text-[#555577]">
+                          <ArrowRight className="h-3 w-3" />
+                        </td>
+                        <td className={`px-3 py-1.5 ${changed ? 'text-[#e8e8e8]' : 'text-[#555577]'}`}>
+                          {name ?? 'No zone'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3 mt-4">
+          <button onClick={onClose} className="btn-secondary flex-1" disabled={applying}>
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!rows || applying || renameCount === 0}
+            className="btn-primary flex-1 flex items-center justify-center gap-2"
+          >
+            {applying && <Loader2 className="h-4 w-4 animate-spin" />}
+            Rename {renameCount} lineup{renameCount !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
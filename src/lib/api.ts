@@ -8,13 +8,18 @@ import type {
   LineupCollection,
   CollectionWithLineups,
   Lineup,
+  LineupUpdateData,
+  LineupCreateData,
   HiddenLineup,
   MapZone,
+  MapDefinition,
   UserRole,
   Session,
   PaginatedSessions,
   ExhaustedUser,
   Course,
+  Execute,
+  ExecuteStepInput,
   Achievement,
   CourseDifficulty,
   AdminCollectionSearchResult,
@@ -75,6 +80,10 @@ const extract = <T>(r: { data: { data: T } }): T => r.data.data;
 // Helper to unwrap double-wrapped responses (admin endpoints): { data: { data: T } } -> T
 const unwrap = <T>(r: { data: { data: T } }): T => r.data.data;
 
+// Message from a failed request's error body, or the fallback
+export const apiErrorMessage = (error: unknown, fallback: string) =>
+  (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+
 // Admin Users
 export const adminUsersApi = {
   getAll: () => api.get('/admin/users').then((r) => unwrap<AdminUser[]>(r.data)),
@@ -119,6 +128,10 @@ export const lineupsApi = {
     api.get('/api/lineups/presets', { params: { map } }).then((r) => extract<Lineup[]>(r)),
   getById: (id: string) =>
     api.get(`/api/lineups/${id}`).then((r) => extract<Lineup>(r)),
+  create: (data: LineupCreateData) =>
+    api.post('/api/lineups', data).then((r) => extract<Lineup>(r)),
+  update: (id: string, data: LineupUpdateData) =>
+    api.put(`/api/lineups/${id}`, data).then((r) => extract<Lineup>(r)),
   delete: (id: string) => api.delete(`/api/lineups/${id}`),
 };
 
@@ -200,6 +213,15 @@ export const hiddenLineupsApi = {
     api.delete(`/admin/hidden-lineups/${id}`),
 };
 
+// Map registry
+export const mapsApi = {
+  getAll: () =>
+    api.get('/api/maps').then((r) => extract<MapDefinition[]>(r)),
+  // Replaces the whole registry; order follows sortOrder
+  save: (maps: MapDefinition[]) =>
+    api.put('/admin/maps', { maps }).then((r) => unwrap<MapDefinition[]>(r.data)),
+};
+
 // Map Zones
 export const zonesApi = {
   getAll: (mapName: string) =>
@@ -283,6 +305,23 @@ export const coursesApi = {
     api.delete(`/api/courses/${courseId}/collections/${collectionId}`),
   reorderCollections: (courseId: string, orderedCollectionIds: string[]) =>
     api.put(`/api/courses/${courseId}/collections/reorder`, { orderedCollectionIds }),
+  addExecute: (courseId: string, executeId: string, sortOrder?: number) =>
+    api.post(`/api/courses/${courseId}/executes`, { executeId, sortOrder }),
+  removeExecute: (courseId: string, executeId: string) =>
+    api.delete(`/api/courses/${courseId}/executes/${executeId}`),
+};
+
+// Executes
+export const executesApi = {
+  getAll: (map?: string) =>
+    api.get('/api/executes', { params: { map } }).then((r) => extract<Execute[]>(r)),
+  getById: (id: string) =>
+    api.get(`/api/executes/${id}`).then((r) => extract<Execute>(r)),
+  create: (data: { name: string; description?: string; mapName: string; steps: ExecuteStepInput[] }) =>
+    api.post('/api/executes', data).then((r) => extract<Execute>(r)),
+  update: (id: string, data: { name?: string; description?: string; steps?: ExecuteStepInput[] }) =>
+    api.put(`/api/executes/${id}`, data).then((r) => extract<Execute>(r)),
+  delete: (id: string) => api.delete(`/api/executes/${id}`),
 };
 
 // Admin Achievements
@@ -0,0 +1,255 @@
+import { apiErrorMessage, collectionsApi, lineupsApi } from './api';
+import { validateLineupImport } from './lineup-validation';
+import type {
+  Course,
+  CourseCollectionEntry,
+  CollectionDifficulty,
+  Lineup,
+  LineupCollection,
+  LineupCreateData,
+} from './types';
+
+// Version history of the export file:
+//   (none) original export: {collection: {id, name, description, mapName}, lineups} without movement paths
+//   1      same shape with a schemaVersion field and full lineups
+//   2      {kind, collections: [{collection, lineups}], course?, checksum?} with full collection metadata
+export const COLLECTION_SCHEMA_VERSION = 2;
+
+export type CollectionExportKind = 'collection' | 'map' | 'course';
+
+export interface ExportedCollection {
+  collection: LineupCollection;
+  lineups: Lineup[];
+}
+
+export interface ExportedCourse extends Omit<Course, 'courseCollections'> {
+  courseCollections: Omit<CourseCollectionEntry, 'collection'>[];
+}
+
+export interface CollectionExportFile {
+  schemaVersion: number;
+  kind: CollectionExportKind;
+  exportedAt: string;
+  mapName: string;
+  collections: ExportedCollection[];
+  course?: ExportedCourse;
+  // SHA-256 of the file serialised without this field
+  checksum?: string;
+}
+
+// ── Export ──
+
+const sha256 = async (text: string): Promise<string | undefined> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+const withChecksum = async (file: Omit<CollectionExportFile, 'checksum'>): Promise<CollectionExportFile> => {
+  const checksum = await sha256(JSON.stringify(file));
+  return checksum ? { ...file, checksum } : file;
+};
+
+const newExport = (kind: CollectionExportKind, mapName: string, collections: ExportedCollection[]) => ({
+  schemaVersion: COLLECTION_SCHEMA_VERSION,
+  kind,
+  exportedAt: new Date().toISOString(),
+  mapName,
+  collections,
+});
+
+export async function exportCollection(collectionId: string): Promise<CollectionExportFile> {
+  const data = await collectionsApi.getById(collectionId);
+  return withChecksum(newExport('collection', data.collection.mapName, [data]));
+}
+
+export async function exportMapCollections(mapName: string): Promise<CollectionExportFile> {
+  const collections = await collectionsApi.getAll(mapName);
+  const sorted = [...(Array.isArray(collections) ? collections : [])].sort((a, b) => a.sortOrder - b.sortOrder);
+  const data: ExportedCollection[] = [];
+  for (const c of sorted) {
+    data.push(await collectionsApi.getById(c.id));
+  }
+  return withChecksum(newExport('map', mapName, data));
+}
+
+export async function exportCourse(course: Course): Promise<CollectionExportFile> {
+  const entries = [...(course.courseCollections ?? [])].sort((a, b) => a.sortOrder - b.sortOrder);
+  const data: ExportedCollection[] = [];
+  for (const entry of entries) {
+    data.push(await collectionsApi.getById(entry.collectionId));
+  }
+  const { courseCollections, ...meta } = course;
+  return withChecksum({
+    ...newExport('course', course.mapName, data),
+    course: {
+      ...meta,
+      courseCollections: courseCollections.map(({ id, courseId, collectionId, sortOrder }) => ({
+        id,
+        courseId,
+        collectionId,
+        sortOrder,
+      })),
+    },
+  });
+}
+
+export const exportFileName = (name: string) =>
+  `${name.replace(/[^a-zA-Z0-9-_ ]/g, '').replace(/\s+/g, '-').toLowerCase()}.json`;
+
+export function downloadJson(data: unknown, fileName: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// ── Import ──
+
+/**
+ * Create an imported lineup and add it to a collection. When adding fails the
+ * new lineup is deleted again so it is not left outside every collection.
+ * Returns null on success, otherwise the message for the failure list.
+ */
+export async function importLineupIntoCollection(collectionId: string, data: LineupCreateData): Promise<string | null> {
+  let createdId: string | null = null;
+  try {
+    createdId = (await lineupsApi.create(data)).id;
+    await collectionsApi.addLineup(collectionId, createdId);
+    return null;
+  } catch (err) {
+    let error = apiErrorMessage(err, 'Request failed');
+    if (createdId) {
+      await lineupsApi.delete(createdId).catch(() => {
+        error += ' (the lineup was created but is in no collection)';
+      });
+    }
+    return error;
+  }
+}
+
+export interface ImportedCollectionMeta {
+  sourceId?: string;
+  name: string;
+  description?: string;
+  mapName: string;
+  isDefault: boolean;
+  isTraining: boolean;
+  difficulty: CollectionDifficulty | null;
+  parentCollectionId: string | null;
+  sortOrder: number;
+}
+
+export interface ImportedLineup {
+  index: number;
+  name: string;
+  data: LineupCreateData | null;
+  errors: string[];
+}
+
+export interface ImportedCollection {
+  collection: ImportedCollectionMeta;
+  lineups: ImportedLineup[];
+}
+
+export type ChecksumStatus = 'valid' | 'mismatch' | 'missing';
+
+export interface ParsedCollectionFile {
+  schemaVersion: number | null;
+  kind: CollectionExportKind;
+  checksum: ChecksumStatus;
+  collections: ImportedCollection[];
+  course?: ExportedCourse;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const DIFFICULTIES: CollectionDifficulty[] = ['easy', 'medium', 'hard'];
+
+function parseCollectionEntry(entry: unknown, position: number): ImportedCollection {
+  const label = `Collection #${position + 1}`;
+  if (!isObject(entry)) throw new Error(`${label} is not an object`);
+  const collection = entry.collection;
+  if (!isObject(collection)) throw new Error(`${label}: missing "collection" object`);
+  if (typeof collection.name !== 'string' || !collection.name.trim()) {
+    throw new Error(`${label}: collection name is missing`);
+  }
+  if (typeof collection.mapName !== 'string' || !collection.mapName) {
+    throw new Error(`${label}: collection mapName is missing`);
+  }
+  if (!Array.isArray(entry.lineups)) throw new Error(`${label}: missing "lineups" list`);
+
+  const mapName = collection.mapName;
+  const lineups = entry.lineups.map((raw, index) => {
+    const { data, errors } = validateLineupImport(raw, mapName);
+    const name = isObject(raw) && typeof raw.name === 'string' ? raw.name : `Lineup #${index + 1}`;
+    return { index, name, data, errors };
+  });
+
+  return {
+    collection: {
+      sourceId: typeof collection.id === 'string' ? collection.id : undefined,
+      name: collection.name.trim(),
+      description: typeof collection.description === 'string' ? collection.description : undefined,
+      mapName,
+      isDefault: collection.isDefault === true,
+      isTraining: collection.isTraining === true,
+      difficulty: DIFFICULTIES.includes(collection.difficulty as CollectionDifficulty)
+        ? (collection.difficulty as CollectionDifficulty)
+        : null,
+      parentCollectionId: typeof collection.parentCollectionId === 'string' ? collection.parentCollectionId : null,
+      sortOrder: typeof collection.sortOrder === 'number' ? collection.sortOrder : position,
+    },
+    lineups,
+  };
+}
+
+/**
+ * Parse any version of the collection export file. Throws when the file is
+ * not an export at all; invalid lineups are returned with their errors.
+ */
+export async function parseCollectionFile(json: unknown): Promise<ParsedCollectionFile> {
+  if (!isObject(json)) throw new Error('File is not a JSON object');
+
+  let schemaVersion: number | null = null;
+  if (json.schemaVersion !== undefined) {
+    if (typeof json.schemaVersion !== 'number' || !Number.isInteger(json.schemaVersion)) {
+      throw new Error('schemaVersion must be a whole number');
+    }
+    if (json.schemaVersion > COLLECTION_SCHEMA_VERSION) {
+      throw new Error(
+        `File uses schema version ${json.schemaVersion}; this panel supports up to ${COLLECTION_SCHEMA_VERSION}`,
+      );
+    }
+    schemaVersion = json.schemaVersion;
+  }
+
+  // Versions before 2 hold a single {collection, lineups} pair at the top level
+  if (schemaVersion === null || schemaVersion < 2) {
+    return { schemaVersion, kind: 'collection', checksum: 'missing', collections: [parseCollectionEntry(json, 0)] };
+  }
+
+  if (!Array.isArray(json.collections)) throw new Error('Missing "collections" list');
+  const kind: CollectionExportKind = json.kind === 'map' || json.kind === 'course' ? json.kind : 'collection';
+
+  let checksum: ChecksumStatus = 'missing';
+  if (typeof json.checksum === 'string') {
+    const { checksum: expected, ...rest } = json;
+    const actual = await sha256(JSON.stringify(rest));
+    checksum = actual === undefined ? 'missing' : actual === expected ? 'valid' : 'mismatch';
+  }
+
+  return {
+    schemaVersion,
+    kind,
+    checksum,
+    collections: json.collections.map(parseCollectionEntry),
+    course: kind === 'course' && isObject(json.course) ? (json.course as unknown as ExportedCourse) : undefined,
+  };
+}
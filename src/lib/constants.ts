@@ -16,6 +16,22 @@ export const GRENADE_TYPES = {
   he: { label: 'HE Grenade', color: '#ff4444' },
 } as const;
 
+export const LINEUP_DIFFICULTIES = {
+  easy: { label: 'Easy', color: '#22c55e' },
+  medium: { label: 'Medium', color: '#f59e0b' },
+  hard: { label: 'Hard', color: '#ef4444' },
+} as const;
+
+// Common values offered as suggestions; the backend accepts any string
+export const THROW_TYPE_SUGGESTIONS = ['normal', 'jump', 'run', 'runjump', 'walk', 'crouch'];
+export const THROW_STRENGTH_SUGGESTIONS = ['full', 'medium', 'short'];
+
+export const TEAM_SIDES = ['CT', 'T'] as const;
+
+// Zone priorities are whole numbers; higher wins when zones overlap
+export const ZONE_PRIORITY_MIN = 1;
+export const ZONE_PRIORITY_MAX = 20;
+
 export const MAP_COLORS: Record<string, string> = {
   de_mirage: '#f0a500',
   de_dust2: '#d4a574',
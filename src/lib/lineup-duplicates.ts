@@ -0,0 +1,125 @@
+import { EDITABLE_LINEUP_FIELDS } from './lineup-validation';
+import type { EditableLineupField, Lineup, LineupUpdateData } from './types';
+
+export interface DuplicateLimits {
+  // Game units between throw positions
+  throwDistance: number;
+  // Game units between landing positions
+  landingDistance: number;
+  // Degrees of pitch or yaw difference
+  angle: number;
+}
+
+export const DEFAULT_DUPLICATE_LIMITS: DuplicateLimits = {
+  throwDistance: 16,
+  landingDistance: 48,
+  angle: 2,
+};
+
+export interface DuplicateCluster {
+  id: string;
+  grenadeType: Lineup['grenadeType'];
+  // Suggested lineup to keep; always the first entry of `lineups`
+  keeper: Lineup;
+  lineups: Lineup[];
+}
+
+const distance = (a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+const yawDelta = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+export function isDuplicatePair(a: Lineup, b: Lineup, limits: DuplicateLimits): boolean {
+  if (a.grenadeType !== b.grenadeType) return false;
+  if (distance(a.throwPosition, b.throwPosition) > limits.throwDistance) return false;
+  if (distance(a.landingPosition, b.landingPosition) > limits.landingDistance) return false;
+  return (
+    Math.abs(a.throwAngles.pitch - b.throwAngles.pitch) <= limits.angle &&
+    yawDelta(a.throwAngles.yaw, b.throwAngles.yaw) <= limits.angle
+  );
+}
+
+const isEmptyValue = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+// More filled-in lineups are better merge targets; ties go to the oldest
+const completeness = (lineup: Lineup) =>
+  EDITABLE_LINEUP_FIELDS.filter((field) => !isEmptyValue(lineup[field])).length +
+  (lineup.movementPath?.length ? 1 : 0);
+
+const pickKeeper = (lineups: Lineup[]) =>
+  [...lineups].sort(
+    (a, b) => completeness(b) - completeness(a) || a.createdAt.localeCompare(b.createdAt),
+  )[0];
+
+/**
+ * Group lineups that are linked by a chain of duplicate pairs. Lineups
+ * without a duplicate are left out.
+ */
+export function findDuplicateClusters(lineups: Lineup[], limits: DuplicateLimits): DuplicateCluster[] {
+  const parent = lineups.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  // Sorting by throw X lets the inner loop stop once positions are too far apart
+  const order = lineups.map((_, i) => i).sort((a, b) => lineups[a].throwPosition.x - lineups[b].throwPosition.x);
+  for (let i = 0; i < order.length; i++) {
+    const a = lineups[order[i]];
+    for (let j = i + 1; j < order.length; j++) {
+      const b = lineups[order[j]];
+      if (b.throwPosition.x - a.throwPosition.x > limits.throwDistance) break;
+      if (isDuplicatePair(a, b, limits)) parent[find(order[i])] = find(order[j]);
+    }
+  }
+
+  const groups = new Map<number, Lineup[]>();
+  lineups.forEach((lineup, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), lineup]);
+  });
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => {
+      const keeper = pickKeeper(group);
+      return {
+        id: keeper.id,
+        grenadeType: keeper.grenadeType,
+        keeper,
+        lineups: [keeper, ...group.filter((l) => l !== keeper)],
+      };
+    })
+    .sort((a, b) => b.lineups.length - a.lineups.length);
+}
+
+// Positions describe the keeper's own throw; tags are combined instead of copied
+const UNMERGED_FIELDS: EditableLineupField[] = ['throwPosition', 'releasePosition', 'landingPosition', 'tags'];
+
+/**
+ * Fill the keeper's empty fields from the extras and combine their tags.
+ * Returns only the fields that change.
+ */
+export function mergeDuplicateFields(keeper: Lineup, extras: Lineup[]): LineupUpdateData {
+  const update: Record<string, unknown> = {};
+  for (const field of EDITABLE_LINEUP_FIELDS) {
+    if (UNMERGED_FIELDS.includes(field) || !isEmptyValue(keeper[field])) continue;
+    const donor = extras.find((l) => !isEmptyValue(l[field]));
+    if (donor) update[field] = donor[field];
+  }
+
+  const tags = [...keeper.tags];
+  for (const tag of extras.flatMap((l) => l.tags)) {
+    if (!tags.some((t) => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  }
+  if (tags.length !== keeper.tags.length) update.tags = tags;
+
+  return update as LineupUpdateData;
+}
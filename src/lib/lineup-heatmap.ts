@@ -0,0 +1,33 @@
+import type { Lineup } from './types';
+
+export type HeatmapSource = 'throw' | 'landing';
+
+export interface HeatmapFilters {
+  source: HeatmapSource;
+  grenadeType: 'all' | Lineup['grenadeType'];
+  teamSide: 'all' | 'CT' | 'T';
+  roundWon: 'all' | 'won' | 'lost';
+}
+
+export const DEFAULT_HEATMAP_FILTERS: HeatmapFilters = {
+  source: 'landing',
+  grenadeType: 'all',
+  teamSide: 'all',
+  roundWon: 'all',
+};
+
+/**
+ * World positions to plot for the given filters. Side and round filters only
+ * match lineups that carry pro demo metadata.
+ */
+export function heatmapPoints(lineups: Lineup[], filters: HeatmapFilters): Lineup['throwPosition'][] {
+  return lineups
+    .filter((l) => {
+      if (filters.grenadeType !== 'all' && l.grenadeType !== filters.grenadeType) return false;
+      if (filters.teamSide !== 'all' && l.teamSide?.toUpperCase() !== filters.teamSide) return false;
+      if (filters.roundWon === 'won' && l.roundWon !== true) return false;
+      if (filters.roundWon === 'lost' && l.roundWon !== false) return false;
+      return true;
+    })
+    .map((l) => (filters.source === 'throw' ? l.throwPosition : l.landingPosition));
+}
@@ -0,0 +1,96 @@
+import type { Lineup } from './types';
+
+type GrenadeType = Lineup['grenadeType'];
+
+export type ScoreMetric = 'damage' | 'blinded' | 'blindDuration' | 'flashAssists' | 'roundWon' | 'usage';
+
+export type ScoreWeights = Record<ScoreMetric, number>;
+
+export const SCORE_METRICS: { key: ScoreMetric; label: string }[] = [
+  { key: 'damage', label: 'Damage' },
+  { key: 'blinded', label: 'Enemies blinded' },
+  { key: 'blindDuration', label: 'Blind duration' },
+  { key: 'flashAssists', label: 'Flash assists' },
+  { key: 'roundWon', label: 'Round won' },
+  { key: 'usage', label: 'Usage' },
+];
+
+export const MAX_SCORE_WEIGHT = 10;
+
+export const DEFAULT_SCORE_WEIGHTS: Record<GrenadeType, ScoreWeights> = {
+  smoke: { damage: 0, blinded: 0, blindDuration: 0, flashAssists: 0, roundWon: 5, usage: 5 },
+  flash: { damage: 0, blinded: 4, blindDuration: 2, flashAssists: 5, roundWon: 2, usage: 2 },
+  molotov: { damage: 5, blinded: 0, blindDuration: 0, flashAssists: 0, roundWon: 3, usage: 3 },
+  he: { damage: 6, blinded: 0, blindDuration: 0, flashAssists: 0, roundWon: 2, usage: 2 },
+};
+
+const STORAGE_KEY = 'nl_admin_score_weights';
+
+/** Saved weights per grenade type, falling back to the defaults for anything missing. */
+export function loadScoreWeights(): Record<GrenadeType, ScoreWeights> {
+  const weights = structuredClone(DEFAULT_SCORE_WEIGHTS);
+  if (typeof window === 'undefined') return weights;
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Partial<Record<GrenadeType, Partial<ScoreWeights>>>;
+    for (const type of Object.keys(weights) as GrenadeType[]) {
+      for (const { key } of SCORE_METRICS) {
+        const value = saved[type]?.[key];
+        if (typeof value === 'number' && Number.isFinite(value)) weights[type][key] = value;
+      }
+    }
+  } catch {
+    // Ignore unreadable presets and use the defaults
+  }
+  return weights;
+}
+
+export function saveScoreWeights(weights: Record<GrenadeType, ScoreWeights>): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(weights));
+}
+
+// Lineup names come from the zone resolver, so repeated throws of one lineup share a name
+const usageKey = (lineup: Lineup) => `${lineup.grenadeType}|${lineup.name.trim().toLowerCase()}`;
+
+const rawMetrics = (lineup: Lineup, usage: number): ScoreWeights => ({
+  damage: lineup.totalDamage ?? 0,
+  blinded: lineup.enemiesBlinded ?? 0,
+  blindDuration: lineup.totalBlindDuration ?? 0,
+  flashAssists: lineup.flashAssists ?? 0,
+  roundWon: lineup.roundWon ? 1 : 0,
+  usage,
+});
+
+/**
+ * Score each lineup from 0 to 100 against the other candidates of the same
+ * grenade type. Every metric is scaled by its maximum among those candidates
+ * before weighting.
+ */
+export function scoreLineups(
+  lineups: Lineup[],
+  weights: Record<GrenadeType, ScoreWeights>,
+): Map<string, number> {
+  const usage = new Map<string, number>();
+  for (const lineup of lineups) usage.set(usageKey(lineup), (usage.get(usageKey(lineup)) ?? 0) + 1);
+
+  const metrics = lineups.map((lineup) => rawMetrics(lineup, usage.get(usageKey(lineup)) ?? 0));
+  const maxima = new Map<GrenadeType, ScoreWeights>();
+  lineups.forEach((lineup, i) => {
+    const max = maxima.get(lineup.grenadeType) ?? { ...metrics[i] };
+    for (const { key } of SCORE_METRICS) max[key] = Math.max(max[key], metrics[i][key]);
+    maxima.set(lineup.grenadeType, max);
+  });
+
+  const scores = new Map<string, number>();
+  lineups.forEach((lineup, i) => {
+    const w = weights[lineup.grenadeType];
+    const max = maxima.get(lineup.grenadeType)!;
+    let total = 0;
+    let weightSum = 0;
+    for (const { key } of SCORE_METRICS) {
+      weightSum += w[key];
+      if (max[key] > 0) total += (w[key] * metrics[i][key]) / max[key];
+    }
+    scores.set(lineup.id, weightSum > 0 ? Math.round((total / weightSum) * 100) : 0);
+  });
+  return scores;
+}
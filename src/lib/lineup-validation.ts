@@ -0,0 +1,259 @@
+import { GRENADE_TYPES, LINEUP_DIFFICULTIES } from './constants';
+import type { EditableLineupField, Lineup, LineupCreateData, LineupUpdateData } from './types';
+
+export type LineupFieldErrors = Partial<Record<EditableLineupField, string>>;
+
+export interface LineupFieldChange {
+  field: EditableLineupField;
+  before: unknown;
+  after: unknown;
+}
+
+export const LINEUP_FIELD_LABELS: Record<EditableLineupField, string> = {
+  throwPosition: 'Throw Position',
+  releasePosition: 'Release Position',
+  landingPosition: 'Landing Position',
+  name: 'Name',
+  description: 'Description',
+  grenadeType: 'Grenade Type',
+  throwType: 'Throw Type',
+  throwStrength: 'Throw Strength',
+  instructions: 'Instructions',
+  difficulty: 'Difficulty',
+  tags: 'Tags',
+  isPublic: 'Public',
+  playerName: 'Player',
+  teamName: 'Team',
+  teamSide: 'Side',
+  roundNumber: 'Round',
+  roundTimeSeconds: 'Round Time (s)',
+  roundWon: 'Round Won',
+  playersAliveCt: 'CT Alive',
+  playersAliveT: 'T Alive',
+  isPistolRound: 'Pistol Round',
+  totalDamage: 'Total Damage',
+  enemiesBlinded: 'Enemies Blinded',
+  totalBlindDuration: 'Blind Duration (s)',
+  flashAssists: 'Flash Assists',
+};
+
+export const EDITABLE_LINEUP_FIELDS = Object.keys(LINEUP_FIELD_LABELS) as EditableLineupField[];
+
+export function isGrenadeType(value: unknown): value is Lineup['grenadeType'] {
+  return typeof value === 'string' && value in GRENADE_TYPES;
+}
+
+export function isLineupDifficulty(value: unknown): value is Lineup['difficulty'] {
+  return typeof value === 'string' && value in LINEUP_DIFFICULTIES;
+}
+
+/** Copy the editable fields of a lineup into a draft for the edit form. */
+export function toLineupDraft(lineup: Lineup): LineupUpdateData {
+  const draft: LineupUpdateData = {};
+  for (const field of EDITABLE_LINEUP_FIELDS) {
+    const value = lineup[field];
+    (draft as Record<string, unknown>)[field] = Array.isArray(value)
+      ? [...value]
+      : value && typeof value === 'object' ? { ...value } : value;
+  }
+  return draft;
+}
+
+const checkInteger = (value: number | null | undefined, min: number, max = Infinity): string | null => {
+  if (value === null || value === undefined) return null;
+  if (!Number.isInteger(value)) return 'Must be a whole number';
+  if (value < min || value > max) {
+    return max === Infinity ? `Must be at least ${min}` : `Must be between ${min} and ${max}`;
+  }
+  return null;
+};
+
+const checkNumber = (value: number | null | undefined, min: number): string | null => {
+  if (value === null || value === undefined) return null;
+  if (!Number.isFinite(value)) return 'Must be a number';
+  if (value < min) return `Must be at least ${min}`;
+  return null;
+};
+
+/** Check a draft against the Lineup field types. Returns an empty object when valid. */
+export function validateLineupUpdate(data: LineupUpdateData): LineupFieldErrors {
+  const errors: LineupFieldErrors = {};
+
+  if (data.name !== undefined && !data.name?.trim()) errors.name = 'Name is required';
+  if (data.grenadeType !== undefined && !isGrenadeType(data.grenadeType)) {
+    errors.grenadeType = `Must be one of ${Object.keys(GRENADE_TYPES).join(', ')}`;
+  }
+  if (data.difficulty !== undefined && !isLineupDifficulty(data.difficulty)) {
+    errors.difficulty = `Must be one of ${Object.keys(LINEUP_DIFFICULTIES).join(', ')}`;
+  }
+  if (data.throwType !== undefined && !data.throwType?.trim()) errors.throwType = 'Throw type is required';
+  if (data.instructions !== undefined) {
+    if (!Array.isArray(data.instructions)) {
+      errors.instructions = 'Must be a list';
+    } else if (data.instructions.some((step) => !step.trim())) {
+      errors.instructions = 'Remove empty steps';
+    }
+  }
+  if (data.tags !== undefined) {
+    if (!Array.isArray(data.tags)) {
+      errors.tags = 'Must be a list';
+    } else if (new Set(data.tags.map((t) => t.toLowerCase())).size !== data.tags.length) {
+      errors.tags = 'Tags must be unique';
+    }
+  }
+
+  for (const field of ['throwPosition', 'releasePosition', 'landingPosition'] as const) {
+    const pos = data[field];
+    if (pos && ![pos.x, pos.y, pos.z].every(Number.isFinite)) errors[field] = 'Coordinates must be numbers';
+  }
+
+  const integerChecks: [EditableLineupField, string | null][] = [
+    ['roundNumber', checkInteger(data.roundNumber, 1)],
+    ['playersAliveCt', checkInteger(data.playersAliveCt, 0, 5)],
+    ['playersAliveT', checkInteger(data.playersAliveT, 0, 5)],
+    ['totalDamage', checkInteger(data.totalDamage, 0)],
+    ['enemiesBlinded', checkInteger(data.enemiesBlinded, 0, 5)],
+    ['flashAssists', checkInteger(data.flashAssists, 0, 5)],
+    ['roundTimeSeconds', checkNumber(data.roundTimeSeconds, 0)],
+    ['totalBlindDuration', checkNumber(data.totalBlindDuration, 0)],
+  ];
+  for (const [field, error] of integerChecks) {
+    if (error) errors[field] = error;
+  }
+
+  return errors;
+}
+
+const isPosition = (value: unknown): value is { x: number; y: number; z: number } =>
+  !!value && typeof value === 'object' && 'x' in value && 'y' in value && 'z' in value;
+
+const normalize = (value: unknown): unknown => (value === '' || value === undefined ? null : value);
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (Array.isArray(na) && Array.isArray(nb)) {
+    return na.length === nb.length && na.every((v, i) => v === nb[i]);
+  }
+  if (isPosition(na) && isPosition(nb)) {
+    return na.x === nb.x && na.y === nb.y && na.z === nb.z;
+  }
+  return na === nb;
+};
+
+/** List every editable field whose draft value differs from the original lineup. */
+export function diffLineup(original: Lineup, draft: LineupUpdateData): LineupFieldChange[] {
+  return EDITABLE_LINEUP_FIELDS
+    .filter((field) => field in draft && !isSameValue(original[field], draft[field]))
+    .map((field) => ({ field, before: original[field], after: draft[field] }));
+}
+
+/** Build the update payload from a diff. Cleared optional fields are sent as null. */
+export function changesToPayload(changes: LineupFieldChange[]): LineupUpdateData {
+  const payload: Record<string, unknown> = {};
+  for (const { field, after } of changes) {
+    payload[field] = normalize(after);
+  }
+  return payload as LineupUpdateData;
+}
+
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length === 0 ? '—' : value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (isPosition(value)) return `${value.x.toFixed(1)}, ${value.y.toFixed(1)}, ${value.z.toFixed(1)}`;
+  return String(value);
+}
+
+// ── Full lineup validation (imports) ──
+
+export interface LineupImportResult {
+  data: LineupCreateData | null;
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isVector = (value: unknown): value is { x: number; y: number; z: number } =>
+  isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) && isFiniteNumber(value.z);
+
+const isAngles = (value: unknown): value is { pitch: number; yaw: number } =>
+  isObject(value) && isFiniteNumber(value.pitch) && isFiniteNumber(value.yaw);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+const OPTIONAL_STRING_FIELDS = [
+  'description', 'throwStrength', 'playerName', 'teamName', 'teamSide', 'proMatchId', 'proDemoId',
+] as const;
+const OPTIONAL_NUMBER_FIELDS = [
+  'roundNumber', 'roundTimeSeconds', 'playersAliveCt', 'playersAliveT', 'totalDamage',
+  'enemiesBlinded', 'totalBlindDuration', 'flashAssists', 'fixPointIndex',
+] as const;
+const OPTIONAL_BOOLEAN_FIELDS = ['roundWon', 'isPistolRound'] as const;
+
+/**
+ * Check an untrusted object (e.g. from an import file) against the Lineup type.
+ * Returns the create payload when valid, otherwise every problem found.
+ */
+export function validateLineupImport(raw: unknown, mapName: string): LineupImportResult {
+  if (!isObject(raw)) return { data: null, errors: ['Not an object'] };
+  const errors: string[] = [];
+
+  if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push('name: required');
+  if (!isGrenadeType(raw.grenadeType)) errors.push(`grenadeType: must be one of ${Object.keys(GRENADE_TYPES).join(', ')}`);
+  if (!isLineupDifficulty(raw.difficulty)) errors.push(`difficulty: must be one of ${Object.keys(LINEUP_DIFFICULTIES).join(', ')}`);
+  if (typeof raw.throwType !== 'string' || !raw.throwType.trim()) errors.push('throwType: required');
+  if (!isVector(raw.throwPosition)) errors.push('throwPosition: expected {x, y, z}');
+  if (!isVector(raw.landingPosition)) errors.push('landingPosition: expected {x, y, z}');
+  if (raw.releasePosition != null && !isVector(raw.releasePosition)) errors.push('releasePosition: expected {x, y, z}');
+  if (!isAngles(raw.throwAngles)) errors.push('throwAngles: expected {pitch, yaw}');
+  if (!isStringArray(raw.instructions)) errors.push('instructions: expected a list of strings');
+  if (!isStringArray(raw.tags)) errors.push('tags: expected a list of strings');
+  if (raw.movementPath != null) {
+    if (!Array.isArray(raw.movementPath) || !raw.movementPath.every((p) => isVector(p) && isAngles(p))) {
+      errors.push('movementPath: expected a list of {x, y, z, pitch, yaw}');
+    }
+  }
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    if (raw[field] != null && typeof raw[field] !== 'string') errors.push(`${field}: expected a string`);
+  }
+  for (const field of OPTIONAL_NUMBER_FIELDS) {
+    if (raw[field] != null && !isFiniteNumber(raw[field])) errors.push(`${field}: expected a number`);
+  }
+  for (const field of OPTIONAL_BOOLEAN_FIELDS) {
+    if (raw[field] != null && typeof raw[field] !== 'boolean') errors.push(`${field}: expected true or false`);
+  }
+  if (errors.length > 0) return { data: null, errors };
+
+  const lineup = raw as unknown as Lineup;
+  const data: LineupCreateData = {
+    mapName,
+    isPublic: typeof raw.isPublic === 'boolean' ? raw.isPublic : false,
+    isPreset: typeof raw.isPreset === 'boolean' ? raw.isPreset : true,
+    grenadeType: lineup.grenadeType,
+    name: lineup.name.trim(),
+    throwPosition: lineup.throwPosition,
+    throwAngles: lineup.throwAngles,
+    landingPosition: lineup.landingPosition,
+    throwType: lineup.throwType,
+    instructions: lineup.instructions,
+    difficulty: lineup.difficulty,
+    tags: lineup.tags,
+  };
+  if (lineup.releasePosition) data.releasePosition = lineup.releasePosition;
+  if (lineup.movementPath) data.movementPath = lineup.movementPath;
+  const optional = data as unknown as Record<string, unknown>;
+  for (const field of [...OPTIONAL_STRING_FIELDS, ...OPTIONAL_NUMBER_FIELDS, ...OPTIONAL_BOOLEAN_FIELDS]) {
+    if (raw[field] != null) optional[field] = raw[field];
+  }
+
+  // Range checks shared with the lineup editor
+  for (const [field, error] of Object.entries(validateLineupUpdate(data))) {
+    errors.push(`${field}: ${error}`);
+  }
+  return errors.length > 0 ? { data: null, errors } : { data, errors };
+}
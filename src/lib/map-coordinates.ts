@@ -1,13 +1,31 @@
+import { MAPS } from './constants';
+
+export type MapName = (typeof MAPS)[number]['name'];
+
+export interface RadarLayer {
+  // Shown on the layer switcher
+  label: string;
+  radarImage: string;
+  // Heights drawn on this layer, minZ inclusive and maxZ exclusive; a missing bound is open
+  minZ?: number;
+  maxZ?: number;
+}
+
 export interface MapCoordinateConfig {
   posX: number;
   posY: number;
   scale: number;
   radarImage: string;
+  // Vertical levels, top first. Without layers, radarImage is used at every height.
+  layers?: RadarLayer[];
+  // Older two-level form, still read from saved registry calibrations
   lowerRadarImage?: string;
   zSplitThreshold?: number;
 }
 
-export const MAP_COORDINATES: Record<string, MapCoordinateConfig> = {
+// Values from each map's overview file (pos_x, pos_y, scale). Multi-level maps
+// also list one radar image per level with the Z range it covers.
+const CALIBRATIONS = {
   de_dust2: {
     posX: -2476,
     posY: 3239,
@@ -31,8 +49,10 @@ export const MAP_COORDINATES: Record<string, MapCoordinateConfig> = {
     posY: 2887,
     scale: 7.0,
     radarImage: '/maps/radar/de_nuke.png',
-    lowerRadarImage: '/maps/radar/de_nuke_lower.png',
-    zSplitThreshold: -495,
+    layers: [
+      { label: 'Upper', radarImage: '/maps/radar/de_nuke.png', minZ: -495 },
+      { label: 'Lower', radarImage: '/maps/radar/de_nuke_lower.png', maxZ: -495 },
+    ],
   },
   de_overpass: {
     posX: -4831,
@@ -52,9 +72,44 @@ export const MAP_COORDINATES: Record<string, MapCoordinateConfig> = {
     scale: 5.22,
     radarImage: '/maps/radar/de_anubis.png',
   },
-};
+  de_vertigo: {
+    posX: -3168,
+    posY: 1762,
+    scale: 4.0,
+    radarImage: '/maps/radar/de_vertigo.png',
+    layers: [
+      { label: 'Upper', radarImage: '/maps/radar/de_vertigo.png', minZ: 11700 },
+      { label: 'Lower', radarImage: '/maps/radar/de_vertigo_lower.png', maxZ: 11700 },
+    ],
+  },
+} satisfies Record<MapName, MapCoordinateConfig>;
+
+// Indexed by plain strings, so lookups for unknown maps are typed as missing
+export const MAP_COORDINATES: Partial<Record<string, MapCoordinateConfig>> = CALIBRATIONS;
 
-const RADAR_SIZE = 1024;
+// Radar images are square; calibration values assume this many pixels per side
+export const RADAR_SIZE = 1024;
+
+/** Layers to offer on the radar; the older lower-image form becomes two layers. */
+export function radarLayers(config: MapCoordinateConfig): RadarLayer[] {
+  if (config.layers && config.layers.length > 0) return config.layers;
+  if (config.lowerRadarImage) {
+    const split = config.zSplitThreshold;
+    return [
+      { label: 'Upper', radarImage: config.radarImage, minZ: split },
+      { label: 'Lower', radarImage: config.lowerRadarImage, maxZ: split },
+    ];
+  }
+  return [{ label: 'Default', radarImage: config.radarImage }];
+}
+
+export const layerContainsZ = (layer: RadarLayer, z: number) =>
+  (layer.minZ === undefined || z >= layer.minZ) && (layer.maxZ === undefined || z < layer.maxZ);
+
+/** Whether a zone's Z range overlaps the layer; null bounds are open, as on MapZone. */
+export const layerOverlapsRange = (layer: RadarLayer, zMin: number | null, zMax: number | null) =>
+  (layer.maxZ === undefined || zMin === null || zMin < layer.maxZ) &&
+  (layer.minZ === undefined || zMax === null || zMax >= layer.minZ);
 
 export function worldToRadar(
   worldX: number,
@@ -75,3 +130,19 @@ export function radarToWorld(
   const y = config.posY - (radarY / 100) * (config.scale * RADAR_SIZE);
   return { x, y };
 }
+
+/** Even-odd ray casting test. Works in any coordinate space (world or radar %). */
+export function pointInPolygon(
+  point: { x: number; y: number },
+  polygon: { x: number; y: number }[],
+): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
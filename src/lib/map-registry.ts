@@ -0,0 +1,63 @@
+import { MAPS, MAP_COLORS } from './constants';
+import { MAP_COORDINATES, type MapCoordinateConfig } from './map-coordinates';
+import type { MapDefinition } from './types';
+
+export const DEFAULT_MAP_COLOR = '#f0a500';
+
+// Used until the server registry loads, and when it cannot be reached
+export const BUILT_IN_MAPS: MapDefinition[] = MAPS.map((m, i) => ({
+  name: m.name,
+  displayName: m.displayName,
+  color: MAP_COLORS[m.name] ?? DEFAULT_MAP_COLOR,
+  enabled: true,
+  sortOrder: i,
+}));
+
+export const sortMaps = (maps: MapDefinition[]) =>
+  [...maps].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+
+/** Registry calibration first, then the built-in table. */
+export const resolveCalibration = (map: MapDefinition | undefined, mapName: string): MapCoordinateConfig | undefined =>
+  map?.calibration ?? MAP_COORDINATES[mapName];
+
+/** Check a registry entry before saving; returns an error message or null. */
+export function validateMapDefinition(map: MapDefinition, all: MapDefinition[]): string | null {
+  if (!/^[a-z0-9_]+$/.test(map.name)) return `"${map.name}" must use lowercase letters, digits and underscores`;
+  if (all.filter((m) => m.name === map.name).length > 1) return `"${map.name}" is listed twice`;
+  if (!map.displayName.trim()) return `${map.name} needs a display name`;
+  if (!/^#[0-9a-f]{6}$/i.test(map.color)) return `${map.name} has an invalid colour`;
+  const c = map.calibration;
+  if (c && !(c.scale > 0 && Number.isFinite(c.posX) && Number.isFinite(c.posY) && c.radarImage)) {
+    return `${map.name} has an incomplete calibration`;
+  }
+  return null;
+}
+
+/** Read a calibration downloaded from the calibration page: `{ mapName, ...config }`. */
+export function parseCalibrationFile(data: unknown): { mapName: string | null; config: MapCoordinateConfig } {
+  if (!data || typeof data !== 'object') throw new Error('File is not a calibration');
+  const d = data as Record<string, unknown>;
+  const num = (key: string) => {
+    if (typeof d[key] !== 'number' || !Number.isFinite(d[key])) throw new Error(`Calibration is missing ${key}`);
+    return d[key] as number;
+  };
+  if (typeof d.radarImage !== 'string' || !d.radarImage) throw new Error('Calibration is missing radarImage');
+  const config: MapCoordinateConfig = { posX: num('posX'), posY: num('posY'), scale: num('scale'), radarImage: d.radarImage };
+  if (!(config.scale > 0)) throw new Error('Calibration scale must be positive');
+  if (Array.isArray(d.layers) && d.layers.length > 0) {
+    config.layers = d.layers.map((layer: unknown, i) => {
+      const l = (layer ?? {}) as Record<string, unknown>;
+      if (typeof l.radarImage !== 'string' || !l.radarImage) throw new Error(`Layer ${i + 1} is missing radarImage`);
+      const bound = (key: 'minZ' | 'maxZ') => {
+        if (l[key] === undefined) return {};
+        if (typeof l[key] !== 'number' || !Number.isFinite(l[key])) throw new Error(`Layer ${i + 1} has an invalid ${key}`);
+        return { [key]: l[key] as number };
+      };
+      return { label: typeof l.label === 'string' && l.label ? l.label : `Level ${i + 1}`, radarImage: l.radarImage, ...bound('minZ'), ...bound('maxZ') };
+    });
+  } else if (typeof d.lowerRadarImage === 'string' && d.lowerRadarImage) {
+    config.lowerRadarImage = d.lowerRadarImage;
+    if (d.zSplitThreshold !== undefined) config.zSplitThreshold = num('zSplitThreshold');
+  }
+  return { mapName: typeof d.mapName === 'string' ? d.mapName : null, config };
+}
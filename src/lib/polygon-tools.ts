@@ -0,0 +1,65 @@
+export type Vertex = { x: number; y: number };
+
+/** Closest candidate within maxDistance of the point, or null. */
+export function nearestVertex(point: Vertex, candidates: Vertex[], maxDistance: number): Vertex | null {
+  let best: Vertex | null = null;
+  let bestDistance = maxDistance;
+  for (const c of candidates) {
+    const d = Math.hypot(c.x - point.x, c.y - point.y);
+    if (d <= bestDistance) {
+      best = c;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+function distanceToSegment(p: Vertex, a: Vertex, b: Vertex): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// Douglas–Peucker on an open chain; keeps both ends
+function simplifyChain(points: Vertex[], tolerance: number): Vertex[] {
+  if (points.length <= 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  let index = 0;
+  let maxDistance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], first, last);
+    if (d > maxDistance) {
+      index = i;
+      maxDistance = d;
+    }
+  }
+  if (maxDistance <= tolerance) return [first, last];
+  const left = simplifyChain(points.slice(0, index + 1), tolerance);
+  const right = simplifyChain(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
+
+/**
+ * Drop vertices that sit within `tolerance` of the outline without them.
+ * The polygon is split at its first vertex and the vertex farthest from it so
+ * both halves keep their extremes; never returns fewer than 3 vertices.
+ */
+export function simplifyPolygon(polygon: Vertex[], tolerance: number): Vertex[] {
+  if (polygon.length <= 3) return polygon;
+  let far = 1;
+  for (let i = 2; i < polygon.length; i++) {
+    if (Math.hypot(polygon[i].x - polygon[0].x, polygon[i].y - polygon[0].y) >
+        Math.hypot(polygon[far].x - polygon[0].x, polygon[far].y - polygon[0].y)) {
+      far = i;
+    }
+  }
+  const forward = simplifyChain(polygon.slice(0, far + 1), tolerance);
+  const back = simplifyChain([...polygon.slice(far), polygon[0]], tolerance);
+  const result = [...forward.slice(0, -1), ...back.slice(0, -1)];
+  return result.length >= 3 ? result : polygon;
+}
+
+export const midpoint = (a: Vertex, b: Vertex): Vertex => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
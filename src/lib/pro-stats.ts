@@ -0,0 +1,167 @@
+import type { Lineup } from './types';
+
+type GrenadeType = Lineup['grenadeType'];
+
+export interface ProStatsGroup {
+  key: string;
+  lineups: Lineup[];
+  count: number;
+  byGrenade: Record<GrenadeType, number>;
+  won: number;
+  lost: number;
+  // Share of rounds won among lineups with a known result; null when none are known
+  winRate: number | null;
+  pistol: number;
+  totalDamage: number;
+  enemiesBlinded: number;
+  totalBlindDuration: number;
+  flashAssists: number;
+}
+
+/** Lineups imported from pro demos carry a player or match reference. */
+export const isProLineup = (lineup: Lineup) => !!(lineup.playerName || lineup.proMatchId || lineup.proDemoId);
+
+export function summarizeLineups(key: string, lineups: Lineup[]): ProStatsGroup {
+  const byGrenade: Record<GrenadeType, number> = { smoke: 0, flash: 0, molotov: 0, he: 0 };
+  let won = 0;
+  let lost = 0;
+  let pistol = 0;
+  let totalDamage = 0;
+  let enemiesBlinded = 0;
+  let totalBlindDuration = 0;
+  let flashAssists = 0;
+  for (const l of lineups) {
+    byGrenade[l.grenadeType]++;
+    if (l.roundWon === true) won++;
+    if (l.roundWon === false) lost++;
+    if (l.isPistolRound) pistol++;
+    totalDamage += l.totalDamage ?? 0;
+    enemiesBlinded += l.enemiesBlinded ?? 0;
+    totalBlindDuration += l.totalBlindDuration ?? 0;
+    flashAssists += l.flashAssists ?? 0;
+  }
+  return {
+    key,
+    lineups,
+    count: lineups.length,
+    byGrenade,
+    won,
+    lost,
+    winRate: won + lost > 0 ? won / (won + lost) : null,
+    pistol,
+    totalDamage,
+    enemiesBlinded,
+    totalBlindDuration,
+    flashAssists,
+  };
+}
+
+/** Aggregate lineups by a key, largest groups first. Lineups without a key are skipped. */
+export function groupLineupStats(
+  lineups: Lineup[],
+  keyOf: (lineup: Lineup) => string | undefined | null,
+): ProStatsGroup[] {
+  const groups = new Map<string, Lineup[]>();
+  for (const lineup of lineups) {
+    const key = keyOf(lineup)?.trim();
+    if (!key) continue;
+    const list = groups.get(key);
+    if (list) list.push(lineup);
+    else groups.set(key, [lineup]);
+  }
+  return [...groups.entries()]
+    .map(([key, list]) => summarizeLineups(key, list))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+export const formatWinRate = (winRate: number | null) =>
+  winRate === null ? '—' : `${Math.round(winRate * 100)}%`;
+
+export interface ProRound {
+  roundNumber: number | null;
+  roundWon: boolean | null;
+  // Ordered by time into the round
+  lineups: Lineup[];
+}
+
+export interface ProDemoGroup {
+  key: string;
+  matchId: string | null;
+  demoId: string | null;
+  teams: string[];
+  players: string[];
+  lineups: Lineup[];
+  rounds: ProRound[];
+}
+
+export interface ProMatchGroup {
+  key: string;
+  matchId: string | null;
+  demos: ProDemoGroup[];
+  lineupCount: number;
+}
+
+const NO_ID = '—';
+
+const distinct = (values: (string | undefined)[]) =>
+  [...new Set(values.filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b));
+
+function buildRounds(lineups: Lineup[]): ProRound[] {
+  const rounds = new Map<number | null, Lineup[]>();
+  for (const lineup of lineups) {
+    const round = lineup.roundNumber ?? null;
+    rounds.set(round, [...(rounds.get(round) ?? []), lineup]);
+  }
+  return [...rounds.entries()]
+    // Lineups without a round number go last
+    .sort(([a], [b]) => (a ?? Infinity) - (b ?? Infinity))
+    .map(([roundNumber, list]) => ({
+      roundNumber,
+      roundWon: list.find((l) => l.roundWon !== undefined)?.roundWon ?? null,
+      lineups: [...list].sort((a, b) => (a.roundTimeSeconds ?? Infinity) - (b.roundTimeSeconds ?? Infinity)),
+    }));
+}
+
+/**
+ * Group pro lineups by match, then by demo, with each demo's utility laid out
+ * round by round. Matches and demos with the most lineups come first.
+ */
+export function groupProDemos(lineups: Lineup[]): ProMatchGroup[] {
+  const matches = new Map<string, Map<string, Lineup[]>>();
+  for (const lineup of lineups) {
+    if (!lineup.proMatchId && !lineup.proDemoId) continue;
+    const matchKey = lineup.proMatchId ?? NO_ID;
+    const demoKey = lineup.proDemoId ?? NO_ID;
+    const demos = matches.get(matchKey) ?? new Map<string, Lineup[]>();
+    demos.set(demoKey, [...(demos.get(demoKey) ?? []), lineup]);
+    matches.set(matchKey, demos);
+  }
+
+  return [...matches.entries()]
+    .map(([matchKey, demos]) => {
+      const demoGroups = [...demos.entries()]
+        .map(([demoKey, list]) => ({
+          key: `${matchKey}|${demoKey}`,
+          matchId: matchKey === NO_ID ? null : matchKey,
+          demoId: demoKey === NO_ID ? null : demoKey,
+          teams: distinct(list.map((l) => l.teamName)),
+          players: distinct(list.map((l) => l.playerName)),
+          lineups: list,
+          rounds: buildRounds(list),
+        }))
+        .sort((a, b) => b.lineups.length - a.lineups.length);
+      return {
+        key: matchKey,
+        matchId: matchKey === NO_ID ? null : matchKey,
+        demos: demoGroups,
+        lineupCount: demoGroups.reduce((sum, d) => sum + d.lineups.length, 0),
+      };
+    })
+    .sort((a, b) => b.lineupCount - a.lineupCount);
+}
+
+export const formatRoundTime = (seconds: number | undefined) => {
+  if (seconds === undefined) return '—';
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
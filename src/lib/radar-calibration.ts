@@ -0,0 +1,153 @@
+import { RADAR_SIZE, type MapCoordinateConfig, type RadarLayer } from './map-coordinates';
+
+export interface CalibrationPoint {
+  id: string;
+  // Where the reference point was clicked, in radar %
+  radar: { x: number; y: number };
+  // Known in-game position; null until the admin enters it
+  world: { x: number; y: number } | null;
+}
+
+export interface CalibrationSolution {
+  posX: number;
+  posY: number;
+  scale: number;
+  // Root mean square distance, in game units, between the entered and solved world positions
+  rmsError: number;
+  // Per point, same order as the points with a world position
+  errors: { id: string; error: number }[];
+}
+
+export const MIN_CALIBRATION_POINTS = 3;
+
+/**
+ * Least-squares fit of posX, posY and scale from reference points, using the
+ * same model as worldToRadar: worldX = posX + scale * px, worldY = posY - scale * py,
+ * where px/py are radar pixels on a RADAR_SIZE image.
+ */
+export function solveCalibration(points: CalibrationPoint[]): CalibrationSolution | null {
+  const known = points.filter((p): p is CalibrationPoint & { world: { x: number; y: number } } => !!p.world);
+  if (known.length < MIN_CALIBRATION_POINTS) return null;
+
+  const px = known.map((p) => (p.radar.x / 100) * RADAR_SIZE);
+  const py = known.map((p) => (p.radar.y / 100) * RADAR_SIZE);
+  const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+  const mpx = mean(px);
+  const mpy = mean(py);
+  const mwx = mean(known.map((p) => p.world.x));
+  const mwy = mean(known.map((p) => p.world.y));
+
+  let num = 0;
+  let den = 0;
+  known.forEach((p, i) => {
+    const dpx = px[i] - mpx;
+    const dpy = py[i] - mpy;
+    num += (p.world.x - mwx) * dpx - (p.world.y - mwy) * dpy;
+    den += dpx * dpx + dpy * dpy;
+  });
+  // All points clicked on the same spot
+  if (den === 0) return null;
+
+  const scale = num / den;
+  if (!(scale > 0)) return null;
+  const posX = mwx - scale * mpx;
+  const posY = mwy + scale * mpy;
+
+  const errors = known.map((p, i) => ({
+    id: p.id,
+    error: Math.hypot(posX + scale * px[i] - p.world.x, posY - scale * py[i] - p.world.y),
+  }));
+  const rmsError = Math.sqrt(errors.reduce((s, e) => s + e.error ** 2, 0) / errors.length);
+
+  return { posX, posY, scale, rmsError, errors };
+}
+
+/**
+ * Suggest the Z height separating two levels with Otsu's method: the threshold
+ * that maximises the variance between the heights below and above it.
+ */
+export function suggestZSplit(values: number[]): number | null {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length < 4) return null;
+
+  const total = sorted.reduce((s, v) => s + v, 0);
+  let best: number | null = null;
+  let bestVariance = -1;
+  let lowerSum = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    lowerSum += sorted[i - 1];
+    if (sorted[i] === sorted[i - 1]) continue;
+    const w0 = i / sorted.length;
+    const mean0 = lowerSum / i;
+    const mean1 = (total - lowerSum) / (sorted.length - i);
+    const variance = w0 * (1 - w0) * (mean0 - mean1) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = Math.round((sorted[i - 1] + sorted[i]) / 2);
+    }
+  }
+  return best;
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Round a solution to the precision used in the calibration table. A lower
+ * image turns the config into upper and lower layers split at zSplitThreshold;
+ * the current config's layers below those two then follow unchanged, and the
+ * lower layer keeps its floor so it does not overlap them.
+ */
+export function toMapConfig(
+  solution: Pick<CalibrationSolution, 'posX' | 'posY' | 'scale'>,
+  // existingLayers: the map's current layers, top first
+  images: { radarImage: string; lowerRadarImage?: string; zSplitThreshold?: number; existingLayers?: RadarLayer[] },
+): MapCoordinateConfig {
+  const split = images.zSplitThreshold;
+  const config: MapCoordinateConfig = {
+    posX: Math.round(solution.posX),
+    posY: Math.round(solution.posY),
+    scale: round(solution.scale, 3),
+    radarImage: images.radarImage,
+  };
+  if (!images.lowerRadarImage) return config;
+
+  const existing = images.existingLayers ?? [];
+  const extra = existing.slice(2);
+  const floor = existing[1]?.minZ ?? extra[0]?.maxZ;
+  return {
+    ...config,
+    layers: [
+      { label: 'Upper', radarImage: images.radarImage, ...(split !== undefined ? { minZ: split } : {}) },
+      {
+        label: 'Lower',
+        radarImage: images.lowerRadarImage,
+        ...(floor !== undefined ? { minZ: floor } : {}),
+        ...(split !== undefined ? { maxZ: split } : {}),
+      },
+      ...extra,
+    ],
+  };
+}
+
+const formatLayer = (layer: RadarLayer) => {
+  const fields = [`label: '${layer.label}'`, `radarImage: '${layer.radarImage}'`];
+  if (layer.minZ !== undefined) fields.push(`minZ: ${layer.minZ}`);
+  if (layer.maxZ !== undefined) fields.push(`maxZ: ${layer.maxZ}`);
+  return `      { ${fields.join(', ')} },`;
+};
+
+/** Entry ready to paste into the calibration table in map-coordinates.ts. */
+export function formatConfigEntry(mapName: string, config: MapCoordinateConfig): string {
+  const lines = [
+    `  ${mapName}: {`,
+    `    posX: ${config.posX},`,
+    `    posY: ${config.posY},`,
+    `    scale: ${config.scale},`,
+    `    radarImage: '${config.radarImage}',`,
+  ];
+  if (config.layers) lines.push('    layers: [', ...config.layers.map(formatLayer), '    ],');
+  if (config.lowerRadarImage) lines.push(`    lowerRadarImage: '${config.lowerRadarImage}',`);
+  if (config.zSplitThreshold !== undefined) lines.push(`    zSplitThreshold: ${config.zSplitThreshold},`);
+  lines.push('  },');
+  return lines.join('\n');
+}
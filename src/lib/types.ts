@@ -1,3 +1,5 @@
+import type { MapCoordinateConfig } from './map-coordinates';
+
 export type UserRole = 'user' | 'worker' | 'admin';
 
 export interface User {
@@ -60,6 +62,45 @@ export interface Lineup {
   updatedAt: string;
 }
 
+// Fields of a lineup that can be edited from the admin panel. Positions are
+// changed by dragging on the radar. Optional fields accept null to clear them.
+export type LineupPositionField = 'throwPosition' | 'releasePosition' | 'landingPosition';
+
+export type EditableLineupField =
+  | LineupPositionField
+  | 'name'
+  | 'description'
+  | 'grenadeType'
+  | 'throwType'
+  | 'throwStrength'
+  | 'instructions'
+  | 'difficulty'
+  | 'tags'
+  | 'isPublic'
+  | 'playerName'
+  | 'teamName'
+  | 'teamSide'
+  | 'roundNumber'
+  | 'roundTimeSeconds'
+  | 'roundWon'
+  | 'playersAliveCt'
+  | 'playersAliveT'
+  | 'isPistolRound'
+  | 'totalDamage'
+  | 'enemiesBlinded'
+  | 'totalBlindDuration'
+  | 'flashAssists';
+
+export type LineupUpdateData = {
+  [K in EditableLineupField]?: Lineup[K] | null;
+};
+
+// Lineup payload for creating a lineup (server-assigned fields removed)
+export type LineupCreateData = Omit<
+  Lineup,
+  'id' | 'creatorId' | 'creatorName' | 'collectionId' | 'collectionName' | 'createdAt' | 'updatedAt'
+>;
+
 export type CollectionDifficulty = 'easy' | 'medium' | 'hard';
 
 export interface LineupCollection {
@@ -172,6 +213,17 @@ export interface ExhaustedUser {
   limitSeconds: number;
 }
 
+// Map registry entry. Calibration is optional: maps without one fall back to
+// the built-in table in map-coordinates.ts, or show as uncalibrated.
+export interface MapDefinition {
+  name: string;
+  displayName: string;
+  color: string;
+  enabled: boolean;
+  sortOrder: number;
+  calibration?: MapCoordinateConfig | null;
+}
+
 export interface MapZone {
   id: string;
   mapName: string;
@@ -196,6 +248,41 @@ export interface CourseCollectionEntry {
   collection: LineupCollection;
 }
 
+// Executes: coordinated lineups thrown by several players, e.g. a full site take
+export type ExecutePlayerSlot = 1 | 2 | 3 | 4 | 5;
+
+export interface ExecuteStep {
+  id: string;
+  executeId: string;
+  lineupId: string;
+  sortOrder: number;
+  // Seconds after the execute starts
+  timingOffset: number;
+  playerSlot: ExecutePlayerSlot;
+  lineup: Lineup;
+}
+
+export interface Execute {
+  id: string;
+  mapName: string;
+  name: string;
+  description?: string;
+  steps: ExecuteStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Steps are sent in order; the server assigns sortOrder from the position
+export type ExecuteStepInput = Pick<ExecuteStep, 'lineupId' | 'timingOffset' | 'playerSlot'>;
+
+export interface CourseExecuteEntry {
+  id: string;
+  courseId: string;
+  executeId: string;
+  sortOrder: number;
+  execute: Execute;
+}
+
 export interface Course {
   id: string;
   mapName: string;
@@ -206,6 +293,7 @@ export interface Course {
   sortOrder: number;
   isPublished: boolean;
   courseCollections: CourseCollectionEntry[];
+  courseExecutes?: CourseExecuteEntry[];
   createdAt: string;
   updatedAt: string;
 }
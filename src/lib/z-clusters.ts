@@ -0,0 +1,127 @@
+export interface ZCluster {
+  values: number[];
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface ZClusterResult {
+  // Height levels from lowest to highest; empty when everything is on one level
+  clusters: ZCluster[];
+  total: number;
+  splitPoints: number[];
+}
+
+// Lineups above this are treated as airborne and ignored
+const GROUND_Z_LIMIT = 200;
+// Padding below the lowest cluster so edge positions still fall inside the range
+const RANGE_MARGIN = 15;
+
+// Otsu's method: find the Z threshold that maximizes between-class variance
+function otsuSplit(values: number[]): { lower: number[]; upper: number[]; splitZ: number } | null {
+  if (values.length < 4) return null;
+  const range = values[values.length - 1] - values[0];
+  if (range < 80) return null;
+
+  let bestThreshold = values[0];
+  let bestVariance = -1;
+
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] === values[i - 1]) continue;
+    const threshold = (values[i - 1] + values[i]) / 2;
+    const lower = values.filter((z) => z <= threshold);
+    const upper = values.filter((z) => z > threshold);
+    if (lower.length < 2 || upper.length < 2) continue;
+
+    const w0 = lower.length / values.length;
+    const w1 = upper.length / values.length;
+    const mean0 = lower.reduce((s, v) => s + v, 0) / lower.length;
+    const mean1 = upper.reduce((s, v) => s + v, 0) / upper.length;
+    const variance = w0 * w1 * (mean0 - mean1) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = threshold;
+    }
+  }
+
+  const lower = values.filter((z) => z <= bestThreshold);
+  const upper = values.filter((z) => z > bestThreshold);
+  if (lower.length < 2 || upper.length < 2) return null;
+
+  const mean0 = lower.reduce((s, v) => s + v, 0) / lower.length;
+  const mean1 = upper.reduce((s, v) => s + v, 0) / upper.length;
+  if (Math.abs(mean1 - mean0) < 60) return null;
+
+  return { lower, upper, splitZ: Math.round(bestThreshold) };
+}
+
+function makeCluster(values: number[]): ZCluster {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return { values, min: values[0], max: values[values.length - 1], mean: Math.round(mean) };
+}
+
+/** Height levels among ground-level Z values, splitting up to three floors (e.g. Nuke). */
+export function detectZClusters(zValues: number[]): ZClusterResult | null {
+  const allZ = [...zValues].sort((a, b) => a - b);
+  if (allZ.length === 0) return null;
+
+  const groundZ = allZ.filter((z) => z < GROUND_Z_LIMIT);
+  if (groundZ.length < 4) {
+    return { clusters: [], total: allZ.length, splitPoints: [] };
+  }
+
+  // First split
+  const split1 = otsuSplit(groundZ);
+  if (!split1) {
+    return { clusters: [], total: allZ.length, splitPoints: [] };
+  }
+
+  // Try to split each half again for 3-level maps (e.g., Nuke)
+  const subLower = otsuSplit(split1.lower);
+  const subUpper = otsuSplit(split1.upper);
+
+  let clusters: ZCluster[];
+  let splitPoints: number[];
+
+  if (subLower && subUpper) {
+    // Both halves can split — pick the more meaningful one (larger mean gap)
+    const lowerGap = Math.abs(makeCluster(subLower.upper).mean - makeCluster(subLower.lower).mean);
+    const upperGap = Math.abs(makeCluster(subUpper.upper).mean - makeCluster(subUpper.lower).mean);
+    if (lowerGap >= upperGap) {
+      clusters = [makeCluster(subLower.lower), makeCluster(subLower.upper), makeCluster(split1.upper)];
+      splitPoints = [subLower.splitZ, split1.splitZ];
+    } else {
+      clusters = [makeCluster(split1.lower), makeCluster(subUpper.lower), makeCluster(subUpper.upper)];
+      splitPoints = [split1.splitZ, subUpper.splitZ];
+    }
+  } else if (subLower) {
+    clusters = [makeCluster(subLower.lower), makeCluster(subLower.upper), makeCluster(split1.upper)];
+    splitPoints = [subLower.splitZ, split1.splitZ];
+  } else if (subUpper) {
+    clusters = [makeCluster(split1.lower), makeCluster(subUpper.lower), makeCluster(subUpper.upper)];
+    splitPoints = [split1.splitZ, subUpper.splitZ];
+  } else {
+    clusters = [makeCluster(split1.lower), makeCluster(split1.upper)];
+    splitPoints = [split1.splitZ];
+  }
+
+  return { clusters, total: allZ.length, splitPoints };
+}
+
+/** Zone Z range covering one cluster: split points between levels, open above the top one. */
+export function clusterZRange(result: ZClusterResult, index: number): { zMin: number; zMax: number | null } {
+  const isLast = index === result.clusters.length - 1;
+  return {
+    zMin: index === 0 ? Math.round(result.clusters[0].min - RANGE_MARGIN) : result.splitPoints[index - 1],
+    zMax: isLast ? null : result.splitPoints[index],
+  };
+}
+
+export function clusterLabel(count: number, index: number): string {
+  if (count === 2) return index === 0 ? 'Lower' : 'Upper';
+  return index === 0 ? 'Lower' : index === 1 ? 'Middle' : 'Upper';
+}
+
+/** Index of the level holding the most positions. */
+export const dominantCluster = (result: ZClusterResult) =>
+  result.clusters.reduce((best, c, i) => (c.values.length > result.clusters[best].values.length ? i : best), 0);
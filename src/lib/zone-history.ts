@@ -0,0 +1,86 @@
+import type { MapZone } from './types';
+
+/** One zone before and after an edit; before is null for a create, after is null for a delete. */
+export interface ZoneChange {
+  before: MapZone | null;
+  after: MapZone | null;
+}
+
+export interface ZoneHistoryEntry {
+  // Shown in the undo/redo button titles, e.g. "Delete A Site"
+  label: string;
+  changes: ZoneChange[];
+}
+
+export interface ZoneHistory {
+  mapName: string;
+  past: ZoneHistoryEntry[];
+  future: ZoneHistoryEntry[];
+}
+
+// Oldest entries are dropped past this
+export const ZONE_HISTORY_LIMIT = 50;
+
+export const emptyZoneHistory = (mapName: string): ZoneHistory => ({ mapName, past: [], future: [] });
+
+/** Editable fields of a zone, as accepted by zonesApi.create and zonesApi.update. */
+export const zoneData = (zone: MapZone) => ({
+  name: zone.name,
+  polygon: zone.polygon,
+  zMin: zone.zMin,
+  zMax: zone.zMax,
+  priority: zone.priority,
+  color: zone.color,
+});
+
+/** Records a new entry; any redo history is discarded. */
+export const pushZoneHistory = (history: ZoneHistory, entry: ZoneHistoryEntry): ZoneHistory => ({
+  ...history,
+  past: [...history.past, entry].slice(-ZONE_HISTORY_LIMIT),
+  future: [],
+});
+
+/**
+ * Restoring a deleted zone creates it again under a new id, so every entry
+ * that refers to the old id is pointed at the new one.
+ */
+export function remapZoneIds(entries: ZoneHistoryEntry[], ids: Record<string, string>): ZoneHistoryEntry[] {
+  if (Object.keys(ids).length === 0) return entries;
+  const remap = (zone: MapZone | null) => {
+    const id = zone && ids[zone.id];
+    return zone && id ? { ...zone, id } : zone;
+  };
+  return entries.map((entry) => ({
+    ...entry,
+    changes: entry.changes.map((c) => ({ before: remap(c.before), after: remap(c.after) })),
+  }));
+}
+
+/**
+ * History after an undo or redo of the newest past (or oldest future) entry
+ * applied its first `applied` changes. An undo runs an entry's changes in
+ * reverse. When the step stopped partway, the applied part moves to the other
+ * stack and the rest stays put, so a retry only runs what is left.
+ */
+export function completeZoneHistoryStep(
+  history: ZoneHistory,
+  direction: 'undo' | 'redo',
+  applied: number,
+  ids: Record<string, string>,
+): ZoneHistory {
+  const { past, future } = history;
+  const undoing = direction === 'undo';
+  const entry = undoing ? past[past.length - 1] : future[0];
+  if (!entry || applied === 0) return history;
+  const split = undoing ? entry.changes.length - applied : applied;
+  const first = { ...entry, changes: entry.changes.slice(0, split) };
+  const second = { ...entry, changes: entry.changes.slice(split) };
+  // Undo applied the second part, redo the first
+  const [done, rest] = undoing ? [second, first] : [first, second];
+  const remaining = rest.changes.length > 0 ? [rest] : [];
+  return {
+    ...history,
+    past: remapZoneIds(undoing ? [...past.slice(0, -1), ...remaining] : [...past, done], ids),
+    future: remapZoneIds(undoing ? [done, ...future] : [...remaining, ...future.slice(1)], ids),
+  };
+}
@@ -0,0 +1,66 @@
+import { lineupsApi } from './api';
+import { pointInPolygon } from './map-coordinates';
+import type { Lineup, MapZone } from './types';
+
+type WorldPoint = { x: number; y: number; z: number };
+
+// Z bounds are inclusive; a null bound is open
+export const zoneContainsPoint = (zone: MapZone, point: WorldPoint) =>
+  (zone.zMin === null || point.z >= zone.zMin) &&
+  (zone.zMax === null || point.z <= zone.zMax) &&
+  pointInPolygon(point, zone.polygon);
+
+/**
+ * Name for a point, as the backend resolves it: the highest priority zone
+ * containing it, followed by the next one in parentheses ("Jungle (A Site)").
+ * Null when the point is in no zone.
+ */
+export function resolveZoneName(zones: MapZone[], point: WorldPoint): string | null {
+  const matches = zones
+    .filter((zone) => zone.polygon.length >= 3 && zoneContainsPoint(zone, point))
+    .sort((a, b) => b.priority - a.priority);
+  if (matches.length === 0) return null;
+  return matches.length === 1 ? matches[0].name : `${matches[0].name} (${matches[1].name})`;
+}
+
+/** Same shape as zonesApi.resolveName; null unless both the throw and the landing resolve. */
+export function resolveLineupName(
+  zones: MapZone[],
+  lineup: Pick<Lineup, 'throwPosition' | 'landingPosition'>,
+): { throwZone: string; landZone: string; fullName: string } | null {
+  const throwZone = resolveZoneName(zones, lineup.throwPosition);
+  const landZone = resolveZoneName(zones, lineup.landingPosition);
+  if (!throwZone || !landZone) return null;
+  return { throwZone, landZone, fullName: `${throwZone} → ${landZone}` };
+}
+
+export interface RenamePreviewRow {
+  lineup: Lineup;
+  // Null when a position is outside every zone, so the lineup cannot be named
+  name: string | null;
+  changed: boolean;
+}
+
+export const previewZoneRenames = (zones: MapZone[], lineups: Lineup[]): RenamePreviewRow[] =>
+  lineups.map((lineup) => {
+    const name = resolveLineupName(zones, lineup)?.fullName ?? null;
+    return { lineup, name, changed: name !== null && name !== lineup.name };
+  });
+
+export interface LineupRename {
+  id: string;
+  name: string;
+}
+
+/** Saves preview names one lineup at a time; returns how many could not be saved. */
+export async function applyLineupRenames(renames: LineupRename[]): Promise<number> {
+  let failed = 0;
+  for (const { id, name } of renames) {
+    try {
+      await lineupsApi.update(id, { name });
+    } catch {
+      failed++;
+    }
+  }
+  return failed;
+}
@@ -0,0 +1,228 @@
+import { ZONE_PRIORITY_MAX, ZONE_PRIORITY_MIN } from './constants';
+import type { MapZone } from './types';
+import { zoneData } from './zone-history';
+
+// Version history of the export file:
+//   1  GeoJSON-style FeatureCollection, one Polygon feature per zone with a closed ring in world coordinates
+export const ZONE_SCHEMA_VERSION = 1;
+
+type ZoneData = ReturnType<typeof zoneData>;
+
+export interface ZoneFeature {
+  type: 'Feature';
+  id: string;
+  properties: Omit<ZoneData, 'polygon'>;
+  // A single outer ring of [x, y] pairs whose last point repeats the first, as in GeoJSON
+  geometry: { type: 'Polygon'; coordinates: [number, number][][] };
+}
+
+export interface ZoneExportFile {
+  type: 'FeatureCollection';
+  schemaVersion: number;
+  exportedAt: string;
+  mapName: string;
+  features: ZoneFeature[];
+}
+
+// ── Export ──
+
+export function exportZones(mapName: string, zones: MapZone[]): ZoneExportFile {
+  const sorted = [...zones].sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+  return {
+    type: 'FeatureCollection',
+    schemaVersion: ZONE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    mapName,
+    features: sorted.map((zone) => {
+      const { polygon, ...properties } = zoneData(zone);
+      const ring = polygon.map((p): [number, number] => [p.x, p.y]);
+      return {
+        type: 'Feature',
+        id: zone.id,
+        properties,
+        geometry: { type: 'Polygon', coordinates: [[...ring, ring[0]]] },
+      };
+    }),
+  };
+}
+
+// ── Import ──
+
+export interface ImportedZone {
+  index: number;
+  sourceId?: string;
+  name: string;
+  data: ZoneData | null;
+  errors: string[];
+}
+
+export interface ParsedZoneFile {
+  schemaVersion: number;
+  mapName: string;
+  zones: ImportedZone[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+function parseZoneFeature(feature: unknown, index: number): ImportedZone {
+  const errors: string[] = [];
+  const fallbackName = `Zone #${index + 1}`;
+  if (!isObject(feature)) return { index, name: fallbackName, data: null, errors: ['Feature is not an object'] };
+
+  const props = isObject(feature.properties) ? feature.properties : {};
+  const name = typeof props.name === 'string' && props.name.trim() ? props.name.trim() : null;
+  if (!name) errors.push('Name is missing');
+
+  const geometry = isObject(feature.geometry) ? feature.geometry : null;
+  const ring = geometry?.type === 'Polygon' && Array.isArray(geometry.coordinates) ? geometry.coordinates[0] : null;
+  let polygon: { x: number; y: number }[] = [];
+  if (!Array.isArray(ring)) {
+    errors.push('Geometry must be a Polygon');
+  } else if (!ring.every((p) => Array.isArray(p) && p.length >= 2 && isFiniteNumber(p[0]) && isFiniteNumber(p[1]))) {
+    errors.push('Polygon coordinates must be [x, y] number pairs');
+  } else {
+    polygon = (ring as number[][]).map(([x, y]) => ({ x, y }));
+    const first = polygon[0];
+    const last = polygon[polygon.length - 1];
+    if (polygon.length > 1 && first.x === last.x && first.y === last.y) polygon.pop();
+    if (polygon.length < 3) errors.push('Polygon needs at least 3 vertices');
+  }
+
+  const bound = (key: 'zMin' | 'zMax') => {
+    const value = props[key];
+    if (value === undefined || value === null) return null;
+    if (!isFiniteNumber(value)) errors.push(`${key} must be a number or null`);
+    return isFiniteNumber(value) ? value : null;
+  };
+  const zMin = bound('zMin');
+  const zMax = bound('zMax');
+  if (zMin !== null && zMax !== null && zMin > zMax) errors.push('zMin is above zMax');
+
+  const priority = props.priority === undefined ? 5 : props.priority;
+  // Same range the zone form allows
+  if (
+    typeof priority !== 'number' ||
+    !Number.isInteger(priority) ||
+    priority < ZONE_PRIORITY_MIN ||
+    priority > ZONE_PRIORITY_MAX
+  ) {
+    errors.push(`Priority must be a whole number from ${ZONE_PRIORITY_MIN} to ${ZONE_PRIORITY_MAX}`);
+  }
+  const color = typeof props.color === 'string' && HEX_COLOR.test(props.color) ? props.color : null;
+  if (!color) errors.push('Color must be a #rrggbb hex value');
+
+  return {
+    index,
+    sourceId: typeof feature.id === 'string' ? feature.id : undefined,
+    name: name ?? fallbackName,
+    data:
+      errors.length === 0 && name && color
+        ? { name, polygon, zMin, zMax, priority: priority as number, color }
+        : null,
+    errors,
+  };
+}
+
+/**
+ * Parse a zone export file. Throws when the file is not a zone export or was
+ * made for another map; invalid zones are returned with their errors. A name
+ * used by more than one zone in the file is an error on the later ones, as
+ * they would all resolve to the same existing zone when merging.
+ */
+export function parseZoneFile(json: unknown, mapName: string): ParsedZoneFile {
+  if (!isObject(json)) throw new Error('File is not a JSON object');
+  if (json.type !== 'FeatureCollection' || !Array.isArray(json.features)) {
+    throw new Error('Not a zone export: expected a FeatureCollection with a "features" list');
+  }
+  const schemaVersion = json.schemaVersion;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion)) {
+    throw new Error('schemaVersion must be a whole number');
+  }
+  if (schemaVersion > ZONE_SCHEMA_VERSION) {
+    throw new Error(`File uses schema version ${schemaVersion}; this page supports up to ${ZONE_SCHEMA_VERSION}`);
+  }
+  // Coordinates only make sense on the map they were drawn for
+  if (json.mapName !== mapName) {
+    throw new Error(`File holds zones for ${String(json.mapName)}, not ${mapName}`);
+  }
+  const zones = json.features.map(parseZoneFeature);
+  const seen = new Set<string>();
+  for (const zone of zones) {
+    if (!zone.data) continue;
+    const key = nameKey(zone.data.name);
+    if (seen.has(key)) {
+      zone.errors.push(`Another zone in the file is already named ${zone.data.name}`);
+      zone.data = null;
+    }
+    seen.add(key);
+  }
+  return { schemaVersion, mapName, zones };
+}
+
+// ── Import plan ──
+
+export type ZoneImportMode = 'merge' | 'replace';
+
+// What to do with an imported zone whose name matches an existing one when merging
+export type ZoneConflictResolution = 'overwrite' | 'skip' | 'keep-both';
+
+export type ZoneImportAction =
+  | { kind: 'create'; data: ZoneData }
+  | { kind: 'update'; existing: MapZone; data: ZoneData }
+  | { kind: 'delete'; existing: MapZone };
+
+export interface ZoneConflict {
+  imported: ImportedZone;
+  existing: MapZone;
+  // False when the file holds exactly the existing zone, so overwriting changes nothing
+  differs: boolean;
+}
+
+const sameData = (a: ZoneData, b: ZoneData) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Imported zones sharing a name with an existing zone (case-insensitive). */
+export function findZoneConflicts(existing: MapZone[], imported: ImportedZone[]): ZoneConflict[] {
+  const byName = new Map(existing.map((zone) => [nameKey(zone.name), zone]));
+  return imported.flatMap((zone) => {
+    const match = zone.data && byName.get(nameKey(zone.data.name));
+    return zone.data && match ? [{ imported: zone, existing: match, differs: !sameData(zoneData(match), zone.data) }] : [];
+  });
+}
+
+/**
+ * API calls an import makes, in order. Replace creates the file's zones and
+ * then deletes every existing zone, so stopping at a failed call never leaves
+ * the map emptier than before; merge creates new names and resolves conflicts
+ * per zone, overwriting by default. Invalid zones are always skipped.
+ */
+export function planZoneImport(
+  existing: MapZone[],
+  imported: ImportedZone[],
+  mode: ZoneImportMode,
+  resolutions: Record<number, ZoneConflictResolution>,
+): ZoneImportAction[] {
+  const valid = imported.filter((zone): zone is ImportedZone & { data: ZoneData } => zone.data !== null);
+  if (mode === 'replace') {
+    return [
+      ...valid.map((zone): ZoneImportAction => ({ kind: 'create', data: zone.data })),
+      ...existing.map((zone): ZoneImportAction => ({ kind: 'delete', existing: zone })),
+    ];
+  }
+
+  const conflicts = new Map(findZoneConflicts(existing, valid).map((c) => [c.imported.index, c]));
+  return valid.flatMap((zone): ZoneImportAction[] => {
+    const conflict = conflicts.get(zone.index);
+    if (!conflict) return [{ kind: 'create', data: zone.data }];
+    const resolution = resolutions[zone.index] ?? 'overwrite';
+    if (resolution === 'skip' || (resolution === 'overwrite' && !conflict.differs)) return [];
+    if (resolution === 'keep-both') return [{ kind: 'create', data: zone.data }];
+    return [{ kind: 'update', existing: conflict.existing, data: zone.data }];
+  });
+}
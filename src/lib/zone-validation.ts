@@ -0,0 +1,94 @@
+import { pointInPolygon } from './map-coordinates';
+import type { Lineup, MapZone } from './types';
+import { zoneContainsPoint } from './zone-naming';
+
+type Point = { x: number; y: number };
+
+// Points are in world coordinates, like zone polygons
+export type ZoneIssue =
+  | { kind: 'self-intersection'; zoneId: string; point: Point }
+  | { kind: 'overlap'; zoneIds: [string, string]; samePriority: boolean; point: Point }
+  | { kind: 'uncovered'; lineupId: string; lineupName: string; field: 'throw' | 'landing'; point: Point & { z: number } };
+
+// Segments that only touch at an end, like neighbouring zones sharing a vertex, do not cross
+const EPSILON = 1e-9;
+
+/** Crossing point of segments ab and cd, or null when they do not cross. */
+function segmentIntersection(a: Point, b: Point, c: Point, d: Point): Point | null {
+  const denom = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+  if (denom === 0) return null;
+  const t = ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / denom;
+  const u = ((c.x - a.x) * (b.y - a.y) - (c.y - a.y) * (b.x - a.x)) / denom;
+  if (t <= EPSILON || t >= 1 - EPSILON || u <= EPSILON || u >= 1 - EPSILON) return null;
+  return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+}
+
+const edges = (polygon: Point[]) => polygon.map((p, i) => [p, polygon[(i + 1) % polygon.length]] as const);
+
+/** First place where two non-adjacent edges of the polygon cross. */
+export function findSelfIntersection(polygon: Point[]): Point | null {
+  const list = edges(polygon);
+  for (let i = 0; i < list.length; i++) {
+    for (let j = i + 2; j < list.length; j++) {
+      // The first and last edges share a vertex
+      if (i === 0 && j === list.length - 1) continue;
+      const hit = segmentIntersection(list[i][0], list[i][1], list[j][0], list[j][1]);
+      if (hit) return hit;
+    }
+  }
+  return null;
+}
+
+/** A point inside both polygons, or null when they do not overlap. */
+export function findPolygonOverlap(a: Point[], b: Point[]): Point | null {
+  for (const [p1, p2] of edges(a)) {
+    for (const [q1, q2] of edges(b)) {
+      const hit = segmentIntersection(p1, p2, q1, q2);
+      if (hit) return hit;
+    }
+  }
+  // No crossing edges: one polygon may sit entirely inside the other
+  return a.find((p) => pointInPolygon(p, b)) ?? b.find((p) => pointInPolygon(p, a)) ?? null;
+}
+
+// Z bounds are inclusive and null is open, as in zoneContainsPoint
+const zRangesOverlap = (a: MapZone, b: MapZone) =>
+  (a.zMax === null || b.zMin === null || b.zMin <= a.zMax) &&
+  (b.zMax === null || a.zMin === null || a.zMin <= b.zMax);
+
+/**
+ * Problems with a map's zones: self-intersecting polygons, overlapping zones
+ * whose Z ranges also overlap, and lineup throw or landing points in no zone.
+ */
+export function validateZones(zones: MapZone[], lineups: Lineup[]): ZoneIssue[] {
+  const issues: ZoneIssue[] = [];
+  const valid = zones.filter((z) => z.polygon.length >= 3);
+
+  for (const zone of valid) {
+    const point = findSelfIntersection(zone.polygon);
+    if (point) issues.push({ kind: 'self-intersection', zoneId: zone.id, point });
+  }
+
+  const overlaps: Extract<ZoneIssue, { kind: 'overlap' }>[] = [];
+  for (let i = 0; i < valid.length; i++) {
+    for (let j = i + 1; j < valid.length; j++) {
+      const a = valid[i];
+      const b = valid[j];
+      if (!zRangesOverlap(a, b)) continue;
+      const point = findPolygonOverlap(a.polygon, b.polygon);
+      if (point) overlaps.push({ kind: 'overlap', zoneIds: [a.id, b.id], samePriority: a.priority === b.priority, point });
+    }
+  }
+  // Same-priority overlaps make names ambiguous, so they come first
+  overlaps.sort((x, y) => Number(y.samePriority) - Number(x.samePriority));
+  issues.push(...overlaps);
+
+  for (const lineup of lineups) {
+    for (const [field, position] of [['throw', lineup.throwPosition], ['landing', lineup.landingPosition]] as const) {
+      if (!valid.some((zone) => zoneContainsPoint(zone, position))) {
+        issues.push({ kind: 'uncovered', lineupId: lineup.id, lineupName: lineup.name, field, point: position });
+      }
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { create } from 'zustand';
+import type { MapDefinition } from '@/lib/types';
+import { mapsApi } from '@/lib/api';
+import { BUILT_IN_MAPS, DEFAULT_MAP_COLOR, resolveCalibration, sortMaps } from '@/lib/map-registry';
+import type { MapCoordinateConfig } from '@/lib/map-coordinates';
+
+interface MapRegistryState {
+  // Every registered map, in display order
+  allMaps: MapDefinition[];
+  // Enabled maps only; what pickers and map lists show
+  maps: MapDefinition[];
+  source: 'built-in' | 'server';
+  loaded: boolean;
+  load: () => Promise<void>;
+  save: (maps: MapDefinition[]) => Promise<void>;
+  displayName: (mapName: string) => string;
+  color: (mapName: string) => string;
+  calibration: (mapName: string) => MapCoordinateConfig | undefined;
+}
+
+const withMaps = (list: MapDefinition[]) => {
+  const allMaps = sortMaps(list);
+  return { allMaps, maps: allMaps.filter((m) => m.enabled) };
+};
+
+export const useMapRegistry = create<MapRegistryState>((set, get) => ({
+  ...withMaps(BUILT_IN_MAPS),
+  source: 'built-in',
+  loaded: false,
+
+  load: async () => {
+    try {
+      const maps = await mapsApi.getAll();
+      if (Array.isArray(maps) && maps.length > 0) {
+        set({ ...withMaps(maps), source: 'server' });
+      }
+    } catch {
+      // Keep the built-in maps when the registry is unavailable
+    } finally {
+      set({ loaded: true });
+    }
+  },
+
+  save: async (maps) => {
+    const saved = await mapsApi.save(maps);
+    set({ ...withMaps(Array.isArray(saved) ? saved : maps), source: 'server' });
+  },
+
+  // Lookups cover disabled maps too, so old lineups and collections still show names and colours
+  displayName: (mapName) => get().allMaps.find((m) => m.name === mapName)?.displayName ?? mapName,
+  color: (mapName) => get().allMaps.find((m) => m.name === mapName)?.color ?? DEFAULT_MAP_COLOR,
+  calibration: (mapName) => resolveCalibration(get().allMaps.find((m) => m.name === mapName), mapName),
+}));
+
+/**
+ * Selected map for a page's map picker. Falls back to the first enabled map
+ * while the chosen one is not enabled, e.g. after the server registry loads.
+ * `keep` marks other values the picker accepts as they are, such as 'all'.
+ */
+export function useSelectedMap(
+  initial?: string,
+  keep?: (value: string) => boolean,
+): [string, (mapName: string) => void] {
+  const maps = useMapRegistry((s) => s.maps);
+  const [selected, setSelected] = useState(initial ?? maps[0]?.name ?? '');
+  const valid = keep?.(selected) || maps.some((m) => m.name === selected);
+  const mapName = valid ? selected : (maps[0]?.name ?? '');
+  return [mapName, setSelected];
+}